@@ -1,49 +1,111 @@
-import { Room, RoomEvent } from '@livekit/rtc-node';
-import pino from 'pino';
+import { createServer } from 'node:http';
+
 import dotenv from 'dotenv';
-import { VoiceAgent } from './VoiceAgent.js';
+import { RoomServiceClient } from 'livekit-server-sdk';
 
 dotenv.config({ path: '../.env' });
 
-const logger = pino({ level: process.env.LOG_LEVEL || 'info' });
+// Config is read at import time, so these load after dotenv
+const { AgentWorker } = await import('../../src/agents/AgentWorker.js');
+const { RoomPoller } = await import('../../src/agents/RoomPoller.js');
+const { warmUpTTSCache } = await import('../../src/agents/ttsWarmUp.js');
+const { loadEnv } = await import('../../src/config/env.js');
+const { metricsRegistry } = await import('../../src/services/metrics/metrics.js');
+const { logger } = await import('../../src/utils/logger.js');
 
-const LIVEKIT_URL = process.env.LIVEKIT_URL;
-const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY;
-const LIVEKIT_API_SECRET = process.env.LIVEKIT_API_SECRET;
-
-if (!LIVEKIT_URL || !LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
-  logger.error('Missing required LiveKit environment variables');
-  process.exit(1);
-}
+const config = loadEnv();
 
 /**
- * Agent service that listens for new rooms and joins them automatically
+ * Agent service: watches LiveKit for rooms with callers and runs one voice agent per room
  * This runs as a separate service from the API server
  */
 async function startAgentService() {
   logger.info('Starting voice agent service...');
 
-  // In a production environment, you would use LiveKit's Room Service API
-  // to monitor for new rooms and join them. For this example, we'll use
-  // a webhook-based approach or agent dispatch from LiveKit Cloud.
+  // In the background: rooms are served meanwhile, the cache just fills a little later
+  void warmUpTTSCache();
 
-  logger.info('Agent service ready to join rooms');
-  logger.info('Waiting for room assignments from LiveKit...');
+  const worker = new AgentWorker({
+    maxConcurrency: config.AGENT_MAX_SESSIONS,
+    agentIdentity: config.AGENT_IDENTITY,
+  });
 
-  // The agent will be dispatched by LiveKit Cloud when rooms are created
-  // with the proper room configuration specifying the agent name
-}
+  const roomService = new RoomServiceClient(
+    config.LIVEKIT_URL,
+    config.LIVEKIT_API_KEY,
+    config.LIVEKIT_API_SECRET,
+  );
 
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-  logger.info('Shutting down agent service...');
-  process.exit(0);
-});
+  const poller = new RoomPoller(worker, roomService, {
+    intervalMs: config.AGENT_POLL_INTERVAL_MS,
+    roomPrefix: config.AGENT_ROOM_PREFIX,
+    agentIdentity: config.AGENT_IDENTITY,
+  });
 
-process.on('SIGTERM', () => {
-  logger.info('Shutting down agent service...');
-  process.exit(0);
-});
+  // Per-session status: GET /sessions and GET /sessions/:roomName, Prometheus: GET /metrics
+  const statusServer = createServer((req, res) => {
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    const path = (req.url ?? '/').split('?')[0] ?? '/';
+
+    if (req.method !== 'GET') {
+      return sendJson(405, { error: 'Method not allowed' });
+    }
+
+    if (path === '/metrics') {
+      void metricsRegistry.metrics().then(
+        (body) => {
+          res.writeHead(200, { 'Content-Type': metricsRegistry.contentType });
+          res.end(body);
+        },
+        (error: unknown) => {
+          logger.error({ err: error }, 'failed to collect metrics');
+          sendJson(500, { error: 'Failed to collect metrics' });
+        },
+      );
+      return;
+    }
+
+    if (path === '/sessions') {
+      return sendJson(200, { ...worker.getCapacity(), sessions: worker.getSessions() });
+    }
+
+    if (path.startsWith('/sessions/')) {
+      const session = worker.getSession(decodeURIComponent(path.slice('/sessions/'.length)));
+      return session ? sendJson(200, session) : sendJson(404, { error: 'Session not found' });
+    }
+
+    return sendJson(404, { error: 'Not found' });
+  });
+
+  statusServer.listen(config.AGENT_STATUS_PORT, () => {
+    logger.info({ port: config.AGENT_STATUS_PORT }, 'agent status server started');
+  });
+
+  if (config.AGENT_DISPATCH === 'poll') {
+    poller.start();
+  } else {
+    logger.warn('AGENT_DISPATCH=webhook: rooms are dispatched by the API server, not polled');
+  }
+  logger.info({ maxSessions: config.AGENT_MAX_SESSIONS }, 'Agent service ready to join rooms');
+
+  // Handle graceful shutdown: leave every room before exiting
+  const shutdown = (signal: string) => {
+    logger.info({ signal }, 'Shutting down agent service...');
+    poller.stop();
+    statusServer.close();
+    worker
+      .shutdown()
+      .catch((error: unknown) => logger.error({ err: error }, 'error during shutdown'))
+      .finally(() => process.exit(0));
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
 
 startAgentService().catch((error) => {
   logger.error({ err: error }, 'Failed to start agent service');
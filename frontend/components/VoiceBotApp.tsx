@@ -11,6 +11,13 @@ import {
   useLocalParticipant,
 } from '@livekit/components-react';
 import { Toaster, toast } from 'sonner';
+import {
+  AGENT_EVENTS_TOPIC,
+  AgentEventMessage,
+  COLLECTED_FIELDS,
+  CollectedField,
+  decodeAgentEvent,
+} from '@shared/agentEvents';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -91,7 +98,7 @@ export function VoiceBotApp() {
           onDisconnected={handleDisconnect}
           className="h-screen"
         >
-          <VoiceBotSession participantName={participantName} />
+          <VoiceBotSession />
           <RoomAudioRenderer />
         </LiveKitRoom>
         <Toaster position="top-center" richColors />
@@ -214,33 +221,87 @@ function ServiceItem({ icon, name, price }: { icon: string; name: string; price:
   );
 }
 
-function VoiceBotSession({ participantName }: { participantName: string }) {
+const FIELD_LABELS: Record<CollectedField, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  address: 'Address',
+  issue: 'Issue',
+};
+
+function VoiceBotSession() {
   const room = useRoomContext();
   const { localParticipant } = useLocalParticipant();
   const [messages, setMessages] = useState<Array<{ role: string; content: string }>>([]);
+  const [progress, setProgress] = useState<{ state: string; collected: CollectedField[] }>({
+    state: 'GREETING',
+    collected: [],
+  });
+  const [ticketNumber, setTicketNumber] = useState<string | null>(null);
+  const lastEventSeqRef = useRef(0);
+  const transcriptEndRef = useRef<HTMLDivElement | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [audioLevel, setAudioLevel] = useState(0);
   const [connectionState, setConnectionState] = useState<'connecting' | 'connected' | 'disconnected'>('connecting');
   const animationFrameRef = useRef<number | undefined>(undefined);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  // Keep the latest message in view
   useEffect(() => {
-    // Add initial greeting
-    setMessages([
-      {
-        role: 'assistant',
-        content: `Hello ${participantName}! I'm here to help you create an IT support ticket. What issue are you experiencing today?`,
-      },
-    ]);
-  }, [participantName]);
-
-  // Handle incoming TTS audio data messages
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  // Handle incoming data messages (agent events and TTS audio)
   useEffect(() => {
     if (!room) return;
 
-    const handleDataReceived = (payload: Uint8Array, participant: any, kind: any) => {
+    // Live transcript, progress and ticket from the agent (see src/shared/agentEvents.ts)
+    const handleAgentEvent = (event: AgentEventMessage) => {
+      // Reliable delivery can still repeat a packet after a reconnect
+      if (event.seq <= lastEventSeqRef.current) return;
+      lastEventSeqRef.current = event.seq;
+
+      switch (event.type) {
+        case 'user_transcript':
+          setMessages((prev) => [...prev, { role: 'user', content: event.text }]);
+          break;
+
+        case 'bot_response':
+          // A response arrives sentence by sentence; keep it in one bubble
+          setMessages((prev) => {
+            const last = prev[prev.length - 1];
+            if (last?.role === 'assistant') {
+              return [...prev.slice(0, -1), { ...last, content: `${last.content} ${event.text}` }];
+            }
+            return [...prev, { role: 'assistant', content: event.text }];
+          });
+          break;
+
+        case 'state_changed':
+          setProgress({ state: event.state, collected: event.collected });
+          break;
+
+        case 'ticket_created':
+          setTicketNumber(event.ticketNumber);
+          toast.success(`Ticket ${event.ticketNumber} created`);
+          break;
+      }
+    };
+
+    const handleDataReceived = (
+      payload: Uint8Array,
+      _participant?: unknown,
+      _kind?: unknown,
+      topic?: string,
+    ) => {
+      if (topic === AGENT_EVENTS_TOPIC) {
+        const event = decodeAgentEvent(payload);
+        if (event) handleAgentEvent(event);
+        return;
+      }
+
       // Only process TTS audio data
-      if (kind?.topic !== 'tts-audio') return;
+      if (topic !== 'tts-audio') return;
 
       try {
         // Convert the audio data to a blob and play it
@@ -412,6 +473,12 @@ function VoiceBotSession({ participantName }: { participantName: string }) {
               </span>
             </div>
             
+            <FieldProgress
+              state={progress.state}
+              collected={progress.collected}
+              ticketNumber={ticketNumber}
+            />
+
             <div className="flex-1 overflow-y-auto space-y-4 pr-2 custom-scrollbar">
               {messages.map((msg, idx) => (
                 <div
@@ -467,6 +534,7 @@ function VoiceBotSession({ participantName }: { participantName: string }) {
                   </div>
                 </div>
               )}
+              <div ref={transcriptEndRef} />
             </div>
           </div>
         </div>
@@ -477,3 +545,47 @@ function VoiceBotSession({ participantName }: { participantName: string }) {
     </div>
   );
 }
+
+function FieldProgress({
+  state,
+  collected,
+  ticketNumber,
+}: {
+  state: string;
+  collected: CollectedField[];
+  ticketNumber: string | null;
+}) {
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {collected.length} of {COLLECTED_FIELDS.length} details collected
+        </span>
+        <span className="capitalize">{state.toLowerCase().replace(/_/g, ' ')}</span>
+      </div>
+      <div className="flex gap-2">
+        {COLLECTED_FIELDS.map((field) => {
+          const done = collected.includes(field);
+          return (
+            <div
+              key={field}
+              className={`flex-1 text-center text-xs font-semibold py-1 rounded-full border transition-colors ${
+                done
+                  ? 'bg-emerald-500 border-emerald-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {done ? '✓ ' : ''}
+              {FIELD_LABELS[field]}
+            </div>
+          );
+        })}
+      </div>
+      {ticketNumber && (
+        <div className="text-sm font-semibold text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/40 border border-emerald-300 dark:border-emerald-700 rounded-xl px-4 py-2">
+          🎫 Ticket {ticketNumber} created
+        </div>
+      )}
+    </div>
+  );
+}
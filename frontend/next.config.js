@@ -2,6 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   output: 'standalone',
+  // The agent event schema is shared with the bot (../src/shared)
+  experimental: {
+    externalDir: true,
+  },
   env: {
     NEXT_PUBLIC_LIVEKIT_URL: process.env.LIVEKIT_URL,
   },
@@ -22,6 +22,12 @@ async function main() {
         'wireless',
         'router',
         'connectivity',
+        // Spanish
+        'conexión',
+        'sin internet',
+        'no conecta',
+        'inalámbrica',
+        'enrutador',
       ],
     },
     {
@@ -39,6 +45,12 @@ async function main() {
         'authentication',
         'access',
         'forgot password',
+        // Spanish
+        'correo',
+        'contraseña',
+        'iniciar sesión',
+        'no puedo entrar',
+        'olvidé',
       ],
     },
     {
@@ -57,6 +69,12 @@ async function main() {
         'running slow',
         'sluggish',
         'hanging',
+        // Spanish
+        'lenta',
+        'lento',
+        'se congela',
+        'se traba',
+        'rendimiento',
       ],
     },
     {
@@ -73,6 +91,12 @@ async function main() {
         'ink',
         'scanner',
         'copier',
+        // Spanish
+        'impresora',
+        'imprimir',
+        'imprime',
+        'atasco',
+        'tinta',
       ],
     },
   ];
@@ -80,7 +104,8 @@ async function main() {
   for (const service of services) {
     await prisma.serviceCatalog.upsert({
       where: { issueType: service.issueType },
-      update: {},
+      // Keywords are refreshed so existing databases pick up new ones
+      update: { keywords: service.keywords },
       create: service,
     });
   }
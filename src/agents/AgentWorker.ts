@@ -0,0 +1,219 @@
+import { AccessToken } from 'livekit-server-sdk';
+
+import { loadEnv } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+
+import { VoiceAgent, VoiceAgentStatus } from './VoiceAgent.js';
+
+/**
+ * What the worker needs from an agent (VoiceAgent in production)
+ */
+export interface AgentSession {
+  connect(token: string): Promise<void>;
+  disconnect(): Promise<void>;
+  waitForEnd(): Promise<void>;
+  getStatus(): VoiceAgentStatus;
+}
+
+export type SessionPhase = 'connecting' | 'active' | 'ending';
+
+export interface SessionStatus {
+  roomName: string;
+  phase: SessionPhase;
+  dispatchedAt: Date;
+  agent: VoiceAgentStatus;
+}
+
+export interface AgentWorkerOptions {
+  maxConcurrency: number;
+  agentIdentity: string;
+  createAgent?: (roomName: string, identity: string) => AgentSession;
+  createToken?: (roomName: string, identity: string) => Promise<string>;
+}
+
+export type AgentWorkerErrorCode = 'at_capacity' | 'shutting_down';
+
+export class AgentWorkerError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AgentWorkerErrorCode,
+  ) {
+    super(message);
+    this.name = 'AgentWorkerError';
+  }
+}
+
+interface SessionEntry {
+  agent: AgentSession;
+  phase: SessionPhase;
+  dispatchedAt: Date;
+}
+
+/**
+ * Runs one VoiceAgent per LiveKit room, up to a concurrency limit
+ * Sessions are removed as soon as their agent ends (caller left, room closed or stopped)
+ */
+export class AgentWorker {
+  private sessions = new Map<string, SessionEntry>();
+  private shuttingDown = false;
+  private readonly createAgent: (roomName: string, identity: string) => AgentSession;
+  private readonly createToken: (roomName: string, identity: string) => Promise<string>;
+
+  constructor(private readonly options: AgentWorkerOptions) {
+    this.createAgent =
+      options.createAgent ?? ((roomName, identity) => new VoiceAgent(roomName, identity));
+    this.createToken = options.createToken ?? createAgentToken;
+  }
+
+  /**
+   * Dispatch an agent into a room
+   * Already-running rooms are left alone, so duplicate room-start events are harmless
+   */
+  async startSession(roomName: string): Promise<SessionStatus> {
+    const existing = this.sessions.get(roomName);
+    if (existing) {
+      return this.toStatus(roomName, existing);
+    }
+
+    if (this.shuttingDown) {
+      throw new AgentWorkerError('Worker is shutting down', 'shutting_down');
+    }
+
+    if (this.sessions.size >= this.options.maxConcurrency) {
+      logger.warn(
+        { roomName, activeSessions: this.sessions.size, max: this.options.maxConcurrency },
+        'agent worker at capacity, rejecting room',
+      );
+      throw new AgentWorkerError(
+        `Worker is at capacity (${this.options.maxConcurrency} sessions)`,
+        'at_capacity',
+      );
+    }
+
+    const entry: SessionEntry = {
+      agent: this.createAgent(roomName, this.options.agentIdentity),
+      phase: 'connecting',
+      dispatchedAt: new Date(),
+    };
+    this.sessions.set(roomName, entry);
+
+    logger.info({ roomName, activeSessions: this.sessions.size }, 'dispatching agent to room');
+
+    void entry.agent.waitForEnd().then(() => {
+      if (this.sessions.get(roomName) === entry) {
+        this.sessions.delete(roomName);
+      }
+      logger.info({ roomName, activeSessions: this.sessions.size }, 'agent session finished');
+    });
+
+    try {
+      const token = await this.createToken(roomName, this.options.agentIdentity);
+      // connect() resolves after the greeting, which waits for the caller to subscribe
+      void entry.agent
+        .connect(token)
+        .then(() => {
+          if (entry.phase === 'connecting') {
+            entry.phase = 'active';
+          }
+        })
+        .catch((error) => {
+          logger.error({ err: error, roomName }, 'agent failed to join room');
+          void this.endSession(roomName, entry);
+        });
+    } catch (error) {
+      logger.error({ err: error, roomName }, 'failed to create agent token');
+      await this.endSession(roomName, entry);
+      throw error;
+    }
+
+    return this.toStatus(roomName, entry);
+  }
+
+  /**
+   * Make the agent leave a room
+   * Returns false if no session was running there
+   */
+  async stopSession(roomName: string): Promise<boolean> {
+    const entry = this.sessions.get(roomName);
+    if (!entry) {
+      return false;
+    }
+
+    await this.endSession(roomName, entry);
+    return true;
+  }
+
+  hasSession(roomName: string): boolean {
+    return this.sessions.has(roomName);
+  }
+
+  getSession(roomName: string): SessionStatus | undefined {
+    const entry = this.sessions.get(roomName);
+    return entry && this.toStatus(roomName, entry);
+  }
+
+  getSessions(): SessionStatus[] {
+    return [...this.sessions].map(([roomName, entry]) => this.toStatus(roomName, entry));
+  }
+
+  getCapacity(): { active: number; max: number } {
+    return { active: this.sessions.size, max: this.options.maxConcurrency };
+  }
+
+  /**
+   * Stop accepting rooms and end every running session
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    logger.info({ activeSessions: this.sessions.size }, 'agent worker shutting down');
+
+    await Promise.all(
+      [...this.sessions].map(([roomName, entry]) => this.endSession(roomName, entry)),
+    );
+  }
+
+  private async endSession(roomName: string, entry: SessionEntry): Promise<void> {
+    entry.phase = 'ending';
+
+    try {
+      await entry.agent.disconnect();
+    } catch (error) {
+      logger.warn({ err: error, roomName }, 'agent disconnect failed');
+    } finally {
+      if (this.sessions.get(roomName) === entry) {
+        this.sessions.delete(roomName);
+      }
+    }
+  }
+
+  private toStatus(roomName: string, entry: SessionEntry): SessionStatus {
+    return {
+      roomName,
+      phase: entry.phase,
+      dispatchedAt: entry.dispatchedAt,
+      agent: entry.agent.getStatus(),
+    };
+  }
+}
+
+/**
+ * Access token for the agent participant
+ */
+async function createAgentToken(roomName: string, identity: string): Promise<string> {
+  const config = loadEnv();
+  const token = new AccessToken(config.LIVEKIT_API_KEY, config.LIVEKIT_API_SECRET, {
+    identity,
+    name: 'Help Desk Bot',
+    ttl: '1h',
+  });
+
+  token.addGrant({
+    room: roomName,
+    roomJoin: true,
+    canPublish: true,
+    canPublishData: true,
+    canSubscribe: true,
+  });
+
+  return token.toJwt();
+}
@@ -0,0 +1,205 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { ConversationContext } from '../domain/conversation/state.js';
+import {
+  convertPcm,
+  decodeWav,
+  encodeWav,
+  MIN_SPEECH_DURATION_MS,
+  PcmConverter,
+  PRE_ROLL_MS,
+  STT_FORMAT,
+  TTS_FORMAT,
+} from '../services/audio/audioFormat.js';
+import {
+  detectSpeechSegments,
+  VoiceActivityDetector,
+} from '../services/audio/VoiceActivityDetector.js';
+import { LLMProvider, STTProvider, TTSProvider } from '../services/providers/types.js';
+import { normalizeForSpeech } from '../services/speech/speechNormalizer.js';
+import { LocaleSelection } from '../utils/locale.js';
+import { logger } from '../utils/logger.js';
+
+import { ConversationEngine, ConversationEngineOptions } from './ConversationEngine.js';
+
+/**
+ * One scripted caller turn: a recording (may hold several utterances) or typed text
+ */
+export type SimulatedTurn = { type: 'audio'; file: string } | { type: 'text'; text: string };
+
+export interface TranscriptEntry {
+  speaker: 'caller' | 'bot';
+  text: string;
+  // Recording the caller turn was detected in
+  sourceFile?: string;
+  confidence?: number;
+  // Synthesized bot reply
+  audioFile?: string;
+  usedFallback?: boolean;
+}
+
+export interface SimulationResult {
+  transcript: TranscriptEntry[];
+  context: Readonly<ConversationContext>;
+}
+
+export interface CallSimulatorOptions {
+  providers: { stt: STTProvider; llm: LLMProvider; tts: TTSProvider };
+  vad: VoiceActivityDetector;
+  // Bot replies are written here as numbered WAV files
+  outputDir: string;
+  onEntry?: (entry: TranscriptEntry) => void;
+  confidenceThresholds?: ConversationEngineOptions['confidenceThresholds'];
+  // Language of the call; the TTS provider should have that language's voice
+  locale?: LocaleSelection;
+}
+
+/**
+ * Runs a scripted call through VAD, STT, the conversation engine and TTS without LiveKit
+ * The "room" is the script on one side and WAV files on the other
+ */
+export class CallSimulator {
+  private engine: ConversationEngine;
+  private transcript: TranscriptEntry[] = [];
+  private replyCount = 0;
+
+  constructor(private readonly options: CallSimulatorOptions) {
+    this.engine = new ConversationEngine({
+      llm: options.providers.llm,
+      confidenceThresholds: options.confidenceThresholds,
+      ...options.locale,
+    });
+  }
+
+  async run(turns: SimulatedTurn[]): Promise<SimulationResult> {
+    await mkdir(this.options.outputDir, { recursive: true });
+    logger.info(
+      { sessionId: this.engine.getSessionId(), turns: turns.length },
+      'simulated call started',
+    );
+
+    this.engine.reportProgress();
+    await this.say(this.engine.getGreeting());
+
+    for (const turn of turns) {
+      if (turn.type === 'text') {
+        await this.answer({ speaker: 'caller', text: turn.text });
+        continue;
+      }
+
+      for (const utterance of await this.listen(turn.file)) {
+        await this.answer(utterance);
+      }
+    }
+
+    this.engine.end();
+    logger.info({ sessionId: this.engine.getSessionId() }, 'simulated call ended');
+
+    return { transcript: this.transcript, context: this.engine.getContext() };
+  }
+
+  /**
+   * Split a recording into utterances with the VAD and transcribe each one
+   */
+  private async listen(file: string): Promise<TranscriptEntry[]> {
+    const decoded = decodeWav(await readFile(file));
+    const pcm = convertPcm(decoded.pcm, decoded.format, STT_FORMAT);
+    const bytesPerMs = (STT_FORMAT.sampleRate * 2) / 1000;
+    const utterances: TranscriptEntry[] = [];
+
+    for (const segment of detectSpeechSegments(this.options.vad, pcm, STT_FORMAT.sampleRate)) {
+      // Keep the onset the detector needed to confirm speech, like the live pre-roll
+      const startMs = Math.max(segment.startMs - PRE_ROLL_MS, 0);
+      if (segment.endMs - startMs < MIN_SPEECH_DURATION_MS) {
+        logger.debug({ file, ...segment }, 'audio too short, ignoring');
+        continue;
+      }
+
+      const audio = pcm.subarray(
+        Math.floor(startMs * bytesPerMs) & ~1,
+        Math.floor(segment.endMs * bytesPerMs) & ~1,
+      );
+      const result = await this.options.providers.stt.transcribe(audio, {
+        language: this.engine.isDetectingLocale() ? undefined : this.engine.getLocale(),
+      });
+
+      if (!result.text || result.text.trim().length === 0) {
+        logger.info({ file, ...segment }, 'empty transcript from STT, ignoring');
+        continue;
+      }
+
+      utterances.push({
+        speaker: 'caller',
+        text: result.text.trim(),
+        sourceFile: file,
+        confidence: result.confidence,
+      });
+    }
+
+    if (utterances.length === 0) {
+      logger.warn({ file }, 'no speech recognized in recording');
+    }
+    return utterances;
+  }
+
+  /**
+   * Run one caller turn through the engine and speak the reply
+   */
+  private async answer(entry: TranscriptEntry): Promise<void> {
+    this.record(entry);
+
+    const sentences: string[] = [];
+    const result = await this.engine.respond(entry.text, {
+      onSentence: (sentence) => sentences.push(sentence),
+      confidence: entry.confidence,
+    });
+
+    if (!result.streamed && result.content) {
+      sentences.push(result.content);
+    }
+    await this.say(sentences.join(' '), result.usedFallback);
+  }
+
+  /**
+   * Synthesize a bot reply into the next numbered WAV file
+   */
+  private async say(text: string, usedFallback = false): Promise<void> {
+    const entry: TranscriptEntry = { speaker: 'bot', text, ...(usedFallback && { usedFallback }) };
+
+    if (text) {
+      const file = path.join(
+        this.options.outputDir,
+        `${String(++this.replyCount).padStart(2, '0')}-bot.wav`,
+      );
+      try {
+        await writeFile(file, encodeWav(await this.synthesize(text), TTS_FORMAT));
+        entry.audioFile = file;
+      } catch (error) {
+        // Keep going: the transcript is still useful without the audio
+        logger.error({ err: error }, 'failed to synthesize simulated reply');
+      }
+    }
+
+    this.record(entry);
+  }
+
+  private async synthesize(text: string): Promise<Buffer> {
+    const { tts } = this.options.providers;
+    const stream = await tts.synthesizeStream(
+      normalizeForSpeech(text, { ssml: tts.ssml, locale: this.engine.getLocale() }),
+    );
+    const converter = new PcmConverter(stream.format, TTS_FORMAT);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream.chunks) {
+      chunks.push(converter.push(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private record(entry: TranscriptEntry): void {
+    this.transcript.push(entry);
+    this.options.onEntry?.(entry);
+  }
+}
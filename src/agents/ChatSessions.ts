@@ -0,0 +1,282 @@
+import { ConversationState } from '../domain/conversation/state.js';
+import { observeTurnTimings } from '../services/metrics/metrics.js';
+import { TurnTimer } from '../services/metrics/TurnTimer.js';
+import { costTracker } from '../services/providers/CostTracker.js';
+import { ProviderFactory } from '../services/providers/ProviderFactory.js';
+import { AgentEvent, COLLECTED_FIELDS, CollectedField } from '../shared/agentEvents.js';
+import { DEFAULT_LOCALE, Locale, LocaleSelection, resolveLocale } from '../utils/locale.js';
+import { logger } from '../utils/logger.js';
+
+import { ConversationEngine } from './ConversationEngine.js';
+
+/**
+ * What a chat session needs from the engine (ConversationEngine in production)
+ */
+export type ChatEngine = Pick<
+  ConversationEngine,
+  'respond' | 'getSessionId' | 'getContext' | 'getGreeting' | 'end' | 'log' | 'reportProgress'
+>;
+
+export interface ChatReply {
+  sessionId: string;
+  reply: string;
+  state: ConversationState;
+  collected: CollectedField[];
+  ticketNumber?: string;
+  // Progress and ticket events raised while answering
+  events: AgentEvent[];
+}
+
+export interface ChatSessionsOptions {
+  maxSessions: number;
+  // Sessions without a message for this long are ended
+  idleTimeoutMs: number;
+  // Language of sessions the client doesn't choose one for; auto = follow the user (LOCALE)
+  locale?: Locale | 'auto';
+  createEngine?: (
+    onEvent: (event: AgentEvent) => void,
+    locale: LocaleSelection,
+  ) => {
+    engine: ChatEngine;
+    close(): Promise<void>;
+  };
+}
+
+export type ChatSessionErrorCode = 'not_found' | 'at_capacity';
+
+export class ChatSessionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ChatSessionErrorCode,
+  ) {
+    super(message);
+    this.name = 'ChatSessionError';
+  }
+}
+
+/**
+ * One typed conversation; messages are answered strictly one after another
+ */
+export class ChatSession {
+  private queue: Promise<unknown> = Promise.resolve();
+  private events: AgentEvent[] = [];
+  private listeners = new Set<(event: AgentEvent) => void>();
+  lastActiveAt = Date.now();
+
+  readonly engine: ChatEngine;
+  readonly close: () => Promise<void>;
+
+  constructor(
+    createEngine: NonNullable<ChatSessionsOptions['createEngine']>,
+    locale: LocaleSelection,
+  ) {
+    const created = createEngine((event) => this.emit(event), locale);
+    this.engine = created.engine;
+    this.close = () => created.close();
+  }
+
+  get id(): string {
+    return this.engine.getSessionId();
+  }
+
+  /**
+   * Listen to events as they happen (WebSocket clients), in addition to the reply
+   */
+  subscribe(listener: (event: AgentEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  greet(): ChatReply {
+    this.engine.reportProgress();
+    const greeting = this.engine.getGreeting();
+    this.emit({ type: 'bot_response', text: greeting });
+    return this.toReply(greeting, this.takeEvents());
+  }
+
+  /**
+   * Answer a typed message; concurrent messages wait for the one before them
+   */
+  send(text: string): Promise<ChatReply> {
+    const reply = this.queue.then(() => this.respond(text));
+    this.queue = reply.catch(() => undefined);
+    return reply;
+  }
+
+  private async respond(text: string): Promise<ChatReply> {
+    this.lastActiveAt = Date.now();
+    const startTime = Date.now();
+    const timer = new TurnTimer(startTime);
+
+    this.emit({ type: 'user_transcript', text });
+    const result = await this.engine.respond(text, {
+      onSentence: (sentence) => this.emit({ type: 'bot_response', text: sentence }),
+      timer,
+    });
+    if (!result.streamed && result.content) {
+      this.emit({ type: 'bot_response', text: result.content });
+    }
+
+    timer.mark('turn_done');
+    const timings = timer.getTimings();
+    observeTurnTimings(timings, 'chat');
+
+    const duration = (Date.now() - startTime) / 1000;
+    costTracker.track({
+      sttDuration: 0,
+      llmTokens: result.tokens,
+      ttsDuration: 0,
+      timestamp: new Date(),
+    });
+
+    await this.engine
+      .log({
+        userMessage: text,
+        botResponse: result.content,
+        toolCalls: result.toolCalls as never,
+        metadata: {
+          channel: 'chat',
+          duration,
+          tokens: result.tokens,
+          usedFallback: result.usedFallback,
+          timings,
+        } as never,
+      })
+      .catch((error) => logger.warn({ err: error, sessionId: this.id }, 'failed to log chat turn'));
+
+    this.lastActiveAt = Date.now();
+    return this.toReply(result.content, this.takeEvents());
+  }
+
+  private emit(event: AgentEvent): void {
+    this.events.push(event);
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private takeEvents(): AgentEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  private toReply(reply: string, events: AgentEvent[]): ChatReply {
+    const context = this.engine.getContext();
+
+    return {
+      sessionId: this.id,
+      reply,
+      state: context.state,
+      collected: COLLECTED_FIELDS.filter((field) => !!context[field]),
+      ...(context.ticketNumber && { ticketNumber: context.ticketNumber }),
+      events: events.filter((event) => event.type !== 'user_transcript'),
+    };
+  }
+}
+
+/**
+ * Text chat sessions, each driving its own ConversationEngine
+ */
+export class ChatSessions {
+  private sessions = new Map<string, ChatSession>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly createEngine: NonNullable<ChatSessionsOptions['createEngine']>;
+
+  constructor(private readonly options: ChatSessionsOptions) {
+    this.createEngine = options.createEngine ?? createChatEngine;
+  }
+
+  /**
+   * Start a session, in the language the client asked for ("es", "es-MX") if it is supported
+   */
+  create(language?: unknown): ChatSession {
+    this.startSweeping();
+
+    if (this.sessions.size >= this.options.maxSessions) {
+      throw new ChatSessionError(
+        `Too many chat sessions (${this.options.maxSessions})`,
+        'at_capacity',
+      );
+    }
+
+    const session = new ChatSession(
+      this.createEngine,
+      resolveLocale(language, this.options.locale ?? DEFAULT_LOCALE),
+    );
+    this.sessions.set(session.id, session);
+    logger.info(
+      { sessionId: session.id, activeSessions: this.sessions.size },
+      'chat session started',
+    );
+    return session;
+  }
+
+  get(sessionId: string): ChatSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new ChatSessionError('Chat session not found', 'not_found');
+    }
+    return session;
+  }
+
+  /**
+   * End a session (user closed the chat, or it went idle)
+   */
+  async end(sessionId: string, reason: 'closed' | 'idle' = 'closed'): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(sessionId);
+    session.engine.end();
+    logger.info({ sessionId, reason }, 'chat session ended');
+
+    try {
+      await session.engine.log({ metadata: { channel: 'chat', outcome: reason } as never });
+    } catch (error) {
+      logger.warn({ err: error, sessionId }, 'failed to log chat session end');
+    }
+
+    await session.close().catch((error) => logger.warn({ err: error }, 'failed to close chat LLM'));
+    return true;
+  }
+
+  size(): number {
+    return this.sessions.size;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await Promise.all([...this.sessions.keys()].map((sessionId) => this.end(sessionId)));
+  }
+
+  private startSweeping(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(
+      () => {
+        const cutoff = Date.now() - this.options.idleTimeoutMs;
+        for (const [sessionId, session] of this.sessions) {
+          if (session.lastActiveAt < cutoff) {
+            void this.end(sessionId, 'idle');
+          }
+        }
+      },
+      Math.min(this.options.idleTimeoutMs, 60_000),
+    );
+    this.sweepTimer.unref();
+  }
+}
+
+function createChatEngine(onEvent: (event: AgentEvent) => void, locale: LocaleSelection) {
+  const llm = ProviderFactory.createLLMProvider();
+  return {
+    engine: new ConversationEngine({ llm, onEvent, ...locale }),
+    close: () => llm.close(),
+  };
+}
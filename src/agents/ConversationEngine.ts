@@ -0,0 +1,849 @@
+import {
+  ConversationLogRepository,
+  CreateConversationLogInput,
+} from '../data/repositories/ConversationLogRepository.js';
+import { ConversationManager } from '../domain/conversation/ConversationManager.js';
+import {
+  ConversationContext,
+  ConversationState,
+  PendingConfirmation,
+  SlotField,
+  SpellingState,
+} from '../domain/conversation/state.js';
+import { IssueClassifier } from '../domain/issue/IssueClassifier.js';
+import { TurnTimer } from '../services/metrics/TurnTimer.js';
+import {
+  getConfirmationReadBack,
+  getUncertainDetailsNote,
+} from '../services/prompts/confirmationPrompts.js';
+import { getSpellingPrompt, getSpellingReadBack } from '../services/prompts/spellingPrompts.js';
+import { getSystemPrompt } from '../services/prompts/systemPrompt.js';
+import {
+  createFallbackResult,
+  getFallbackResponse,
+  LLMError,
+  LLMErrorType,
+} from '../services/providers/LLMErrorHandler.js';
+import {
+  LLMMessage,
+  LLMOptions,
+  LLMProvider,
+  LLMResult,
+  ToolCall,
+} from '../services/providers/types.js';
+import { toolDefinitions, ToolExecutor } from '../services/tools/ToolExecutor.js';
+import { AgentEvent, COLLECTED_FIELDS } from '../shared/agentEvents.js';
+import { DEFAULT_LOCALE, detectLocale, Locale } from '../utils/locale.js';
+import { logger } from '../utils/logger.js';
+import { SentenceSplitter } from '../utils/sentenceSplitter.js';
+import { parseSpelling, SpelledField } from '../utils/spelling.js';
+import {
+  extractEmail,
+  extractPhone,
+  validateAddress,
+  validateEmail,
+  validateIssue,
+  validateName,
+  validatePhone,
+} from '../utils/validation.js';
+
+export const GREETINGS: Record<Locale, string> = {
+  en: "Hello! I'm here to help you create an IT support ticket. May I have your name please?",
+  es: '¡Hola! Estoy aquí para ayudarle a crear un ticket de soporte técnico. ¿Me podría dar su nombre, por favor?',
+};
+
+// Failed attempts at saying the name or email before the caller is asked to spell it
+const SPELLING_AFTER_FAILURES = 2;
+// Spellings that can't be understood before the field goes back to the normal flow
+const MAX_SPELLING_ATTEMPTS = 3;
+// "Let me spell it", "se lo deletreo"
+const SPELLING_REQUEST = /\b(spell|deletre)/i;
+// Answers to a read-back, in English or Spanish
+const READ_BACK_CONFIRMED =
+  /(?<!\p{L})(yes|yeah|yep|correct|right|exactly|perfect|s[ií]|correcto|exacto|perfecto|claro)(?!\p{L})/iu;
+const READ_BACK_REJECTED = /(?<!\p{L})(no|nope|not|wrong|incorrecto)(?!\p{L})/iu;
+// "No, it's ..." / "No, es ..." before a corrected value
+const READ_BACK_CORRECTION = /^\W*(no|nope|wrong|not quite)\b[\s,.!]*((it'?s|it is|es)\b)?\W*/i;
+// Agreement to the final read-back (unless negated, see READ_BACK_REJECTED)
+const DETAILS_CONFIRMED =
+  /(?<!\p{L})(yes|yeah|correct|confirm(ed)?|that's right|s[ií]|correcto|confirmo)(?!\p{L})/iu;
+// Details listed in the final read-back
+const SLOT_FIELDS: SlotField[] = ['name', 'email', 'phone', 'address'];
+// LLM calls per turn; tool calls in the last one are not run
+const MAX_TOOL_ROUNDS = 4;
+
+export interface ConversationEngineOptions {
+  llm: LLMProvider;
+  sessionId?: string;
+  // Progress and ticket events for the transport to forward (data channel, WebSocket, ...)
+  onEvent?: (event: AgentEvent) => void;
+  // Details heard below their STT confidence threshold are read back for confirmation
+  confidenceThresholds?: Partial<Record<SlotField, number>>;
+  // Language the conversation starts in (default English)
+  locale?: Locale;
+  // Switch to the language the caller speaks, as soon as their words give it away
+  detectLocale?: boolean;
+}
+
+export interface EngineTurnOptions {
+  // Aborting cancels the turn: the LLM call stops and the turn is rolled back from history
+  signal?: AbortSignal;
+  // Complete sentences of a streaming response, while the rest is still being generated
+  onSentence?: (sentence: string) => void;
+  // Called right before tools run; from here on the turn can no longer be cancelled
+  onCommit?: () => void;
+  // Records LLM and tool timings for the turn
+  timer?: TurnTimer;
+  // Bracket each tool call (e.g. to play a filler while a slow one runs)
+  onToolStart?: (name: string) => void;
+  onToolEnd?: (name: string) => void;
+  // STT confidence of the transcript (voice only)
+  confidence?: number;
+}
+
+export interface EngineTurnResult {
+  cancelled: boolean;
+  content: string;
+  usedFallback: boolean;
+  // The content was already handed to onSentence
+  streamed: boolean;
+  toolCalls: ToolCall[];
+  tokens: number;
+}
+
+export type EngineLogEntry = Omit<CreateConversationLogInput, 'sessionId' | 'conversationState'>;
+
+/**
+ * The ticket flow behind every channel: state machine, LLM, tools and conversation log
+ * Knows nothing about audio or LiveKit, so voice and text chat share the same behaviour
+ */
+export class ConversationEngine {
+  private conversation: ConversationManager;
+  private llm: LLMProvider;
+  private toolExecutor: ToolExecutor;
+  private issueClassifier: IssueClassifier;
+  private conversationLogger: ConversationLogRepository;
+  private conversationHistory: LLMMessage[] = [];
+  private locale: Locale;
+  private detectingLocale: boolean;
+  // Last state_changed event reported to the transport
+  private reportedProgress: { state: ConversationState; collected: string } | null = null;
+
+  constructor(private readonly options: ConversationEngineOptions) {
+    this.conversation = new ConversationManager(options.sessionId);
+    this.llm = options.llm;
+    this.toolExecutor = new ToolExecutor();
+    this.issueClassifier = new IssueClassifier();
+    this.conversationLogger = new ConversationLogRepository();
+    this.locale = options.locale ?? DEFAULT_LOCALE;
+    this.detectingLocale = options.detectLocale ?? false;
+
+    // Initialize conversation history with system prompt
+    this.conversationHistory.push({
+      role: 'system',
+      content: getSystemPrompt(this.locale),
+    });
+  }
+
+  getSessionId(): string {
+    return this.conversation.getContext().sessionId;
+  }
+
+  getState(): ConversationState {
+    return this.conversation.getState();
+  }
+
+  getContext(): Readonly<ConversationContext> {
+    return this.conversation.getContext();
+  }
+
+  getDuration(): number {
+    return this.conversation.getDuration();
+  }
+
+  getLocale(): Locale {
+    return this.locale;
+  }
+
+  /**
+   * Still waiting for the caller's first words to tell their language
+   */
+  isDetectingLocale(): boolean {
+    return this.detectingLocale;
+  }
+
+  getGreeting(): string {
+    return GREETINGS[this.locale];
+  }
+
+  /**
+   * Hold the rest of the conversation in a language (chosen by the caller, or detected)
+   */
+  setLocale(locale: Locale): void {
+    this.detectingLocale = false;
+    if (locale === this.locale) {
+      return;
+    }
+
+    this.locale = locale;
+    this.conversationHistory[0] = { role: 'system', content: getSystemPrompt(locale) };
+    logger.info({ sessionId: this.getSessionId(), locale }, 'conversation language changed');
+  }
+
+  /**
+   * Answer one user turn: update the context, call the LLM, run tools
+   * LLM failures are answered with a state-appropriate fallback instead of throwing
+   */
+  async respond(userMessage: string, options: EngineTurnOptions = {}): Promise<EngineTurnResult> {
+    const { signal, timer } = options;
+    const historyLength = this.conversationHistory.length;
+
+    logger.info({ userMessage, state: this.conversation.getState() }, 'processing user input');
+
+    if (this.detectingLocale) {
+      const detected = detectLocale(userMessage);
+      if (detected) {
+        this.setLocale(detected);
+      }
+    }
+
+    // Add user message to history
+    this.conversationHistory.push({
+      role: 'user',
+      content: userMessage,
+    });
+
+    // Update conversation context based on current state
+    const previousState = this.conversation.getState();
+    await this.updateContextFromUserInput(userMessage, options.confidence);
+    this.reportProgress();
+
+    // While the caller spells a field or confirms a read-back, the bot's side is scripted
+    const spelling = this.conversation.getSpelling();
+    if (spelling) {
+      const content =
+        spelling.value !== undefined
+          ? getSpellingReadBack(spelling.field, spelling.value, this.locale)
+          : getSpellingPrompt(spelling.field, spelling.attempts, this.locale);
+      return this.replyScripted(content, options, historyLength);
+    }
+    const pending = this.conversation.getPendingConfirmation();
+    if (pending) {
+      const content = getConfirmationReadBack(pending.field, pending.value, this.locale);
+      return this.replyScripted(content, options, historyLength);
+    }
+
+    // Point out details from low-confidence transcripts before the final read-back
+    if (
+      this.conversation.getState() === ConversationState.CONFIRMING_DETAILS &&
+      previousState !== ConversationState.CONFIRMING_DETAILS
+    ) {
+      const uncertain = this.getUncertainDetails();
+      if (uncertain.length > 0) {
+        this.conversationHistory.push({
+          role: 'system',
+          content: getUncertainDetailsNote(uncertain, this.locale),
+        });
+      }
+    }
+
+    // If we're in TICKET_CREATION state, add collected context to help LLM create ticket
+    if (this.conversation.getState() === ConversationState.TICKET_CREATION) {
+      const context = this.conversation.getContext();
+      const contextSummary = `COLLECTED CUSTOMER INFORMATION:
+Name: ${context.name || 'Not provided'}
+Email: ${context.email || 'Not provided'}
+Phone: ${context.phone || 'Not provided'}
+Address: ${context.address || 'Not provided'}
+Issue: ${context.issue || 'Not provided'}
+Issue Type: ${context.issueType || 'Not classified'}
+Price: $${context.price || 'Not set'}
+
+Please create the ticket using the create_ticket tool with these exact values.`;
+
+      this.conversationHistory.push({
+        role: 'system',
+        content: contextSummary,
+      });
+    }
+
+    // Call the LLM until it answers without tools: tool results are sent back to it, so it
+    // can react to them in the same turn ("that email looks invalid", the new ticket number)
+    const texts: string[] = [];
+    const toolCalls: ToolCall[] = [];
+    let tokens = 0;
+    let usedFallback = false;
+    let streamed = false;
+
+    timer?.mark('llm_start');
+    for (let round = 1; ; round++) {
+      logger.info({ round }, 'calling LLM...');
+      let llmResponse: LLMResult;
+      try {
+        llmResponse = await this.generateResponse(options, () => {
+          streamed = true;
+        });
+        // Without streamed text, the first token arrives with the whole response
+        timer?.mark('llm_first_token');
+        timer?.mark('llm_done');
+        logger.info(
+          {
+            round,
+            hasContent: !!llmResponse.content,
+            contentLength: llmResponse.content?.length,
+            toolCallsCount: llmResponse.toolCalls?.length || 0,
+            tokens: llmResponse.usage.totalTokens,
+          },
+          'LLM responded',
+        );
+      } catch (error) {
+        // Only the first round can be cancelled; later ones come after the commit
+        if (signal?.aborted && round === 1) {
+          return this.cancelTurn(historyLength);
+        }
+
+        // Handle LLM failure with fallback
+        const llmError = LLMError.fromError(error, signal);
+        logger.error(
+          {
+            round,
+            errorType: llmError.type,
+            retryable: llmError.retryable,
+            message: llmError.message,
+          },
+          'LLM failed, using fallback response',
+        );
+
+        // Get context-appropriate fallback (the state tools already ran in counts)
+        const stateKey = this.getStateKey(this.conversation.getState());
+        const fallbackContent = getFallbackResponse(stateKey, this.locale);
+        llmResponse = createFallbackResult(fallbackContent);
+        usedFallback = true;
+        // Earlier rounds were spoken sentence by sentence; the fallback follows them
+        if (streamed) {
+          options.onSentence?.(fallbackContent);
+        }
+      }
+
+      if (signal?.aborted && round === 1) {
+        return this.cancelTurn(historyLength);
+      }
+
+      // Tools may have side effects (ticket creation), so the turn completes from here on
+      if (round === 1) {
+        options.onCommit?.();
+      }
+
+      tokens += llmResponse.usage.totalTokens;
+      if (llmResponse.content) {
+        texts.push(llmResponse.content);
+      }
+
+      const roundToolCalls = usedFallback ? [] : (llmResponse.toolCalls ?? []);
+      if (roundToolCalls.length > 0 && round >= MAX_TOOL_ROUNDS) {
+        logger.warn(
+          { round, tools: roundToolCalls.map((toolCall) => toolCall.function.name) },
+          'tool round limit reached, skipping further tool calls',
+        );
+      }
+      if (roundToolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) {
+        // Add assistant response to history (skip if fallback to avoid polluting context)
+        if (llmResponse.content && !usedFallback) {
+          this.conversationHistory.push({
+            role: 'assistant',
+            content: llmResponse.content,
+          });
+        }
+        break;
+      }
+
+      // The results are answered by the next round, keyed by the call they belong to
+      this.conversationHistory.push({
+        role: 'assistant',
+        content: llmResponse.content,
+        toolCalls: roundToolCalls,
+      });
+      for (const toolCall of roundToolCalls) {
+        const toolResult = await this.runTool(toolCall, options);
+        this.conversationHistory.push({
+          role: 'tool',
+          content: toolResult,
+          toolCallId: toolCall.id,
+        });
+        toolCalls.push(toolCall);
+      }
+      this.reportProgress();
+      logger.info(
+        { round, tools: roundToolCalls.map((toolCall) => toolCall.function.name) },
+        'tool round finished, sending results to LLM',
+      );
+    }
+
+    // Nothing to say after the tools (the model stopped at the round limit): fall back
+    if (texts.length === 0 && toolCalls.length > 0) {
+      const fallbackContent = getFallbackResponse(
+        this.getStateKey(this.conversation.getState()),
+        this.locale,
+      );
+      texts.push(fallbackContent);
+      usedFallback = true;
+      if (streamed) {
+        options.onSentence?.(fallbackContent);
+      }
+    }
+
+    const content = texts.join(' ');
+    if (!content) {
+      logger.warn('LLM returned no content, nothing to say');
+    }
+
+    return {
+      cancelled: false,
+      content,
+      usedFallback,
+      streamed,
+      toolCalls,
+      tokens,
+    };
+  }
+
+  /**
+   * Record something the bot said outside of a turn (e.g. an inactivity reprompt)
+   */
+  recordBotMessage(text: string): void {
+    // Providers expect the conversation to open with a user message
+    if (!this.conversationHistory.some((message) => message.role === 'user')) {
+      return;
+    }
+    this.conversationHistory.push({ role: 'assistant', content: text });
+  }
+
+  /**
+   * End the conversation (caller hung up, went silent or closed the chat)
+   */
+  end(): void {
+    if (this.conversation.getState() === ConversationState.ENDED) {
+      return;
+    }
+    this.conversation.end();
+    this.reportProgress();
+  }
+
+  /**
+   * Write a conversation log entry for this session in its current state
+   */
+  async log(entry: EngineLogEntry): Promise<void> {
+    await this.conversationLogger.createLog({
+      sessionId: this.getSessionId(),
+      conversationState: this.conversation.getState(),
+      ...entry,
+    });
+  }
+
+  /**
+   * Report the conversation state and collected fields if either changed since last time
+   */
+  reportProgress(): void {
+    const context = this.conversation.getContext();
+    const collected = COLLECTED_FIELDS.filter((field) => !!context[field]);
+    const previous = this.reportedProgress;
+
+    if (previous?.state === context.state && previous.collected === collected.join()) {
+      return;
+    }
+
+    this.reportedProgress = { state: context.state, collected: collected.join() };
+    this.options.onEvent?.({
+      type: 'state_changed',
+      state: context.state,
+      previousState: previous?.state ?? null,
+      collected,
+    });
+  }
+
+  private reportTicketCreated(): void {
+    const { ticketId, ticketNumber, issueType, price } = this.conversation.getContext();
+    if (ticketId && ticketNumber) {
+      this.options.onEvent?.({ type: 'ticket_created', ticketId, ticketNumber, issueType, price });
+    }
+  }
+
+  /**
+   * Answer with a fixed prompt instead of the LLM (spelling, read-backs)
+   */
+  private replyScripted(
+    content: string,
+    options: EngineTurnOptions,
+    historyLength: number,
+  ): EngineTurnResult {
+    if (options.signal?.aborted) {
+      return this.cancelTurn(historyLength);
+    }
+    options.onCommit?.();
+
+    this.conversationHistory.push({ role: 'assistant', content });
+
+    return {
+      cancelled: false,
+      content,
+      usedFallback: false,
+      streamed: false,
+      toolCalls: [],
+      tokens: 0,
+    };
+  }
+
+  /**
+   * Throw away a turn cancelled by the restart policy
+   * Its user message is re-sent as part of the combined turn that replaces it
+   */
+  private cancelTurn(historyLength: number): EngineTurnResult {
+    this.conversationHistory.splice(historyLength);
+    logger.info({ sessionId: this.getSessionId() }, 'turn cancelled');
+
+    return {
+      cancelled: true,
+      content: '',
+      usedFallback: false,
+      streamed: false,
+      toolCalls: [],
+      tokens: 0,
+    };
+  }
+
+  /**
+   * Get the LLM response for the current history
+   * With a streaming provider and an onSentence callback, complete sentences are handed
+   * out while the rest of the response is still being generated
+   */
+  private async generateResponse(
+    turnOptions: EngineTurnOptions,
+    onStreamed: () => void,
+  ): Promise<LLMResult> {
+    const options: LLMOptions = {
+      temperature: 0.7,
+      maxTokens: 300,
+      tools: toolDefinitions,
+      toolChoice: 'auto',
+      signal: turnOptions.signal,
+    };
+
+    const onSentence = turnOptions.onSentence;
+    if (!this.llm.stream || !onSentence) {
+      return this.llm.complete(this.conversationHistory, options);
+    }
+
+    const splitter = new SentenceSplitter();
+    let result: LLMResult | null = null;
+    const emit = (sentence: string) => {
+      onStreamed();
+      onSentence(sentence);
+    };
+
+    for await (const event of this.llm.stream(this.conversationHistory, options)) {
+      if (event.type === 'text') {
+        turnOptions.timer?.mark('llm_first_token');
+        for (const sentence of splitter.push(event.delta)) {
+          emit(sentence);
+        }
+      } else if (event.type === 'done') {
+        result = event.result;
+      }
+    }
+
+    const rest = splitter.flush();
+    if (rest) {
+      emit(rest);
+    }
+
+    if (!result) {
+      throw new LLMError('LLM stream ended without a result', LLMErrorType.UNKNOWN, false);
+    }
+    return result;
+  }
+
+  /**
+   * Map conversation state to fallback response key
+   */
+  private getStateKey(state: ConversationState): string {
+    const stateMap: Record<ConversationState, string> = {
+      [ConversationState.GREETING]: 'greeting',
+      [ConversationState.COLLECTING_NAME]: 'name_collection',
+      [ConversationState.COLLECTING_EMAIL]: 'email_collection',
+      [ConversationState.COLLECTING_PHONE]: 'phone_collection',
+      [ConversationState.COLLECTING_ADDRESS]: 'address_collection',
+      [ConversationState.COLLECTING_ISSUE]: 'issue_collection',
+      [ConversationState.CONFIRMING_DETAILS]: 'confirmation',
+      [ConversationState.TICKET_CREATION]: 'confirmation',
+      [ConversationState.CONFIRMATION]: 'confirmation',
+      [ConversationState.ERROR_RECOVERY]: 'error',
+      [ConversationState.ENDED]: 'default',
+    };
+    return stateMap[state];
+  }
+
+  /**
+   * Update conversation context based on user input and current state
+   */
+  private async updateContextFromUserInput(
+    userMessage: string,
+    confidence?: number,
+  ): Promise<void> {
+    const state = this.conversation.getState();
+    const context = this.conversation.getContext();
+
+    if (context.spelling) {
+      this.updateSpelling(userMessage, context.spelling);
+      return;
+    }
+    if (context.pendingConfirmation) {
+      await this.updateConfirmation(userMessage, context.pendingConfirmation, confidence);
+      return;
+    }
+
+    switch (state) {
+      case ConversationState.GREETING:
+      case ConversationState.COLLECTING_NAME:
+        // Try to extract name
+        if (!context.name) {
+          const nameValidation = validateName(userMessage);
+          if (SPELLING_REQUEST.test(userMessage)) {
+            this.conversation.startSpelling('name');
+          } else if (nameValidation.isValid && nameValidation.sanitized) {
+            this.captureField('name', nameValidation.sanitized, confidence);
+          } else {
+            this.recordCaptureFailure('name');
+          }
+        }
+        break;
+
+      case ConversationState.COLLECTING_EMAIL:
+        // Try to extract email
+        const extractedEmail = extractEmail(userMessage);
+        if (extractedEmail) {
+          const emailValidation = validateEmail(extractedEmail);
+          if (emailValidation.isValid && emailValidation.sanitized) {
+            this.captureField('email', emailValidation.sanitized, confidence);
+            break;
+          }
+        }
+        if (SPELLING_REQUEST.test(userMessage)) {
+          this.conversation.startSpelling('email');
+        } else {
+          this.recordCaptureFailure('email');
+        }
+        break;
+
+      case ConversationState.COLLECTING_PHONE:
+        // Try to extract phone
+        const extractedPhone = extractPhone(userMessage);
+        if (extractedPhone) {
+          const phoneValidation = validatePhone(extractedPhone);
+          if (phoneValidation.isValid && phoneValidation.sanitized) {
+            this.captureField('phone', phoneValidation.sanitized, confidence);
+          }
+        }
+        break;
+
+      case ConversationState.COLLECTING_ADDRESS:
+        // Validate address
+        const addressValidation = validateAddress(userMessage);
+        if (addressValidation.isValid && addressValidation.sanitized) {
+          this.captureField('address', addressValidation.sanitized, confidence);
+        }
+        break;
+
+      case ConversationState.COLLECTING_ISSUE:
+        // Validate and classify issue
+        const issueValidation = validateIssue(userMessage);
+        if (issueValidation.isValid) {
+          this.conversation.updateField('issue', issueValidation.sanitized);
+          const classification = await this.issueClassifier.classify(userMessage);
+          if (classification.confidence !== 'low') {
+            this.conversation.updateField('issueType', classification.issueType);
+            this.conversation.updateField('price', classification.price);
+            this.conversation.advanceToNextState();
+          }
+        }
+        break;
+
+      case ConversationState.CONFIRMING_DETAILS:
+        // Handle confirmation or correction
+        if (DETAILS_CONFIRMED.test(userMessage) && !READ_BACK_REJECTED.test(userMessage)) {
+          this.conversation.advanceToNextState();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Take a detail from what the caller said; one heard with low confidence is read back first
+   */
+  private captureField(field: SlotField, value: string, confidence?: number): void {
+    const threshold = this.options.confidenceThresholds?.[field];
+    if (confidence !== undefined && threshold !== undefined && confidence < threshold) {
+      this.conversation.awaitConfirmation(field, value, confidence);
+      return;
+    }
+    this.storeField(field, value, confidence);
+  }
+
+  /**
+   * Store a detail and move on to the next field
+   */
+  private storeField(field: SlotField, value: string, confidence?: number): void {
+    // The greeting already asked for the name
+    if (field === 'name' && this.conversation.getState() === ConversationState.GREETING) {
+      this.conversation.advanceToNextState();
+    }
+    this.conversation.setField(field, value, confidence);
+    this.conversation.resetRetry();
+    this.conversation.advanceToNextState();
+  }
+
+  /**
+   * Handle the answer to a read-back: store the detail, or take the caller's correction
+   */
+  private async updateConfirmation(
+    userMessage: string,
+    pending: PendingConfirmation,
+    confidence?: number,
+  ): Promise<void> {
+    this.conversation.endConfirmation();
+
+    if (READ_BACK_CONFIRMED.test(userMessage) && !READ_BACK_REJECTED.test(userMessage)) {
+      // Confirmed by the caller, so no longer uncertain for the final read-back
+      this.storeField(pending.field, pending.value);
+      return;
+    }
+
+    // "No, it's john at gmail dot com" is read like a fresh answer
+    const correction = userMessage.replace(READ_BACK_CORRECTION, '');
+    if (/[a-z0-9]/i.test(correction)) {
+      await this.updateContextFromUserInput(correction, confidence);
+    } else if (pending.field === 'name' || pending.field === 'email') {
+      this.recordCaptureFailure(pending.field);
+    }
+  }
+
+  /**
+   * Collected details whose transcript confidence was below the field's threshold
+   */
+  private getUncertainDetails(): Array<{ field: SlotField; value: string }> {
+    const context = this.conversation.getContext();
+    return SLOT_FIELDS.flatMap((field) => {
+      const value = context[field];
+      const confidence = context.fieldConfidence?.[field];
+      const threshold = this.options.confidenceThresholds?.[field];
+      return value && confidence !== undefined && threshold !== undefined && confidence < threshold
+        ? [{ field, value }]
+        : [];
+    });
+  }
+
+  /**
+   * Count a message that didn't yield the field; repeated misses switch to spelling mode
+   */
+  private recordCaptureFailure(field: SpelledField): void {
+    this.conversation.incrementRetry();
+    if (this.conversation.getContext().retryCount >= SPELLING_AFTER_FAILURES) {
+      this.conversation.startSpelling(field);
+    }
+  }
+
+  /**
+   * Handle a message in spelling mode: confirm the read-back, or take a (new) spelling
+   */
+  private updateSpelling(userMessage: string, spelling: SpellingState): void {
+    if (
+      spelling.value !== undefined &&
+      READ_BACK_CONFIRMED.test(userMessage) &&
+      !READ_BACK_REJECTED.test(userMessage)
+    ) {
+      this.conversation.endSpelling();
+      this.storeField(spelling.field, spelling.value);
+      return;
+    }
+
+    // "No, it's J, O, N" corrects in one go
+    const spelled = parseSpelling(userMessage, spelling.field);
+    const validation = spelled
+      ? spelling.field === 'name'
+        ? validateName(spelled)
+        : validateEmail(spelled)
+      : null;
+    if (validation?.isValid && validation.sanitized) {
+      this.conversation.spellingHeard(validation.sanitized);
+      return;
+    }
+
+    this.conversation.spellingMissed();
+    if ((this.conversation.getSpelling()?.attempts ?? 0) >= MAX_SPELLING_ATTEMPTS) {
+      // Let the LLM take the field from here
+      this.conversation.endSpelling();
+    }
+  }
+
+  /**
+   * Run one tool call and update the context from its result
+   */
+  private async runTool(toolCall: ToolCall, options: EngineTurnOptions): Promise<string> {
+    const { name, arguments: args } = toolCall.function;
+    const execute = () => this.toolExecutor.execute(name, args, this.locale);
+
+    options.onToolStart?.(name);
+    const toolResult = await (
+      options.timer ? options.timer.timeTool(name, execute) : execute()
+    ).finally(() => options.onToolEnd?.(name));
+    logger.info({ tool: name, result: toolResult }, 'tool executed');
+
+    // Update context based on tool result
+    await this.handleToolResult(name, toolResult);
+    return toolResult;
+  }
+
+  /**
+   * Handle tool execution results
+   */
+  private async handleToolResult(toolName: string, result: string): Promise<void> {
+    try {
+      const parsed = JSON.parse(result);
+
+      switch (toolName) {
+        case 'validate_email':
+          if (parsed.isValid) {
+            this.conversation.updateField('email', parsed.email);
+            logger.debug({ email: parsed.email }, 'email validated and stored');
+          }
+          break;
+
+        case 'validate_phone':
+          if (parsed.isValid) {
+            this.conversation.updateField('phone', parsed.phone);
+            logger.debug({ phone: parsed.phone }, 'phone validated and stored');
+          }
+          break;
+
+        case 'classify_issue':
+          if (!parsed.needsClarification) {
+            this.conversation.updateField('issueType', parsed.issueType);
+            this.conversation.updateField('price', parsed.price);
+            logger.debug({ issueType: parsed.issueType }, 'issue classified');
+          }
+          break;
+
+        case 'create_ticket':
+          if (parsed.success) {
+            this.conversation.updateField('ticketId', parsed.ticketId);
+            this.conversation.updateField('ticketNumber', parsed.ticketNumber);
+            this.conversation.transitionTo(ConversationState.CONFIRMATION);
+            logger.info({ ticketNumber: parsed.ticketNumber }, 'ticket created successfully');
+            this.reportTicketCreated();
+          }
+          break;
+      }
+    } catch (error) {
+      logger.error({ err: error, toolName }, 'failed to parse tool result');
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { convertPcm } from '../services/audio/audioFormat.js';
+import { getAllFillerPrompts } from '../services/prompts/fillerPrompts.js';
+import { PcmFormat, TTSProvider } from '../services/providers/types.js';
+import { Locale } from '../utils/locale.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Pre-synthesized filler phrases, ready to play without a TTS round trip
+ * Shared by every agent in the process: the phrases and the TTS voice of a language are the
+ * same for all calls
+ */
+export class FillerAudio {
+  private audio = new Map<string, Buffer>();
+  private preparing = new Map<Locale, Promise<void>>();
+
+  /**
+   * Synthesize every filler phrase of a language once; later calls wait for the first
+   * Phrases that fail are skipped for this call (the turn just stays silent) and retried by
+   * the next one
+   */
+  prepare(tts: TTSProvider, format: PcmFormat, locale: Locale): Promise<void> {
+    let preparing = this.preparing.get(locale);
+    if (!preparing) {
+      preparing = this.synthesizeAll(tts, format, locale);
+      this.preparing.set(locale, preparing);
+    }
+    return preparing;
+  }
+
+  /**
+   * PCM for a phrase, or undefined if it isn't ready (yet)
+   */
+  get(text: string): Buffer | undefined {
+    return this.audio.get(text);
+  }
+
+  private async synthesizeAll(tts: TTSProvider, format: PcmFormat, locale: Locale): Promise<void> {
+    const prompts = getAllFillerPrompts(locale);
+    for (const text of prompts) {
+      if (this.audio.has(text)) continue;
+      try {
+        const result = await tts.synthesize(text);
+        this.audio.set(text, convertPcm(result.audio, result.format, format));
+      } catch (error) {
+        logger.warn({ err: error, text }, 'failed to synthesize filler');
+      }
+    }
+
+    const ready = prompts.filter((text) => this.audio.has(text)).length;
+    logger.info({ fillers: ready, locale }, 'filler audio ready');
+
+    if (ready < prompts.length) {
+      this.preparing.delete(locale);
+    }
+  }
+}
+
+export const fillerAudio = new FillerAudio();
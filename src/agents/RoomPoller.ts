@@ -0,0 +1,91 @@
+import { RoomServiceClient } from 'livekit-server-sdk';
+
+import { logger } from '../utils/logger.js';
+
+import { AgentWorker, AgentWorkerError } from './AgentWorker.js';
+
+export interface RoomPollerOptions {
+  intervalMs: number;
+  // Only rooms whose name starts with this are handled ('' = all rooms)
+  roomPrefix: string;
+  // Our own participant, which doesn't count as a caller
+  agentIdentity: string;
+}
+
+/**
+ * Turns the LiveKit room list into room-start/room-finished events for the worker
+ * A room with participants but no agent gets one; an agent whose room is gone is stopped
+ */
+export class RoomPoller {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly worker: AgentWorker,
+    private readonly roomService: Pick<RoomServiceClient, 'listRooms' | 'listParticipants'>,
+    private readonly options: RoomPollerOptions,
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    logger.info(this.options, 'watching LiveKit rooms');
+    void this.poll();
+    this.timer = setInterval(() => void this.poll(), this.options.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async poll(): Promise<void> {
+    // Skip a tick rather than overlap when LiveKit is slow to answer
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const rooms = (await this.roomService.listRooms()).filter((room) =>
+        room.name.startsWith(this.options.roomPrefix),
+      );
+      const roomNames = new Set(rooms.map((room) => room.name));
+
+      for (const room of rooms) {
+        if (room.numParticipants === 0 || this.worker.hasSession(room.name)) continue;
+
+        try {
+          if (!(await this.hasCaller(room.name))) continue;
+          await this.worker.startSession(room.name);
+        } catch (error) {
+          if (error instanceof AgentWorkerError) {
+            // Retried on the next poll once a slot frees up
+            logger.debug({ roomName: room.name, code: error.code }, 'room not dispatched');
+          } else {
+            logger.error({ err: error, roomName: room.name }, 'failed to dispatch agent');
+          }
+        }
+      }
+
+      for (const session of this.worker.getSessions()) {
+        if (!roomNames.has(session.roomName) && session.phase === 'active') {
+          logger.info({ roomName: session.roomName }, 'room finished, stopping agent');
+          await this.worker.stopSession(session.roomName);
+        }
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'failed to list LiveKit rooms');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * The participant count includes an agent that is still leaving, so check identities
+   */
+  private async hasCaller(roomName: string): Promise<boolean> {
+    const participants = await this.roomService.listParticipants(roomName);
+    return participants.some((participant) => participant.identity !== this.options.agentIdentity);
+  }
+}
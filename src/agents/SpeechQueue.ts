@@ -0,0 +1,88 @@
+/**
+ * Outcome of playing one TTS response into the room
+ */
+export interface PlaybackResult {
+  interrupted: boolean;
+  // Audio the caller actually heard before playback ended
+  playedMs: number;
+  // Audio received from TTS (stops growing once playback is interrupted)
+  totalMs: number;
+  // Audio handed to the AudioSource so far (may still be queued)
+  capturedMs: number;
+}
+
+/**
+ * What the caller heard of a whole (possibly multi-sentence) response
+ */
+export interface SpeechSummary {
+  interrupted: boolean;
+  playedMs: number;
+  totalMs: number;
+  // Spoken text, estimated for the interrupted sentence assuming evenly paced speech
+  spokenText: string;
+}
+
+/**
+ * Plays the sentences of one response in order while later ones are still being generated
+ * Once the caller barges in, nothing further from the same response is spoken
+ */
+export class SpeechQueue {
+  private segments: Array<{ text: string; playback: PlaybackResult }> = [];
+  private chain: Promise<void> = Promise.resolve();
+  private cancelled = false;
+
+  constructor(private readonly play: (text: string) => Promise<PlaybackResult>) {}
+
+  /**
+   * Queue text to be spoken after everything queued before it
+   */
+  enqueue(text: string): void {
+    this.chain = this.chain.then(async () => {
+      if (this.cancelled || this.isInterrupted()) return;
+      const playback = await this.play(text);
+      this.segments.push({ text, playback });
+    });
+  }
+
+  /**
+   * Drop everything that hasn't started playing yet (the response is being thrown away)
+   */
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  isInterrupted(): boolean {
+    return this.segments.some((segment) => segment.playback.interrupted);
+  }
+
+  /**
+   * Wait for all queued speech to finish (or be cut off) and summarize it
+   */
+  async finish(): Promise<SpeechSummary> {
+    await this.chain;
+
+    const summary: SpeechSummary = {
+      interrupted: false,
+      playedMs: 0,
+      totalMs: 0,
+      spokenText: '',
+    };
+    const spoken: string[] = [];
+
+    for (const { text, playback } of this.segments) {
+      summary.playedMs += playback.playedMs;
+      summary.totalMs += playback.totalMs;
+
+      if (playback.interrupted) {
+        summary.interrupted = true;
+        const ratio = playback.totalMs > 0 ? Math.min(playback.playedMs / playback.totalMs, 1) : 0;
+        spoken.push(text.slice(0, Math.round(text.length * ratio)));
+      } else {
+        spoken.push(text);
+      }
+    }
+
+    summary.spokenText = spoken.join(' ').trim();
+    return summary;
+  }
+}
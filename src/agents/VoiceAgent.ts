@@ -1,35 +1,64 @@
 import { AudioFrame, AudioSource, AudioStream, LocalAudioTrack, Room, RoomEvent, Track, TrackKind } from '@livekit/rtc-node';
 import { AccessToken } from 'livekit-server-sdk';
 import { loadEnv } from '../config/env.js';
-import { ConversationLogRepository } from '../data/repositories/ConversationLogRepository.js';
-import { ConversationManager } from '../domain/conversation/ConversationManager.js';
+import { FillerScheduler } from '../domain/conversation/FillerScheduler.js';
+import { InactivityMonitor } from '../domain/conversation/InactivityMonitor.js';
 import { ConversationState } from '../domain/conversation/state.js';
-import { IssueClassifier } from '../domain/issue/IssueClassifier.js';
-import { costTracker } from '../services/providers/CostTracker.js';
+import { Turn, TurnQueue, TurnQueueEvent } from '../domain/conversation/TurnQueue.js';
 import {
-  createFallbackResult,
-  getFallbackResponse,
-  LLMError,
-} from '../services/providers/LLMErrorHandler.js';
+  fadeOut,
+  MIN_SPEECH_DURATION_MS,
+  PcmConverter,
+  PRE_ROLL_MS,
+  STT_FORMAT,
+  TTS_FORMAT,
+} from '../services/audio/audioFormat.js';
+import { createVoiceActivityDetector } from '../services/audio/VoiceActivityDetector.js';
+import { observeTurnTimings } from '../services/metrics/metrics.js';
+import { TurnTimer } from '../services/metrics/TurnTimer.js';
+import { getFillerPrompt } from '../services/prompts/fillerPrompts.js';
+import { getInactivityReprompt, INACTIVITY_GOODBYES } from '../services/prompts/inactivityPrompts.js';
+import { costTracker } from '../services/providers/CostTracker.js';
 import { ProviderFactory } from '../services/providers/ProviderFactory.js';
-import { getSystemPrompt } from '../services/prompts/systemPrompt.js';
-import { toolDefinitions, ToolExecutor } from '../services/tools/ToolExecutor.js';
+import { STTResult, STTStream, TTSProvider } from '../services/providers/types.js';
+import { normalizeForSpeech } from '../services/speech/speechNormalizer.js';
+import { AGENT_EVENTS_TOPIC, AgentEvent, encodeAgentEvent } from '../shared/agentEvents.js';
+import { LANGUAGE_ATTRIBUTE, Locale, parseLocale, resolveLocale } from '../utils/locale.js';
 import { logger } from '../utils/logger.js';
-import {
-  extractEmail,
-  extractPhone,
-  validateAddress,
-  validateEmail,
-  validateIssue,
-  validateName,
-  validatePhone,
-} from '../utils/validation.js';
+
+import { ConversationEngine } from './ConversationEngine.js';
+import { fillerAudio } from './FillerAudio.js';
+import { PlaybackResult, SpeechQueue } from './SpeechQueue.js';
 
 const config = loadEnv();
 
-// TTS audio format: 24kHz, 16-bit mono PCM (standard for OpenAI and ElevenLabs)
-const TTS_SAMPLE_RATE = 24000;
-const TTS_CHANNELS = 1;
+// Caller speech needed to cut off bot playback (~100ms at 20ms frames)
+const BARGE_IN_MIN_SPEECH_FRAMES = 5;
+
+// Pre-roll kept in 20ms frames
+const PRE_ROLL_FRAMES = PRE_ROLL_MS / 20;
+
+// A filler cut short by the real response fades out over this long instead of clicking
+const FILLER_FADE_MS = 30;
+
+// Said when a turn fails outside the LLM (which has its own fallbacks)
+const TURN_ERROR_MESSAGES: Record<Locale, string> = {
+  en: "I'm sorry, I encountered an error. Could you please repeat that?",
+  es: 'Lo siento, ocurrió un error. ¿Podría repetirlo, por favor?',
+};
+
+/**
+ * Snapshot of a running agent for session status endpoints
+ */
+export interface VoiceAgentStatus {
+  sessionId: string;
+  roomName: string;
+  state: ConversationState;
+  turnCount: number;
+  isSpeaking: boolean;
+  startedAt: Date;
+  lastUpdatedAt: Date;
+}
 
 /**
  * LiveKit Voice Agent for IT Help Desk
@@ -37,36 +66,71 @@ const TTS_CHANNELS = 1;
  */
 export class VoiceAgent {
   private room: Room;
-  private conversation: ConversationManager;
+  private engine: ConversationEngine;
   private providers;
-  private toolExecutor: ToolExecutor;
-  private issueClassifier: IssueClassifier;
-  private conversationLogger: ConversationLogRepository;
-  private isProcessing = false;
-  private conversationHistory: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> =
-    [];
+  // One TTS provider per conversation language, each with that language's voice
+  private ttsProviders = new Map<Locale, TTSProvider>();
+  private turnQueue: TurnQueue;
+  private inactivity: InactivityMonitor;
+  // Set once the bot starts hanging up; later caller speech is ignored
+  private ending = false;
+  private reprompt: Promise<PlaybackResult> | null = null;
+  private eventSeq = 0;
+  // Transcribed utterances waiting for their turn, with their timings so far
+  private pendingUtterances: Array<{
+    timer: TurnTimer;
+    audioSeconds: number;
+    confidence?: number;
+  }> = [];
 
   // Audio output for TTS playback
   private audioSource: AudioSource | null = null;
   private audioTrack: LocalAudioTrack | null = null;
   private isSpeaking = false;
-
-  constructor(roomName: string, participantIdentity: string) {
+  private currentPlayback: PlaybackResult | null = null;
+  private filler: { stop(): void; done: Promise<void> } | null = null;
+
+  // Resolved once the agent has left the room and released its providers
+  private cleanupPromise: Promise<void> | null = null;
+  private ended: Promise<void>;
+  private resolveEnded!: () => void;
+
+  constructor(
+    private readonly roomName: string,
+    participantIdentity: string,
+  ) {
     this.room = new Room();
-    this.conversation = new ConversationManager();
-    this.providers = ProviderFactory.createAllProviders();
-    this.toolExecutor = new ToolExecutor();
-    this.issueClassifier = new IssueClassifier();
-    this.conversationLogger = new ConversationLogRepository();
-
-    // Initialize conversation history with system prompt
-    this.conversationHistory.push({
-      role: 'system',
-      content: getSystemPrompt(),
+    this.ended = new Promise((resolve) => {
+      this.resolveEnded = resolve;
+    });
+    // The configured language until the caller's own choice is known (see connect)
+    const locale = resolveLocale(undefined, config.LOCALE);
+    this.providers = ProviderFactory.createAllProviders(locale.locale);
+    this.ttsProviders.set(locale.locale, this.providers.tts);
+    this.engine = new ConversationEngine({
+      llm: this.providers.llm,
+      onEvent: (event) => this.publishEvent(event),
+      confidenceThresholds: config.CONFIDENCE_THRESHOLDS,
+      ...locale,
+    });
+    this.turnQueue = new TurnQueue((turn) => this.handleTurn(turn), {
+      policy: config.TURN_POLICY,
+      maxPending: config.TURN_MAX_PENDING,
+      onEvent: (event) => this.logTurnQueueEvent(event),
+      onIdle: () => this.resumeInactivityTimer(),
+    });
+    this.inactivity = new InactivityMonitor({
+      defaults: {
+        repromptAfterMs: config.INACTIVITY_REPROMPT_MS,
+        hangupAfterMs: config.INACTIVITY_HANGUP_MS,
+      },
+      overrides: config.INACTIVITY_STATE_TIMEOUTS,
+      onReprompt: (state) => this.repromptCaller(state),
+      onTimeout: (state) => void this.endForInactivity(state),
     });
 
     logger.info(
-      { sessionId: this.conversation.getContext().sessionId, roomName },
+      { sessionId: this.engine.getSessionId(), roomName },
       'voice agent initialized',
     );
   }
@@ -85,6 +149,11 @@ export class VoiceAgent {
     // Handle any existing participants' audio tracks
     for (const participant of this.room.remoteParticipants.values()) {
       logger.info({ participantId: participant.identity }, 'found existing participant');
+      // Language the caller chose when joining (see /token)
+      const language = parseLocale(participant.attributes[LANGUAGE_ATTRIBUTE]);
+      if (language) {
+        this.engine.setLocale(language);
+      }
       for (const publication of participant.trackPublications.values()) {
         if (publication.track && publication.track.kind === TrackKind.KIND_AUDIO) {
           logger.info({ participantId: participant.identity }, 'subscribing to existing audio track');
@@ -95,11 +164,12 @@ export class VoiceAgent {
 
     // Initialize audio output for TTS
     await this.initializeAudioOutput();
+    this.prepareFillers();
+    this.engine.reportProgress();
 
     // Send initial greeting
-    await this.sendResponse(
-      "Hello! I'm here to help you create an IT support ticket. May I have your name please?",
-    );
+    await this.sendResponse(this.engine.getGreeting());
+    this.resumeInactivityTimer();
   }
 
   /**
@@ -107,9 +177,8 @@ export class VoiceAgent {
    */
   private async initializeAudioOutput(): Promise<void> {
     try {
-      // TTS providers return 24kHz, 16-bit mono PCM
-      const sampleRate = TTS_SAMPLE_RATE;
-      const channels = TTS_CHANNELS;
+      const sampleRate = TTS_FORMAT.sampleRate;
+      const channels = TTS_FORMAT.channels;
 
       this.audioSource = new AudioSource(sampleRate, channels);
       this.audioTrack = LocalAudioTrack.createAudioTrack('agent-voice', this.audioSource);
@@ -153,14 +222,47 @@ export class VoiceAgent {
 
     this.room.on(RoomEvent.Disconnected, () => {
       logger.info('disconnected from room');
-      this.cleanup();
+      void this.cleanup();
     });
 
     this.room.on(RoomEvent.ParticipantDisconnected, (participant) => {
       logger.info({ participantId: participant.identity }, 'participant disconnected');
+
+      // The caller hung up - nobody left to talk to
+      if (this.room.remoteParticipants.size === 0) {
+        void this.disconnect();
+      }
     });
   }
 
+  /**
+   * Leave the room and release providers (safe to call more than once)
+   */
+  async disconnect(): Promise<void> {
+    await this.cleanup();
+  }
+
+  /**
+   * Resolves once the session is over (caller left, room closed or disconnect() called)
+   */
+  waitForEnd(): Promise<void> {
+    return this.ended;
+  }
+
+  getStatus(): VoiceAgentStatus {
+    const context = this.engine.getContext();
+
+    return {
+      sessionId: context.sessionId,
+      roomName: this.roomName,
+      state: context.state,
+      turnCount: context.metadata.turnCount,
+      isSpeaking: this.isSpeaking,
+      startedAt: context.metadata.startedAt,
+      lastUpdatedAt: context.metadata.lastUpdatedAt,
+    };
+  }
+
   /**
    * Handle incoming audio track (streaming STT)
    */
@@ -169,99 +271,115 @@ export class VoiceAgent {
 
     try {
       // Create audio stream from track
-      const audioStream = new AudioStream(track, 16000, 1); // 16kHz mono
+      const audioStream = new AudioStream(track, STT_FORMAT.sampleRate, STT_FORMAT.channels);
+      const vad = createVoiceActivityDetector(config);
       let audioFrames: AudioFrame[] = [];
-      let silentFrameCount = 0;
+      let preRollFrames: AudioFrame[] = [];
+      let sttStream: STTStream | null = null;
       let speechFrameCount = 0;
       let totalFramesReceived = 0;
-      const SILENCE_THRESHOLD = 50; // Very low threshold for better sensitivity
-      const SILENCE_FRAMES_REQUIRED = 20; // ~400ms of silence at 16kHz with 20ms frames
-      const MIN_SPEECH_FRAMES = 3; // Minimum speech frames before processing
-      const MIN_SPEECH_DURATION_MS = 200; // Minimum 200ms of audio to process
 
-      logger.info({ sampleRate: 16000, channels: 1, silenceThreshold: SILENCE_THRESHOLD }, 'audio stream created, starting to process frames with VAD');
+      logger.info(
+        { ...STT_FORMAT, vadMode: config.VAD_MODE },
+        'audio stream created, starting to process frames with VAD',
+      );
 
       // Process audio frames asynchronously
       (async () => {
         try {
           for await (const frame of audioStream) {
             totalFramesReceived++;
-            
-            // Calculate RMS energy of the frame for VAD
-            const rms = this.calculateRMS(frame);
-            
-            // Log every 50th frame to show we're receiving audio + RMS values
+
+            const vadResult = vad.process(frame);
+
+            // Log every 50th frame to show we're receiving audio + energy values
             if (totalFramesReceived % 50 === 1) {
-              logger.info({ 
-                totalFrames: totalFramesReceived, 
-                rms: Math.round(rms),
-                threshold: SILENCE_THRESHOLD,
-                isSpeech: rms >= SILENCE_THRESHOLD,
-                speechFrameCount,
-                silentFrameCount,
-                bufferedFrames: audioFrames.length
-              }, 'audio frame stats');
+              logger.info(
+                {
+                  totalFrames: totalFramesReceived,
+                  rms: Math.round(vadResult.energy),
+                  threshold: Math.round(vadResult.threshold),
+                  isSpeech: vadResult.isSpeech,
+                  speechFrameCount,
+                  bufferedFrames: audioFrames.length,
+                },
+                'audio frame stats',
+              );
             }
-            const isSilent = rms < SILENCE_THRESHOLD;
-
-            if (isSilent) {
-              silentFrameCount++;
-              
-              // If we have speech and enough silence follows, process it
-              if (speechFrameCount >= MIN_SPEECH_FRAMES && silentFrameCount >= SILENCE_FRAMES_REQUIRED) {
-                const totalDuration = audioFrames.reduce(
-                  (sum, f) => sum + (f.samplesPerChannel * 1000) / f.sampleRate,
-                  0,
-                );
-
-                if (totalDuration >= MIN_SPEECH_DURATION_MS) {
-                  logger.info(
-                    { frameCount: audioFrames.length, duration: totalDuration, speechFrames: speechFrameCount },
-                    'speech ended (silence detected), processing',
-                  );
-
-                  // Convert audio frames to buffer for STT
-                  const audioData = this.audioFramesToBuffer(audioFrames);
-                  
-                  logger.info({ audioBufferSize: audioData.length }, 'sending audio to STT');
-                  
-                  // Reset for next utterance
-                  audioFrames = [];
-                  silentFrameCount = 0;
-                  speechFrameCount = 0;
-
-                  // Transcribe
-                  try {
-                    logger.info('calling STT transcribe...');
-                    const result = await this.providers.stt.transcribe(audioData);
-                    logger.info({ resultText: result.text, resultConfidence: result.confidence }, 'STT returned');
-
-                    if (result.text && result.text.trim().length > 0) {
-                      logger.info({ transcript: result.text, confidence: result.confidence }, 'user speech transcribed');
-                      await this.processUserInput(result.text);
-                    } else {
-                      logger.info('empty transcript from STT, ignoring');
-                    }
-                  } catch (error) {
-                    logger.error({ err: error }, 'STT error');
-                  }
-                } else {
-                  logger.debug({ duration: totalDuration }, 'audio too short, ignoring');
-                  audioFrames = [];
-                  silentFrameCount = 0;
-                  speechFrameCount = 0;
-                }
+
+            if (vadResult.event === 'speech_start') {
+              logger.info(
+                { rms: Math.round(vadResult.energy), threshold: Math.round(vadResult.threshold) },
+                'speech started',
+              );
+              // The caller is talking, so the silence clock stops until the bot has answered
+              this.inactivity.stop();
+
+              // Keep the onset that the detector needed to confirm speech
+              audioFrames = preRollFrames;
+              preRollFrames = [];
+
+              // Start streaming STT right away when the provider supports it
+              sttStream = this.openSTTStream();
+              for (const preRollFrame of audioFrames) {
+                sttStream?.write(this.audioFramesToBuffer([preRollFrame]));
               }
-            } else {
-              // Speech detected
-              silentFrameCount = 0;
-              speechFrameCount++;
-              audioFrames.push(frame);
-              
-              if (speechFrameCount === 1) {
-                logger.info({ rms, threshold: SILENCE_THRESHOLD }, 'speech started');
+            }
+
+            if (!vadResult.isSpeech) {
+              preRollFrames.push(frame);
+              if (preRollFrames.length > PRE_ROLL_FRAMES) {
+                preRollFrames.shift();
               }
+              continue;
+            }
+
+            speechFrameCount++;
+            audioFrames.push(frame);
+            sttStream?.write(this.audioFramesToBuffer([frame]));
+
+            // Caller is talking over the bot - cut the rest of the playback
+            if (this.isSpeaking && speechFrameCount === BARGE_IN_MIN_SPEECH_FRAMES) {
+              this.interruptPlayback();
+            }
+
+            if (vadResult.event !== 'speech_end') {
+              continue;
             }
+
+            const totalDuration = audioFrames.reduce(
+              (sum, f) => sum + (f.samplesPerChannel * 1000) / f.sampleRate,
+              0,
+            );
+            const utteranceFrames = audioFrames;
+            const utteranceStream = sttStream;
+            const speechEndedAt = Date.now();
+
+            // Reset for next utterance
+            audioFrames = [];
+            speechFrameCount = 0;
+            sttStream = null;
+
+            if (totalDuration < MIN_SPEECH_DURATION_MS) {
+              logger.debug({ duration: totalDuration }, 'audio too short, ignoring');
+              utteranceStream?.abort();
+              this.resumeInactivityTimer();
+              continue;
+            }
+
+            logger.info(
+              { frameCount: utteranceFrames.length, duration: totalDuration },
+              'speech ended (silence detected), processing',
+            );
+
+            // Convert audio frames to buffer for STT
+            const audioData = this.audioFramesToBuffer(utteranceFrames);
+
+            logger.info({ audioBufferSize: audioData.length }, 'sending audio to STT');
+
+            // Handle the utterance without blocking the frame loop, so that
+            // caller speech keeps being detected while the bot is talking
+            void this.handleUtterance(audioData, utteranceStream, speechEndedAt);
           }
 
           logger.info({ totalFramesReceived }, 'audio stream ended');
@@ -275,15 +393,86 @@ export class VoiceAgent {
   }
 
   /**
-   * Calculate RMS (Root Mean Square) energy of an audio frame for VAD
+   * Transcribe a finished utterance and queue it as a conversation turn
+   */
+  private async handleUtterance(
+    audioData: Buffer,
+    stream: STTStream | null,
+    speechEndedAt: number,
+  ): Promise<void> {
+    const timer = new TurnTimer(speechEndedAt);
+    try {
+      const result = await this.transcribeUtterance(audioData, stream);
+      timer.mark('stt_done');
+      logger.info({ resultText: result.text, resultConfidence: result.confidence }, 'STT returned');
+
+      if (this.ending) {
+        logger.info('call is ending, ignoring caller speech');
+        return;
+      }
+
+      if (!result.text || result.text.trim().length === 0) {
+        logger.info('empty transcript from STT, ignoring');
+        this.resumeInactivityTimer();
+        return;
+      }
+
+      logger.info({ transcript: result.text, confidence: result.confidence }, 'user speech transcribed');
+      this.publishEvent({ type: 'user_transcript', text: result.text, confidence: result.confidence });
+
+      this.pendingUtterances.push({
+        timer,
+        audioSeconds: audioData.length / (2 * STT_FORMAT.sampleRate),
+        confidence: result.confidence,
+      });
+      this.turnQueue.enqueue(result.text);
+    } catch (error) {
+      logger.error({ err: error }, 'STT error');
+      this.resumeInactivityTimer();
+    }
+  }
+
+  /**
+   * Open a streaming STT session if the provider supports one
+   */
+  private openSTTStream(): STTStream | null {
+    if (!this.providers.stt.createStream) {
+      return null;
+    }
+
+    try {
+      return this.providers.stt.createStream({
+        onInterim: (result) => logger.debug({ interim: result.text }, 'interim transcript'),
+        language: this.getSTTLanguage(),
+      });
+    } catch (error) {
+      logger.warn({ err: error }, 'failed to open STT stream, using buffered transcription');
+      return null;
+    }
+  }
+
+  /**
+   * Get the final transcript from the streaming session, or fall back to buffered STT
    */
-  private calculateRMS(frame: AudioFrame): number {
-    let sum = 0;
-    for (let i = 0; i < frame.data.length; i++) {
-      const sample = frame.data[i] ?? 0;
-      sum += sample * sample;
+  private async transcribeUtterance(audioData: Buffer, stream: STTStream | null): Promise<STTResult> {
+    if (stream) {
+      try {
+        logger.info('finishing STT stream...');
+        return await stream.finish();
+      } catch (error) {
+        logger.warn({ err: error }, 'streaming STT failed, falling back to buffered transcription');
+      }
     }
-    return Math.sqrt(sum / frame.data.length);
+
+    logger.info('calling STT transcribe...');
+    return this.providers.stt.transcribe(audioData, { language: this.getSTTLanguage() });
+  }
+
+  /**
+   * Language hint for STT: none while the caller's language is still being detected
+   */
+  private getSTTLanguage(): Locale | undefined {
+    return this.engine.isDetectingLocale() ? undefined : this.engine.getLocale();
   }
 
   /**
@@ -308,326 +497,435 @@ export class VoiceAgent {
   }
 
   /**
-   * Process user input (from transcribed speech)
+   * Queue user input (from transcribed speech) and wait until it has been answered
+   * Input that arrives mid-turn is merged or restarts the turn (see TURN_POLICY)
    */
   async processUserInput(userMessage: string): Promise<void> {
-    if (this.isProcessing) {
-      logger.warn('already processing, skipping input');
-      return;
-    }
+    this.turnQueue.enqueue(userMessage);
+    await this.turnQueue.drain();
+  }
 
-    this.isProcessing = true;
+  /**
+   * Run one caller turn through the LLM, tools and TTS
+   */
+  private async handleTurn(turn: Turn): Promise<void> {
+    const userMessage = turn.text;
     const startTime = Date.now();
+    this.inactivity.stop();
+
+    // Timings run from the end of the last utterance in the turn
+    const utterances = this.pendingUtterances.splice(0);
+    const timer = utterances[utterances.length - 1]?.timer ?? new TurnTimer();
+    // A merged turn is only as reliable as its least clear utterance
+    const confidences = utterances.flatMap((utterance) =>
+      utterance.confidence !== undefined ? [utterance.confidence] : [],
+    );
 
-    try {
-      logger.info({ userMessage, state: this.conversation.getState() }, 'processing user input');
+    const filler = new FillerScheduler({
+      delayMs: config.FILLER_DELAY_MS,
+      onFiller: (tool) => this.startFiller(tool),
+    });
+    filler.start();
 
-      // Add user message to history
-      this.conversationHistory.push({
-        role: 'user',
-        content: userMessage,
+    try {
+      const speech = new SpeechQueue(async (text) => {
+        filler.responseReady();
+        await this.stopFiller();
+        return this.sendResponse(text, timer);
       });
-
-      // Update conversation context based on current state
-      await this.updateContextFromUserInput(userMessage);
-
-      // If we're in TICKET_CREATION state, add collected context to help LLM create ticket
-      if (this.conversation.getState() === ConversationState.TICKET_CREATION) {
-        const context = this.conversation.getContext();
-        const contextSummary = `COLLECTED CUSTOMER INFORMATION:
-Name: ${context.name || 'Not provided'}
-Email: ${context.email || 'Not provided'}
-Phone: ${context.phone || 'Not provided'}
-Address: ${context.address || 'Not provided'}
-Issue: ${context.issue || 'Not provided'}
-Issue Type: ${context.issueType || 'Not classified'}
-Price: $${context.price || 'Not set'}
-
-Please create the ticket using the create_ticket tool with these exact values.`;
-        
-        this.conversationHistory.push({
-          role: 'system',
-          content: contextSummary,
-        });
+      const result = await this.engine.respond(userMessage, {
+        signal: turn.signal,
+        onSentence: (sentence) => speech.enqueue(sentence),
+        onCommit: () => turn.commit(),
+        timer,
+        onToolStart: (name) => filler.toolStarted(name),
+        onToolEnd: () => filler.toolFinished(),
+        confidence: confidences.length > 0 ? Math.min(...confidences) : undefined,
+      });
+      // The caller's first words may have switched the conversation to their language
+      this.prepareFillers();
+
+      if (result.cancelled) {
+        // The utterances are answered by the turn that replaces this one
+        this.pendingUtterances.unshift(...utterances);
+        await this.discardTurn(speech);
+        return;
       }
 
-      // Get LLM response with tools
-      logger.info('calling LLM...');
-      let llmResponse;
-      let usedFallback = false;
-
-      try {
-        llmResponse = await this.providers.llm.complete(this.conversationHistory, {
-          temperature: 0.7,
-          maxTokens: 300,
-          tools: toolDefinitions,
-          toolChoice: 'auto',
-        });
+      // Streamed responses were already queued sentence by sentence
+      if (result.content && !result.streamed) {
         logger.info({ 
-          hasContent: !!llmResponse.content, 
-          contentLength: llmResponse.content?.length,
-          toolCallsCount: llmResponse.toolCalls?.length || 0,
-          tokens: llmResponse.usage.totalTokens 
-        }, 'LLM responded');
-      } catch (error) {
-        // Handle LLM failure with fallback
-        const llmError = error instanceof LLMError ? error : LLMError.fromError(error);
-        logger.error(
-          { errorType: llmError.type, retryable: llmError.retryable, message: llmError.message },
-          'LLM failed, using fallback response',
-        );
-
-        // Get context-appropriate fallback
-        const stateKey = this.getStateKey(this.conversation.getState());
-        const fallbackContent = getFallbackResponse(stateKey);
-        llmResponse = createFallbackResult(fallbackContent);
-        usedFallback = true;
-      }
-
-      // Handle tool calls if any (skip if using fallback)
-      if (!usedFallback && llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
-        for (const toolCall of llmResponse.toolCalls) {
-          const toolResult = await this.toolExecutor.execute(
-            toolCall.function.name,
-            toolCall.function.arguments,
-          );
-          logger.info({ tool: toolCall.function.name, result: toolResult }, 'tool executed');
-
-          // Update context based on tool result
-          await this.handleToolResult(toolCall.function.name, toolResult);
-        }
+          responseText: result.content.substring(0, 100),
+          isFallback: result.usedFallback 
+        }, 'sending TTS response');
+        speech.enqueue(result.content);
       }
 
-      // Add assistant response to history (skip if fallback to avoid polluting context)
-      if (llmResponse.content) {
-        if (!usedFallback) {
-          this.conversationHistory.push({
-            role: 'assistant',
-            content: llmResponse.content,
-          });
-        }
+      const playback = await speech.finish();
+      logger.info({ interrupted: playback.interrupted }, 'TTS response sent');
 
-        // Send TTS response
-        logger.info({ 
-          responseText: llmResponse.content.substring(0, 100),
-          isFallback: usedFallback 
-        }, 'sending TTS response');
-        await this.sendResponse(llmResponse.content);
-        logger.info('TTS response sent');
-      } else {
-        logger.warn('LLM returned no content, nothing to say');
-      }
+      timer.mark('turn_done');
+      const timings = timer.getTimings();
+      observeTurnTimings(timings, 'voice');
+      logger.info({ sessionId: this.engine.getSessionId(), ...timings.stages }, 'turn timings');
 
       // Track usage
       const duration = (Date.now() - startTime) / 1000;
       costTracker.track({
-        sttDuration: duration * 0.3, // Rough estimate
-        llmTokens: llmResponse.usage.totalTokens,
-        ttsDuration: duration * 0.3,
+        sttDuration: utterances.reduce((sum, utterance) => sum + utterance.audioSeconds, 0),
+        llmTokens: result.tokens,
+        ttsDuration: playback.totalMs / 1000,
         timestamp: new Date(),
       });
 
       // Log conversation turn
-      await this.conversationLogger.createLog({
-        sessionId: this.conversation.getContext().sessionId,
-        conversationState: this.conversation.getState(),
+      await this.engine.log({
         userMessage,
-        botResponse: llmResponse.content,
-        toolCalls: llmResponse.toolCalls as never,
+        botResponse: result.content,
+        toolCalls: result.toolCalls as never,
         metadata: {
           duration,
-          tokens: llmResponse.usage.totalTokens,
-          usedFallback,
+          tokens: result.tokens,
+          usedFallback: result.usedFallback,
+          timings,
+          ...(turn.utterances.length > 1 && { mergedUtterances: turn.utterances }),
+          ...(playback.interrupted && {
+            interrupted: true,
+            interruptedAtMs: Math.round(playback.playedMs),
+            responseDurationMs: Math.round(playback.totalMs),
+            spokenTextEstimate: playback.spokenText,
+          }),
         } as never,
       });
     } catch (error) {
       logger.error({ err: error }, 'error processing user input');
-      await this.sendResponse("I'm sorry, I encountered an error. Could you please repeat that?");
+      filler.responseReady();
+      await this.stopFiller();
+      await this.sendResponse(TURN_ERROR_MESSAGES[this.engine.getLocale()]);
     } finally {
-      this.isProcessing = false;
+      // Nothing to say (cancelled or empty response): don't leave the filler talking
+      filler.responseReady();
+      await this.stopFiller();
     }
   }
 
   /**
-   * Map conversation state to fallback response key
+   * Stop speaking a turn cancelled by the restart policy
    */
-  private getStateKey(state: ConversationState): string {
-    const stateMap: Record<ConversationState, string> = {
-      [ConversationState.GREETING]: 'greeting',
-      [ConversationState.COLLECTING_NAME]: 'name_collection',
-      [ConversationState.COLLECTING_EMAIL]: 'email_collection',
-      [ConversationState.COLLECTING_PHONE]: 'phone_collection',
-      [ConversationState.COLLECTING_ADDRESS]: 'address_collection',
-      [ConversationState.COLLECTING_ISSUE]: 'issue_collection',
-      [ConversationState.CONFIRMING_DETAILS]: 'confirmation',
-      [ConversationState.TICKET_CREATION]: 'confirmation',
-      [ConversationState.CONFIRMATION]: 'confirmation',
-      [ConversationState.COMPLETE]: 'default',
-      [ConversationState.ERROR]: 'error',
+  private async discardTurn(speech: SpeechQueue): Promise<void> {
+    speech.cancel();
+    await speech.finish();
+  }
+
+  /**
+   * Restart the silence clock once it is the caller's turn to speak again
+   */
+  private resumeInactivityTimer(): void {
+    if (this.ending || this.turnQueue.isBusy()) {
+      return;
+    }
+    this.reprompt = null;
+    this.inactivity.start(this.engine.getState());
+  }
+
+  /**
+   * Remind a silent caller what the bot is still waiting for
+   */
+  private repromptCaller(state: ConversationState): void {
+    const text = getInactivityReprompt(state, this.engine.getLocale());
+    logger.info(
+      { sessionId: this.engine.getSessionId(), state },
+      'caller silent, reprompting',
+    );
+
+    this.engine.recordBotMessage(text);
+    this.reprompt = this.sendResponse(text);
+  }
+
+  /**
+   * Say goodbye to a caller who stopped responding, end the conversation and leave the room
+   */
+  private async endForInactivity(state: ConversationState): Promise<void> {
+    if (this.ending) return;
+    this.ending = true;
+
+    const sessionId = this.engine.getSessionId();
+    logger.info({ sessionId, state }, 'caller inactive, ending call');
+
+    try {
+      // Don't talk over a reprompt that is still playing
+      const reprompted = this.reprompt !== null;
+      await this.reprompt;
+      const goodbye = INACTIVITY_GOODBYES[this.engine.getLocale()];
+      await this.sendResponse(goodbye);
+      this.engine.end();
+
+      await this.engine.log({
+        botResponse: goodbye,
+        metadata: {
+          outcome: 'inactivity_timeout',
+          lastState: state,
+          reprompted,
+          durationSeconds: this.engine.getDuration(),
+        } as never,
+      });
+    } catch (error) {
+      logger.error({ err: error, sessionId }, 'failed to end inactive call cleanly');
+    } finally {
+      await this.disconnect();
+    }
+  }
+
+  /**
+   * Send an event to the caller's browser (live transcript and progress)
+   * Best effort: a lost event must never disturb the call
+   */
+  private publishEvent(event: AgentEvent): void {
+    const participant = this.room.localParticipant;
+    if (!participant) return;
+
+    participant
+      .publishData(encodeAgentEvent(event, ++this.eventSeq), {
+        reliable: true,
+        topic: AGENT_EVENTS_TOPIC,
+      })
+      .catch((error) => logger.warn({ err: error, type: event.type }, 'failed to publish agent event'));
+  }
+
+  /**
+   * Record merged, restarted and dropped utterances in the conversation log
+   */
+  private logTurnQueueEvent(event: TurnQueueEvent): void {
+    void this.engine
+      .log({
+        userMessage: event.type === 'merged' ? event.text : event.utterance,
+        metadata: { turnQueue: event } as never,
+      })
+      .catch((error) => logger.warn({ err: error }, 'failed to log turn queue event'));
+  }
+
+  /**
+   * Play the pre-synthesized filler for a slow turn, if it is ready
+   */
+  private startFiller(tool: string | null): void {
+    const text = getFillerPrompt(this.engine.getState(), tool, this.engine.getLocale());
+    const pcm = fillerAudio.get(text);
+    if (!pcm || this.isSpeaking || this.filler) {
+      return;
+    }
+
+    logger.info({ sessionId: this.engine.getSessionId(), tool, text }, 'turn is slow, playing filler');
+    let stopped = false;
+    this.filler = {
+      stop: () => {
+        stopped = true;
+      },
+      done: this.playFiller(pcm, () => stopped),
     };
-    return stateMap[state] || 'default';
   }
 
   /**
-   * Update conversation context based on user input and current state
+   * Synthesize the fillers of the conversation's language ahead of time (once per process)
    */
-  private async updateContextFromUserInput(userMessage: string): Promise<void> {
-    const state = this.conversation.getState();
-    const context = this.conversation.getContext();
-
-    switch (state) {
-      case ConversationState.GREETING:
-      case ConversationState.COLLECTING_NAME:
-        // Try to extract name
-        if (!context.name) {
-          const nameValidation = validateName(userMessage);
-          if (nameValidation.isValid) {
-            this.conversation.updateField('name', nameValidation.sanitized);
-            this.conversation.advanceToNextState();
-          }
-        }
-        break;
-
-      case ConversationState.COLLECTING_EMAIL:
-        // Try to extract email
-        const extractedEmail = extractEmail(userMessage);
-        if (extractedEmail) {
-          const emailValidation = validateEmail(extractedEmail);
-          if (emailValidation.isValid) {
-            this.conversation.updateField('email', emailValidation.sanitized);
-            this.conversation.advanceToNextState();
-          }
-        }
-        break;
-
-      case ConversationState.COLLECTING_PHONE:
-        // Try to extract phone
-        const extractedPhone = extractPhone(userMessage);
-        if (extractedPhone) {
-          const phoneValidation = validatePhone(extractedPhone);
-          if (phoneValidation.isValid) {
-            this.conversation.updateField('phone', phoneValidation.sanitized);
-            this.conversation.advanceToNextState();
-          }
-        }
-        break;
-
-      case ConversationState.COLLECTING_ADDRESS:
-        // Validate address
-        const addressValidation = validateAddress(userMessage);
-        if (addressValidation.isValid) {
-          this.conversation.updateField('address', addressValidation.sanitized);
-          this.conversation.advanceToNextState();
-        }
-        break;
-
-      case ConversationState.COLLECTING_ISSUE:
-        // Validate and classify issue
-        const issueValidation = validateIssue(userMessage);
-        if (issueValidation.isValid) {
-          this.conversation.updateField('issue', issueValidation.sanitized);
-          const classification = await this.issueClassifier.classify(userMessage);
-          if (classification.confidence !== 'low') {
-            this.conversation.updateField('issueType', classification.issueType);
-            this.conversation.updateField('price', classification.price);
-            this.conversation.advanceToNextState();
-          }
-        }
-        break;
+  private prepareFillers(): void {
+    void fillerAudio.prepare(
+      this.getTTS(),
+      TTS_FORMAT,
+      this.engine.getLocale(),
+    );
+  }
 
-      case ConversationState.CONFIRMING_DETAILS:
-        // Handle confirmation or correction
-        if (/yes|correct|confirm|that's right/i.test(userMessage)) {
-          this.conversation.advanceToNextState();
-        }
-        break;
+  /**
+   * TTS provider with the voice for the conversation's language, created on first use
+   */
+  private getTTS(): TTSProvider {
+    const locale = this.engine.getLocale();
+    let tts = this.ttsProviders.get(locale);
+    if (!tts) {
+      tts = ProviderFactory.createTTSProvider(locale);
+      this.ttsProviders.set(locale, tts);
     }
+    return tts;
   }
 
   /**
-   * Handle tool execution results
+   * Cut the filler short (if one is playing) and wait until it has faded out
    */
-  private async handleToolResult(toolName: string, result: string): Promise<void> {
-    try {
-      const parsed = JSON.parse(result);
+  private async stopFiller(): Promise<void> {
+    const filler = this.filler;
+    if (!filler) return;
 
-      switch (toolName) {
-        case 'validate_email':
-          if (parsed.isValid) {
-            this.conversation.updateField('email', parsed.email);
-            logger.debug({ email: parsed.email }, 'email validated and stored');
-          }
-          break;
+    filler.stop();
+    await filler.done;
+    this.filler = null;
+  }
 
-        case 'validate_phone':
-          if (parsed.isValid) {
-            this.conversation.updateField('phone', parsed.phone);
-            logger.debug({ phone: parsed.phone }, 'phone validated and stored');
-          }
-          break;
+  private async playFiller(pcm: Buffer, isStopped: () => boolean): Promise<void> {
+    const audioSource = this.audioSource;
+    if (!audioSource) return;
 
-        case 'classify_issue':
-          if (!parsed.needsClarification) {
-            this.conversation.updateField('issueType', parsed.issueType);
-            this.conversation.updateField('price', parsed.price);
-            logger.debug({ issueType: parsed.issueType }, 'issue classified');
-          }
-          break;
-
-        case 'create_ticket':
-          if (parsed.success) {
-            this.conversation.updateField('ticketId', parsed.ticketId);
-            this.conversation.updateField('ticketNumber', parsed.ticketNumber);
-            this.conversation.transitionTo(ConversationState.CONFIRMATION);
-            logger.info({ ticketNumber: parsed.ticketNumber }, 'ticket created successfully');
-          }
-          break;
+    const format = TTS_FORMAT;
+    let capturedMs = 0;
+    this.isSpeaking = true;
+
+    try {
+      for (const frame of this.pcmBufferToAudioFrames(pcm, format.sampleRate, format.channels)) {
+        if (isStopped()) break;
+        await audioSource.captureFrame(frame);
+        capturedMs += (frame.samplesPerChannel * 1000) / frame.sampleRate;
+      }
+
+      if (isStopped()) {
+        // Drop what is still queued and fade out from where the caller is in the phrase
+        const playedMs = Math.max(capturedMs - audioSource.queuedDuration, 0);
+        audioSource.clearQueue();
+        const offset = Math.floor((playedMs * format.sampleRate) / 1000) * 2 * format.channels;
+        const tail = fadeOut(pcm.subarray(offset), format, FILLER_FADE_MS);
+        for (const frame of this.pcmBufferToAudioFrames(tail, format.sampleRate, format.channels)) {
+          await audioSource.captureFrame(frame);
+        }
       }
+
+      await audioSource.waitForPlayout();
     } catch (error) {
-      logger.error({ err: error, toolName }, 'failed to parse tool result');
+      logger.warn({ err: error }, 'failed to play filler');
+    } finally {
+      this.isSpeaking = false;
     }
   }
 
   /**
    * Send TTS response to room via audio track
+   * Playback stops early if the caller barges in (see interruptPlayback)
    */
-  private async sendResponse(text: string): Promise<void> {
+  private async sendResponse(text: string, timer?: TurnTimer): Promise<PlaybackResult> {
+    const playback: PlaybackResult = {
+      interrupted: false,
+      playedMs: 0,
+      totalMs: 0,
+      capturedMs: 0,
+    };
+
     if (!this.audioSource) {
       logger.error('audio source not initialized, cannot send response');
-      return;
+      return playback;
     }
 
     try {
       this.isSpeaking = true;
+      this.currentPlayback = playback;
       logger.debug({ text }, 'synthesizing TTS response');
 
-      const ttsResult = await this.providers.tts.synthesize(text);
+      const startTime = Date.now();
+      timer?.mark('tts_start');
+      // The caller hears the normalized text; transcripts keep the original
+      const tts = this.getTTS();
+      const spoken = normalizeForSpeech(text, { ssml: tts.ssml, locale: this.engine.getLocale() });
+      const stream = await tts.synthesizeStream(spoken);
+      const sampleRate = TTS_FORMAT.sampleRate;
+      const channels = TTS_FORMAT.channels;
+      const converter = new PcmConverter(stream.format, { sampleRate, channels });
+
+      // Chunks are cut into whole 20ms frames; the remainder waits for the next chunk
+      const bytesPerFrame = Math.floor(sampleRate * 0.02) * 2 * channels;
+      let pending = Buffer.alloc(0);
+      let audioSize = 0;
+
+      for await (const chunk of stream.chunks) {
+        if (playback.interrupted) break;
+
+        if (audioSize === 0) {
+          timer?.mark('tts_first_byte');
+          logger.debug(
+            { textLength: text.length, firstAudioMs: Date.now() - startTime },
+            'publishing TTS audio frames',
+          );
+          this.publishEvent({ type: 'bot_response', text });
+        }
+        const audio = converter.push(chunk);
+        audioSize += audio.length;
+        playback.totalMs = (audioSize / (2 * channels) / sampleRate) * 1000;
+
+        pending = Buffer.concat([pending, audio]);
+        const wholeFrames = pending.length - (pending.length % bytesPerFrame);
+        await this.captureAudio(pending.subarray(0, wholeFrames), sampleRate, channels, playback);
+        pending = pending.subarray(wholeFrames);
+        if (playback.capturedMs > 0) {
+          timer?.mark('first_frame');
+        }
+      }
 
-      // Convert PCM buffer to audio frames and push to audio source
-      const sampleRate = (ttsResult.metadata?.sampleRate as number) || TTS_SAMPLE_RATE;
-      const channels = (ttsResult.metadata?.channels as number) || TTS_CHANNELS;
-      const audioFrames = this.pcmBufferToAudioFrames(ttsResult.audio, sampleRate, channels);
+      if (!playback.interrupted) {
+        await this.captureAudio(pending, sampleRate, channels, playback);
+      }
 
       logger.info(
-        { textLength: text.length, audioSize: ttsResult.audio.length, frameCount: audioFrames.length },
-        'publishing TTS audio frames',
+        { textLength: text.length, audioSize, durationMs: Math.round(playback.totalMs) },
+        'TTS audio published',
       );
 
-      // Push each frame to the audio source
-      for (const frame of audioFrames) {
-        await this.audioSource.captureFrame(frame);
-      }
-
       // Wait for all audio to be played before marking as done
+      // (returns immediately once the queue was cleared by a barge-in)
       await this.audioSource.waitForPlayout();
 
-      logger.debug('TTS audio playback complete');
+      if (!playback.interrupted) {
+        playback.playedMs = playback.totalMs;
+      }
+
+      logger.debug({ interrupted: playback.interrupted }, 'TTS audio playback complete');
     } catch (error) {
       logger.error({ err: error }, 'failed to send TTS response');
       // Don't throw - TTS failure shouldn't crash the bot
     } finally {
       this.isSpeaking = false;
+      this.currentPlayback = null;
     }
+
+    return playback;
+  }
+
+  /**
+   * Push PCM audio to the room as 20ms frames
+   * Stops early once the caller has barged in
+   */
+  private async captureAudio(
+    pcm: Buffer,
+    sampleRate: number,
+    channels: number,
+    playback: PlaybackResult,
+  ): Promise<void> {
+    if (!this.audioSource) return;
+
+    for (const frame of this.pcmBufferToAudioFrames(pcm, sampleRate, channels)) {
+      if (playback.interrupted) break;
+      await this.audioSource.captureFrame(frame);
+      playback.capturedMs += (frame.samplesPerChannel * 1000) / frame.sampleRate;
+    }
+  }
+
+  /**
+   * Stop the current TTS playback because the caller started talking
+   */
+  private interruptPlayback(): void {
+    this.filler?.stop();
+
+    const playback = this.currentPlayback;
+    if (!playback || playback.interrupted || !this.audioSource) {
+      return;
+    }
+
+    playback.interrupted = true;
+    playback.playedMs = Math.max(playback.capturedMs - this.audioSource.queuedDuration, 0);
+    this.audioSource.clearQueue();
+
+    logger.info(
+      {
+        sessionId: this.engine.getSessionId(),
+        playedMs: Math.round(playback.playedMs),
+        totalMs: Math.round(playback.totalMs),
+      },
+      'caller barged in, playback interrupted',
+    );
   }
 
   /**
@@ -668,8 +966,16 @@ Please create the ticket using the create_ticket tool with these exact values.`;
   /**
    * Cleanup resources
    */
-  private async cleanup(): Promise<void> {
-    logger.info({ sessionId: this.conversation.getContext().sessionId }, 'cleaning up agent');
+  private cleanup(): Promise<void> {
+    this.cleanupPromise ??= this.releaseResources()
+      .catch((error) => logger.error({ err: error }, 'failed to clean up agent'))
+      .finally(() => this.resolveEnded());
+    return this.cleanupPromise;
+  }
+
+  private async releaseResources(): Promise<void> {
+    logger.info({ sessionId: this.engine.getSessionId() }, 'cleaning up agent');
+    this.inactivity.stop();
 
     // Unpublish audio track
     if (this.audioTrack && this.room.localParticipant) {
@@ -682,7 +988,9 @@ Please create the ticket using the create_ticket tool with these exact values.`;
 
     await this.providers.stt.close();
     await this.providers.llm.close();
-    await this.providers.tts.close();
+    for (const tts of this.ttsProviders.values()) {
+      await tts.close();
+    }
 
     await this.room.disconnect();
   }
@@ -0,0 +1,159 @@
+import { Server } from 'node:http';
+
+import { Request, Response, Router } from 'express';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+
+import { AgentEvent, encodeAgentEvent } from '../shared/agentEvents.js';
+import { logger } from '../utils/logger.js';
+
+import { ChatSession, ChatSessionError, ChatSessions } from './ChatSessions.js';
+
+export const CHAT_WEBSOCKET_PATH = '/chat/ws';
+
+// Typed messages longer than this are rejected rather than sent to the LLM
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Text chat over plain HTTP
+ * POST /chat/sessions ({"language":"es"} optional), POST /chat/sessions/:id/messages,
+ * DELETE /chat/sessions/:id
+ */
+export function createChatRouter(sessions: ChatSessions): Router {
+  const router = Router();
+
+  router.post('/chat/sessions', (req, res) => {
+    try {
+      const session = sessions.create(readLanguage(req.body));
+      res.status(201).json(session.greet());
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post('/chat/sessions/:id/messages', (req, res) => {
+    void sendMessage(sessions, req, res);
+  });
+
+  router.delete('/chat/sessions/:id', (req, res) => {
+    void sessions.end(req.params.id).then((ended) => {
+      res.sendStatus(ended ? 204 : 404);
+    });
+  });
+
+  return router;
+}
+
+async function sendMessage(
+  sessions: ChatSessions,
+  req: Request<{ id: string }>,
+  res: Response,
+): Promise<void> {
+  const text = readText(req.body);
+  if (!text) {
+    res.status(400).json({ error: `text required (at most ${MAX_MESSAGE_LENGTH} characters)` });
+    return;
+  }
+
+  try {
+    const session = sessions.get(req.params.id);
+    res.json(await session.send(text));
+  } catch (error) {
+    sendError(res, error);
+  }
+}
+
+function sendError(res: Response, error: unknown): void {
+  if (error instanceof ChatSessionError) {
+    res.status(error.code === 'not_found' ? 404 : 503).json({ error: error.message });
+    return;
+  }
+
+  logger.error({ err: error }, 'chat request failed');
+  res.status(500).json({ error: 'Failed to process message' });
+}
+
+/**
+ * Text chat over a WebSocket at /chat/ws (/chat/ws?language=es for a Spanish session)
+ * One session per connection; the client sends {"type":"message","text":"..."} and receives
+ * the same agent events the voice frontend gets over the LiveKit data channel
+ */
+export function attachChatWebSocket(server: Server, sessions: ChatSessions): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: CHAT_WEBSOCKET_PATH });
+
+  wss.on('connection', (socket, req) => {
+    let session: ChatSession;
+    try {
+      const url = new URL(req.url ?? '', 'http://localhost');
+      session = sessions.create(url.searchParams.get('language'));
+    } catch (error) {
+      logger.warn({ err: error }, 'rejected chat connection');
+      socket.close(1013, 'Too many chat sessions');
+      return;
+    }
+
+    let seq = 0;
+    const send = (event: AgentEvent) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(new TextDecoder().decode(encodeAgentEvent(event, ++seq)));
+      }
+    };
+    const unsubscribe = session.subscribe(send);
+    session.greet();
+
+    socket.on('message', (data) => {
+      const text = readText(parseMessage(data));
+      if (!text) {
+        logger.debug({ sessionId: session.id }, 'ignored malformed chat message');
+        return;
+      }
+
+      session.send(text).catch((error) => {
+        logger.error({ err: error, sessionId: session.id }, 'chat message failed');
+      });
+    });
+
+    socket.on('close', () => {
+      unsubscribe();
+      void sessions.end(session.id);
+    });
+  });
+
+  return wss;
+}
+
+/**
+ * The optional {language} of a new session's body
+ */
+function readLanguage(body: unknown): unknown {
+  if (typeof body !== 'object' || body === null || !('language' in body)) {
+    return undefined;
+  }
+  return body.language;
+}
+
+function parseMessage(data: RawData): unknown {
+  // The default binaryType delivers each message as a single Buffer
+  if (!Buffer.isBuffer(data)) return null;
+
+  try {
+    const message: unknown = JSON.parse(data.toString('utf8'));
+    if (typeof message === 'object' && message !== null && 'type' in message) {
+      return message.type === 'message' ? message : null;
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+/**
+ * Trimmed text from a {text} body, or null if it's missing or too long
+ */
+function readText(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null || !('text' in body)) {
+    return null;
+  }
+
+  const text = typeof body.text === 'string' ? body.text.trim() : '';
+  return text && text.length <= MAX_MESSAGE_LENGTH ? text : null;
+}
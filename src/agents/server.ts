@@ -1,20 +1,53 @@
 import express from 'express';
-import { AccessToken } from 'livekit-server-sdk';
+import { AccessToken, WebhookReceiver } from 'livekit-server-sdk';
 
 import { loadEnv } from '../config/env.js';
 import { getPrismaClient } from '../data/db.js';
+import { metricsRegistry } from '../services/metrics/metrics.js';
+import { LANGUAGE_ATTRIBUTE, parseLocale } from '../utils/locale.js';
 import { logger } from '../utils/logger.js';
 
+import { AgentWorker } from './AgentWorker.js';
+import { attachChatWebSocket, createChatRouter } from './chatRouter.js';
+import { ChatSessions } from './ChatSessions.js';
+import { warmUpTTSCache } from './ttsWarmUp.js';
+import { createWebhookRouter } from './webhookRouter.js';
+
 const config = loadEnv();
 const app = express();
 
+// With webhook dispatch, this server runs the agents instead of the polling agent service
+const worker =
+  config.AGENT_DISPATCH === 'webhook'
+    ? new AgentWorker({
+        maxConcurrency: config.AGENT_MAX_SESSIONS,
+        agentIdentity: config.AGENT_IDENTITY,
+      })
+    : undefined;
+
+const chatSessions = new ChatSessions({
+  maxSessions: config.CHAT_MAX_SESSIONS,
+  idleTimeoutMs: config.CHAT_SESSION_IDLE_MS,
+  locale: config.LOCALE,
+});
+
+// Mounted before the JSON parser, which would consume the signed body
+app.use(
+  createWebhookRouter({
+    receiver: new WebhookReceiver(config.LIVEKIT_API_KEY, config.LIVEKIT_API_SECRET),
+    worker,
+    agentIdentity: config.AGENT_IDENTITY,
+    roomPrefix: config.AGENT_ROOM_PREFIX,
+  }),
+);
+
 app.use(express.json());
 app.use((req, res, next) => {
   // Log all requests
   logger.info({ method: req.method, path: req.path, body: req.body }, 'incoming request');
 
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type,Authorization');
 
   if (req.method === 'OPTIONS') {
@@ -56,7 +89,7 @@ app.get('/health', async (req, res) => {
  * Note: Agent dispatch is now handled by LiveKit Cloud or separate agent service
  */
 app.post('/token', async (req, res) => {
-  const { participantName, roomName: clientRoomName } = req.body;
+  const { participantName, roomName: clientRoomName, language } = req.body;
 
   if (!participantName) {
     return res.status(400).json({ error: 'participantName required' });
@@ -68,11 +101,15 @@ app.post('/token', async (req, res) => {
     // Use client-provided roomName or generate one
     const roomName = clientRoomName || `helpdesk_room_${Math.floor(Math.random() * 10_000)}`;
 
+    // The agent holds the conversation in the language the caller chose, if it is supported
+    const locale = parseLocale(language);
+
     // Create access token
     const at = new AccessToken(config.LIVEKIT_API_KEY, config.LIVEKIT_API_SECRET, {
       identity: participantIdentity,
       name: participantName,
       ttl: '15m',
+      ...(locale && { attributes: { [LANGUAGE_ATTRIBUTE]: locale } }),
     });
 
     at.addGrant({
@@ -99,23 +136,53 @@ app.post('/token', async (req, res) => {
 });
 
 /**
- * Webhook endpoint for LiveKit events
+ * Agent sessions dispatched from webhooks
+ */
+app.get('/sessions', (req, res) => {
+  if (!worker) {
+    return res.status(404).json({ error: 'Webhook dispatch is disabled' });
+  }
+
+  res.json({ ...worker.getCapacity(), sessions: worker.getSessions() });
+});
+
+/**
+ * Prometheus metrics (turn stage latencies, tool durations, process stats)
+ * Covers agents running in this process, i.e. with AGENT_DISPATCH=webhook and text chat
  */
-app.post('/webhook/livekit', (req, res) => {
-  logger.info({ event: req.body }, 'livekit webhook received');
-  // Handle LiveKit events (participant joined, left, etc.)
-  res.sendStatus(200);
+app.get('/metrics', async (req, res) => {
+  try {
+    res.setHeader('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error({ err: error }, 'failed to collect metrics');
+    res.status(500).end();
+  }
 });
 
+/**
+ * Text chat with the same conversation flow as voice calls
+ */
+app.use(createChatRouter(chatSessions));
+
 /**
  * Start agent server
  */
 export async function startAgentServer(): Promise<void> {
   const port = config.PORT;
 
-  app.listen(port, () => {
+  const server = app.listen(port, () => {
     logger.info({ port, env: config.NODE_ENV }, 'agent server started');
     logger.info(`Health check: http://localhost:${port}/health`);
     logger.info(`Token endpoint: http://localhost:${port}/token`);
+    logger.info({ dispatch: config.AGENT_DISPATCH }, 'LiveKit webhook: /webhook/livekit');
+    logger.info(`Chat: http://localhost:${port}/chat/sessions, ws://localhost:${port}/chat/ws`);
   });
+
+  attachChatWebSocket(server, chatSessions);
+
+  // Only this server's voice agents speak; chat has no audio
+  if (worker) {
+    void warmUpTTSCache();
+  }
 }
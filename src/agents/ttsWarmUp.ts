@@ -0,0 +1,53 @@
+import { CLARIFICATION_QUESTIONS } from '../domain/issue/IssueClassifier.js';
+import { getAllFillerPrompts } from '../services/prompts/fillerPrompts.js';
+import {
+  INACTIVITY_GOODBYES,
+  INACTIVITY_REPROMPTS,
+} from '../services/prompts/inactivityPrompts.js';
+import { CachingTTSProvider } from '../services/providers/CachingTTSProvider.js';
+import { FALLBACK_RESPONSES } from '../services/providers/LLMErrorHandler.js';
+import { ProviderFactory } from '../services/providers/ProviderFactory.js';
+import { normalizeForSpeech } from '../services/speech/speechNormalizer.js';
+import { Locale, LOCALES } from '../utils/locale.js';
+import { logger } from '../utils/logger.js';
+
+import { GREETINGS } from './ConversationEngine.js';
+
+/**
+ * Phrases the agent speaks word for word, on many calls
+ */
+export const getFixedPhrases = (locale: Locale): readonly string[] => [
+  GREETINGS[locale],
+  CLARIFICATION_QUESTIONS[locale],
+  ...Object.values(FALLBACK_RESPONSES[locale]),
+  ...getAllFillerPrompts(locale),
+  ...Object.values(INACTIVITY_REPROMPTS[locale]).filter(Boolean),
+  INACTIVITY_GOODBYES[locale],
+];
+
+/**
+ * Pre-render the fixed phrases of every language into the TTS cache at startup (nothing to do
+ * when it is off), each with the language's voice
+ * Failures only mean those phrases are synthesized on first use instead
+ */
+export async function warmUpTTSCache(): Promise<void> {
+  for (const locale of LOCALES) {
+    try {
+      const tts = ProviderFactory.createTTSProvider(locale);
+      try {
+        if (tts instanceof CachingTTSProvider) {
+          // Keyed the way VoiceAgent will ask for them
+          await tts.warmUp(
+            getFixedPhrases(locale).map((text) =>
+              normalizeForSpeech(text, { ssml: tts.ssml, locale }),
+            ),
+          );
+        }
+      } finally {
+        await tts.close();
+      }
+    } catch (error) {
+      logger.warn({ err: error, locale }, 'failed to warm up tts cache');
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import express, { Request, Response, Router } from 'express';
+import { WebhookEvent, WebhookReceiver } from 'livekit-server-sdk';
+
+import { logger } from '../utils/logger.js';
+
+import { AgentWorker, AgentWorkerError } from './AgentWorker.js';
+
+export interface WebhookRouterOptions {
+  receiver: Pick<WebhookReceiver, 'receive'>;
+  // Without a worker, events are verified and logged but nothing is dispatched
+  worker?: Pick<AgentWorker, 'startSession' | 'stopSession'>;
+  agentIdentity: string;
+  // Only rooms whose name starts with this are handled ('' = all rooms)
+  roomPrefix: string;
+}
+
+/**
+ * POST /webhook/livekit
+ * Verifies the signed LiveKit webhook and turns room/participant events into agent dispatch
+ */
+export function createWebhookRouter(options: WebhookRouterOptions): Router {
+  const router = Router();
+
+  // The signature covers the exact bytes LiveKit sent, so the body must stay raw
+  router.post('/webhook/livekit', express.raw({ type: '*/*' }), (req, res) => {
+    void receiveWebhook(options, req, res);
+  });
+
+  return router;
+}
+
+async function receiveWebhook(
+  options: WebhookRouterOptions,
+  req: Request,
+  res: Response,
+): Promise<void> {
+  const body = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+
+  let event: WebhookEvent;
+  try {
+    event = await options.receiver.receive(body, req.get('Authorization'));
+  } catch (error) {
+    logger.warn({ err: error, ip: req.ip }, 'rejected livekit webhook');
+    res.status(401).json({ error: 'Invalid webhook signature' });
+    return;
+  }
+
+  try {
+    await handleEvent(options, event);
+  } catch (error) {
+    // Acknowledge anyway: a LiveKit retry would hit the same failure
+    logger.error(
+      { err: error, event: event.event, id: event.id },
+      'failed to handle livekit webhook',
+    );
+  }
+
+  res.sendStatus(200);
+}
+
+async function handleEvent(options: WebhookRouterOptions, event: WebhookEvent): Promise<void> {
+  const roomName = event.room?.name;
+  const identity = event.participant?.identity;
+
+  logger.info({ event: event.event, id: event.id, roomName, identity }, 'livekit webhook received');
+
+  if (!roomName || !roomName.startsWith(options.roomPrefix) || !options.worker) {
+    return;
+  }
+
+  const isCaller = identity !== undefined && identity !== options.agentIdentity;
+
+  switch (event.event) {
+    case 'room_started':
+      // The agent joins once a caller is actually in the room
+      break;
+
+    case 'participant_joined':
+      if (isCaller) {
+        await dispatch(options.worker, roomName);
+      }
+      break;
+
+    case 'participant_left':
+      if (isCaller) {
+        await options.worker.stopSession(roomName);
+      }
+      break;
+
+    case 'room_finished':
+      await options.worker.stopSession(roomName);
+      break;
+
+    default:
+      break;
+  }
+}
+
+async function dispatch(
+  worker: NonNullable<WebhookRouterOptions['worker']>,
+  roomName: string,
+): Promise<void> {
+  try {
+    await worker.startSession(roomName);
+  } catch (error) {
+    if (!(error instanceof AgentWorkerError)) throw error;
+    logger.warn({ roomName, code: error.code }, 'room not dispatched');
+  }
+}
@@ -1,8 +1,32 @@
 import dotenv from 'dotenv';
 import { z } from 'zod';
 
+import { ConversationState } from '../domain/conversation/state.js';
+import { LOCALES } from '../utils/locale.js';
+
 dotenv.config();
 
+// Keys are conversation states; a misspelled one is rejected rather than silently ignored
+const inactivityOverridesSchema = z.record(
+  z.nativeEnum(ConversationState),
+  z.object({
+    repromptAfterMs: z.number().int().nonnegative().optional(),
+    hangupAfterMs: z.number().int().nonnegative().optional(),
+  }),
+);
+
+const confidenceThresholdsSchema = z.object({
+  name: z.number().min(0).max(1).default(0.75),
+  email: z.number().min(0).max(1).default(0.85),
+  phone: z.number().min(0).max(1).default(0.85),
+  address: z.number().min(0).max(1).default(0.75),
+});
+
+const localeVoicesSchema = z.object({
+  en: z.string().min(1).optional(),
+  es: z.string().min(1).optional(),
+});
+
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
   PORT: z.coerce.number().default(3000),
@@ -15,6 +39,13 @@ const envSchema = z.object({
   STT_PROVIDER: z.enum(['deepgram', 'openai', 'whispercpp']).default('deepgram'),
   STT_MODEL: z.string().default('nova-2'),
   DEEPGRAM_API_KEY: z.string().optional(),
+  // OpenAI Whisper API, or an OpenAI-compatible transcription server (optional)
+  OPENAI_STT_MODEL: z.string().default('whisper-1'),
+  OPENAI_STT_BASE_URL: z.string().optional(),
+  // Used when the caller's language isn't known yet; Whisper detects it otherwise
+  OPENAI_STT_LANGUAGE: z.string().optional(),
+  // Spellings to prefer, e.g. "VPN, Outlook, acme.com"
+  OPENAI_STT_PROMPT: z.string().optional(),
   // Whisper local fallback (optional)
   WHISPER_BASE_URL: z.string().default('http://whispercpp:9000'),
   WHISPER_API_STYLE: z.enum(['whispercpp', 'openai', 'onerahmet']).default('openai'),
@@ -24,6 +55,8 @@ const envSchema = z.object({
   LLM_MODEL: z.string().default('claude-3-5-sonnet-20241022'),
   ANTHROPIC_API_KEY: z.string().optional(),
   OPENAI_API_KEY: z.string().optional(),
+  // OpenAI-compatible chat server for LLM_PROVIDER=openai (vLLM, LM Studio, llama.cpp)
+  OPENAI_LLM_BASE_URL: z.string().optional(),
   // Ollama local fallback (optional)
   OLLAMA_BASE_URL: z.string().default('http://ollama:11434'),
   OLLAMA_MODEL: z.string().default('llama3.1'),
@@ -39,6 +72,83 @@ const envSchema = z.object({
   PIPER_BASE_URL: z.string().default('http://piper:5002'),
   PIPER_VOICE: z.string().default('en_US-lessac'),
   PIPER_AUDIO_FORMAT: z.enum(['wav', 'mp3']).default('wav'),
+  // Voice per conversation language, e.g. {"es":"es_MX-claude-high"}
+  // Unset languages use the voice above (Piper: a built-in voice for the language)
+  TTS_LOCALE_VOICES: z
+    .string()
+    .default('{}')
+    .transform((value, ctx) => {
+      try {
+        return localeVoicesSchema.parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'TTS_LOCALE_VOICES must be a JSON object of voices per language',
+        });
+        return z.NEVER;
+      }
+    }),
+  TTS_CACHE_DIR: z.string().default('.cache/tts'),
+  TTS_CACHE_MAX_MB: z.coerce.number().nonnegative().default(100), // 0 = no cache
+  // Voice activity detection (endpointing of caller speech)
+  VAD_MODE: z.enum(['adaptive', 'energy']).default('adaptive'),
+  VAD_ENERGY_THRESHOLD: z.coerce.number().positive().default(50), // energy mode only
+  VAD_CALIBRATION_MS: z.coerce.number().int().nonnegative().default(1000),
+  VAD_START_RATIO: z.coerce.number().min(1).default(3),
+  VAD_STOP_RATIO: z.coerce.number().min(1).default(1.8),
+  VAD_MIN_ENERGY: z.coerce.number().nonnegative().default(30),
+  VAD_MIN_SPEECH_MS: z.coerce.number().int().positive().default(60),
+  VAD_HANGOVER_MS: z.coerce.number().int().positive().default(400),
+  // Caller speech that arrives while a turn is still being processed
+  TURN_POLICY: z.enum(['merge', 'restart']).default('merge'),
+  TURN_MAX_PENDING: z.coerce.number().int().positive().default(3),
+  // Caller silence: reprompt, then say goodbye and hang up (0 = never)
+  INACTIVITY_REPROMPT_MS: z.coerce.number().int().nonnegative().default(12000),
+  INACTIVITY_HANGUP_MS: z.coerce.number().int().nonnegative().default(30000),
+  // Per-state overrides, e.g. {"COLLECTING_ISSUE":{"repromptAfterMs":20000,"hangupAfterMs":60000}}
+  INACTIVITY_STATE_TIMEOUTS: z
+    .string()
+    .default('{}')
+    .transform((value, ctx) => {
+      try {
+        return inactivityOverridesSchema.parse(JSON.parse(value));
+      } catch (error) {
+        const detail = error instanceof z.ZodError ? `: ${error.issues[0]?.message}` : '';
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `INACTIVITY_STATE_TIMEOUTS must be a JSON object of per-state timeouts${detail}`,
+        });
+        return z.NEVER;
+      }
+    }),
+  // Read back a detail heard below its STT confidence and ask the caller to confirm it (0 = never)
+  // e.g. {"email":0.9,"address":0}
+  CONFIDENCE_THRESHOLDS: z
+    .string()
+    .default('{}')
+    .transform((value, ctx) => {
+      try {
+        return confidenceThresholdsSchema.parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'CONFIDENCE_THRESHOLDS must be a JSON object of per-field confidences (0-1)',
+        });
+        return z.NEVER;
+      }
+    }),
+  // Conversation language when the client sends none; auto = detect it from the caller's first words
+  LOCALE: z.enum(['auto', ...LOCALES]).default('en'),
+  // Agent worker (one VoiceAgent per LiveKit room)
+  AGENT_IDENTITY: z.string().default('voice_agent_bot'),
+  AGENT_MAX_SESSIONS: z.coerce.number().int().positive().default(10),
+  AGENT_ROOM_PREFIX: z.string().default(''), // '' = join any room with a caller
+  AGENT_DISPATCH: z.enum(['poll', 'webhook']).default('poll'),
+  AGENT_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(5000),
+  AGENT_STATUS_PORT: z.coerce.number().default(3002),
+  FILLER_DELAY_MS: z.coerce.number().int().nonnegative().default(1500), // 0 = no fillers
+  CHAT_MAX_SESSIONS: z.coerce.number().int().positive().default(100),
+  CHAT_SESSION_IDLE_MS: z.coerce.number().int().positive().default(900000),
   COST_TRACKING_ENABLED: z.coerce.boolean().default(true),
   USAGE_LIMITS_ENABLED: z.coerce.boolean().default(true),
 });
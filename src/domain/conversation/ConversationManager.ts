@@ -1,6 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
 
 import { logger } from '../../utils/logger.js';
+import { SpelledField } from '../../utils/spelling.js';
+
 import {
   ConversationContext,
   ConversationState,
@@ -8,6 +10,9 @@ import {
   getNextState,
   isDataComplete,
   isValidTransition,
+  PendingConfirmation,
+  SlotField,
+  SpellingState,
 } from './state.js';
 
 /**
@@ -103,6 +108,19 @@ export class ConversationManager {
     );
   }
 
+  /**
+   * Store a caller detail with the confidence of the transcript it came from
+   */
+  setField(field: SlotField, value: string, confidence?: number): void {
+    const fieldConfidence = { ...this.context.fieldConfidence };
+    if (confidence === undefined) {
+      delete fieldConfidence[field];
+    } else {
+      fieldConfidence[field] = confidence;
+    }
+    this.updateFields({ [field]: value, fieldConfidence });
+  }
+
   /**
    * Check if all required data is collected
    */
@@ -135,6 +153,85 @@ export class ConversationManager {
     this.context.retryCount = 0;
   }
 
+  /**
+   * Switch to spelling mode for a field the caller could not get across by saying it
+   */
+  startSpelling(field: SpelledField): void {
+    this.context.spelling = { field, attempts: 0 };
+    this.resetRetry();
+    logger.info({ sessionId: this.context.sessionId, field }, 'spelling mode started');
+  }
+
+  /**
+   * Current spelling, if the caller is spelling a field
+   */
+  getSpelling(): Readonly<SpellingState> | undefined {
+    return this.context.spelling ? { ...this.context.spelling } : undefined;
+  }
+
+  /**
+   * A spelling was understood; it waits for the caller to confirm the read-back
+   */
+  spellingHeard(value: string): void {
+    if (!this.context.spelling) return;
+    this.context.spelling.value = value;
+  }
+
+  /**
+   * A spelling was not understood or the read-back was rejected
+   */
+  spellingMissed(): void {
+    if (!this.context.spelling) return;
+    this.context.spelling.value = undefined;
+    this.context.spelling.attempts++;
+    logger.debug(
+      { sessionId: this.context.sessionId, attempts: this.context.spelling.attempts },
+      'spelling not understood',
+    );
+  }
+
+  /**
+   * Leave spelling mode; returns the spelling it was in
+   */
+  endSpelling(): SpellingState | undefined {
+    const spelling = this.context.spelling;
+    this.context.spelling = undefined;
+    if (spelling) {
+      logger.info(
+        { sessionId: this.context.sessionId, field: spelling.field, confirmed: !!spelling.value },
+        'spelling mode ended',
+      );
+    }
+    return spelling;
+  }
+
+  /**
+   * Hold a detail from a low-confidence transcript until the caller confirms the read-back
+   */
+  awaitConfirmation(field: SlotField, value: string, confidence: number): void {
+    this.context.pendingConfirmation = { field, value, confidence };
+    logger.info(
+      { sessionId: this.context.sessionId, field, confidence },
+      'low-confidence value awaiting confirmation',
+    );
+  }
+
+  /**
+   * Detail waiting for the caller to confirm it, if any
+   */
+  getPendingConfirmation(): Readonly<PendingConfirmation> | undefined {
+    return this.context.pendingConfirmation ? { ...this.context.pendingConfirmation } : undefined;
+  }
+
+  /**
+   * Stop waiting for a confirmation; returns the detail that was waiting
+   */
+  endConfirmation(): PendingConfirmation | undefined {
+    const pending = this.context.pendingConfirmation;
+    this.context.pendingConfirmation = undefined;
+    return pending;
+  }
+
   /**
    * Set error and transition to error recovery
    */
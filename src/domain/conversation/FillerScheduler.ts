@@ -0,0 +1,51 @@
+export interface FillerSchedulerOptions {
+  // Silence after the caller finished before a filler is played (0 = never)
+  delayMs: number;
+  // Play a filler; tool is the one running at that moment, if any
+  onFiller: (tool: string | null) => void;
+}
+
+/**
+ * Decides when a turn has been silent long enough to need a filler
+ * At most one filler per turn, and none once the real response has started
+ */
+export class FillerScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private runningTool: string | null = null;
+  private settled = false;
+
+  constructor(private readonly options: FillerSchedulerOptions) {}
+
+  /**
+   * Start waiting, right when the turn starts
+   */
+  start(): void {
+    if (this.options.delayMs <= 0 || this.settled || this.timer) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.settled = true;
+      this.options.onFiller(this.runningTool);
+    }, this.options.delayMs);
+    this.timer.unref?.();
+  }
+
+  toolStarted(name: string): void {
+    this.runningTool = name;
+  }
+
+  toolFinished(): void {
+    this.runningTool = null;
+  }
+
+  /**
+   * The real response is about to play (or the turn is over): no filler from here on
+   */
+  responseReady(): void {
+    this.settled = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { ConversationState } from './state.js';
+
+export interface InactivityTimeouts {
+  // Silence before the caller is reminded what we're waiting for (0 = never)
+  repromptAfterMs: number;
+  // Silence before the bot says goodbye and hangs up (0 = never)
+  hangupAfterMs: number;
+}
+
+export type InactivityOverrides = Partial<Record<ConversationState, Partial<InactivityTimeouts>>>;
+
+export interface InactivityMonitorOptions {
+  defaults: InactivityTimeouts;
+  overrides?: InactivityOverrides;
+  onReprompt: (state: ConversationState) => void;
+  onTimeout: (state: ConversationState) => void;
+}
+
+/**
+ * States where silence is expected: the bot is busy creating the ticket, or the call is over
+ */
+const UNTIMED_STATES = new Set([ConversationState.TICKET_CREATION, ConversationState.ENDED]);
+
+/**
+ * Silence timers for one call
+ * The clock runs only while it's the caller's turn to speak: start() when the bot is done
+ * talking, stop() as soon as the caller speaks again
+ */
+export class InactivityMonitor {
+  private timers: Array<ReturnType<typeof setTimeout>> = [];
+
+  constructor(private readonly options: InactivityMonitorOptions) {}
+
+  /**
+   * Timeouts for a state, or null if silence never times out there
+   */
+  getTimeouts(state: ConversationState): InactivityTimeouts | null {
+    if (UNTIMED_STATES.has(state)) {
+      return null;
+    }
+    return { ...this.options.defaults, ...this.options.overrides?.[state] };
+  }
+
+  /**
+   * (Re)start the silence clock for the current state
+   */
+  start(state: ConversationState): void {
+    this.stop();
+
+    const timeouts = this.getTimeouts(state);
+    if (!timeouts) return;
+
+    const { repromptAfterMs, hangupAfterMs } = timeouts;
+
+    // A reprompt right before (or after) hanging up would only be cut off
+    if (repromptAfterMs > 0 && (hangupAfterMs === 0 || repromptAfterMs < hangupAfterMs)) {
+      this.schedule(repromptAfterMs, () => this.options.onReprompt(state));
+    }
+
+    if (hangupAfterMs > 0) {
+      this.schedule(hangupAfterMs, () => {
+        this.stop();
+        this.options.onTimeout(state);
+      });
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers = [];
+  }
+
+  isRunning(): boolean {
+    return this.timers.length > 0;
+  }
+
+  private schedule(delayMs: number, callback: () => void): void {
+    const timer = setTimeout(callback, delayMs);
+    // A pending reprompt shouldn't keep the process alive on shutdown
+    timer.unref?.();
+    this.timers.push(timer);
+  }
+}
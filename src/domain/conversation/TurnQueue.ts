@@ -0,0 +1,143 @@
+import { logger } from '../../utils/logger.js';
+
+/**
+ * What happens to an utterance that arrives while a turn is in flight
+ * - merge: hold it and answer it (with anything else that arrives) in the next turn
+ * - restart: cancel the in-flight LLM call and start over with the combined text
+ */
+export type TurnPolicy = 'merge' | 'restart';
+
+export interface Turn {
+  // Combined text of all utterances in this turn
+  text: string;
+  utterances: string[];
+  // Aborted when the restart policy cancels this turn
+  signal: AbortSignal;
+  // Marks the point of no return (e.g. tools are about to run); the turn is no longer restarted
+  commit(): void;
+}
+
+export type TurnQueueEvent =
+  | { type: 'merged'; text: string; utterances: string[] }
+  | { type: 'restarted'; cancelledText: string; utterance: string }
+  | { type: 'dropped'; utterance: string; reason: 'queue_full' };
+
+export interface TurnQueueOptions {
+  policy: TurnPolicy;
+  // Utterances held while a turn is in flight; the oldest is dropped beyond this
+  maxPending: number;
+  onEvent?: (event: TurnQueueEvent) => void;
+  // Called when the last turn has been handled and nothing is waiting
+  onIdle?: () => void;
+}
+
+interface InFlightTurn {
+  turn: Turn;
+  controller: AbortController;
+  committed: boolean;
+  done: Promise<void>;
+}
+
+/**
+ * Per-session queue that serializes caller turns
+ * Utterances are never dropped silently: merges, restarts and drops are reported via onEvent
+ */
+export class TurnQueue {
+  private pending: string[] = [];
+  private current: InFlightTurn | null = null;
+
+  constructor(
+    private readonly handler: (turn: Turn) => Promise<void>,
+    private readonly options: TurnQueueOptions,
+  ) {}
+
+  /**
+   * Add a transcribed utterance, starting a turn right away if none is in flight
+   */
+  enqueue(utterance: string): void {
+    const current = this.current;
+
+    if (!current) {
+      this.start([utterance]);
+      return;
+    }
+
+    if (
+      this.options.policy === 'restart' &&
+      !current.committed &&
+      !current.controller.signal.aborted
+    ) {
+      current.controller.abort();
+      // The cancelled turn is answered again, together with the new utterance
+      this.pending = [...current.turn.utterances, ...this.pending];
+      this.emit({ type: 'restarted', cancelledText: current.turn.text, utterance });
+    }
+
+    this.pending.push(utterance);
+
+    while (this.pending.length > this.options.maxPending) {
+      const dropped = this.pending.shift()!;
+      this.emit({ type: 'dropped', utterance: dropped, reason: 'queue_full' });
+    }
+  }
+
+  isBusy(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Resolve once every queued utterance has been handled
+   */
+  async drain(): Promise<void> {
+    while (this.current) {
+      await this.current.done;
+    }
+  }
+
+  private start(utterances: string[]): void {
+    const controller = new AbortController();
+    const text = utterances.join(' ');
+
+    const entry: InFlightTurn = {
+      controller,
+      committed: false,
+      done: Promise.resolve(),
+      turn: {
+        text,
+        utterances,
+        signal: controller.signal,
+        commit: () => {
+          entry.committed = true;
+        },
+      },
+    };
+
+    if (utterances.length > 1) {
+      this.emit({ type: 'merged', text, utterances });
+    }
+
+    this.current = entry;
+    entry.done = this.handler(entry.turn)
+      .catch((error) => logger.error({ err: error }, 'turn handler failed'))
+      .finally(() => {
+        this.current = null;
+        this.startNext();
+      });
+  }
+
+  private startNext(): void {
+    if (this.pending.length === 0) {
+      this.options.onIdle?.();
+      return;
+    }
+
+    const utterances = this.pending;
+    this.pending = [];
+    this.start(utterances);
+  }
+
+  private emit(event: TurnQueueEvent): void {
+    logger.info(event, 'turn queue event');
+    this.options.onEvent?.(event);
+  }
+}
@@ -1,3 +1,5 @@
+import { SpelledField } from '../../utils/spelling.js';
+
 /**
  * Conversation state machine for IT help desk bot
  * Explicit states to avoid relying purely on LLM for flow control
@@ -17,6 +19,31 @@ export enum ConversationState {
   ENDED = 'ENDED',
 }
 
+/**
+ * Spelling sub-mode: the caller spells a field letter by letter, then confirms the read-back
+ */
+export interface SpellingState {
+  field: SpelledField;
+  // Assembled from the last spelling, waiting for the caller to confirm it
+  value?: string;
+  // Spellings that could not be understood (or were rejected by the caller)
+  attempts: number;
+}
+
+/**
+ * Caller details the bot collects from what the caller says
+ */
+export type SlotField = 'name' | 'email' | 'phone' | 'address';
+
+/**
+ * A value taken from a low-confidence transcript, read back and waiting for the caller to confirm it
+ */
+export interface PendingConfirmation {
+  field: SlotField;
+  value: string;
+  confidence: number;
+}
+
 export interface ConversationContext {
   state: ConversationState;
   sessionId: string;
@@ -29,7 +56,11 @@ export interface ConversationContext {
   price?: number;
   ticketId?: string;
   ticketNumber?: string;
+  // STT confidence of the transcript each detail was taken from (voice only)
+  fieldConfidence?: Partial<Record<SlotField, number>>;
   retryCount: number;
+  spelling?: SpellingState;
+  pendingConfirmation?: PendingConfirmation;
   lastError?: string;
   metadata: {
     startedAt: Date;
@@ -46,31 +77,37 @@ export const validTransitions: Record<ConversationState, ConversationState[]> =
     ConversationState.COLLECTING_NAME,
     ConversationState.COLLECTING_EMAIL, // Allow jumping if user provides info upfront
     ConversationState.ERROR_RECOVERY,
+    ConversationState.ENDED, // Any state can end (caller hung up or went silent)
   ],
   [ConversationState.COLLECTING_NAME]: [
     ConversationState.COLLECTING_EMAIL,
     ConversationState.ERROR_RECOVERY,
     ConversationState.GREETING, // Allow going back
+    ConversationState.ENDED,
   ],
   [ConversationState.COLLECTING_EMAIL]: [
     ConversationState.COLLECTING_PHONE,
     ConversationState.ERROR_RECOVERY,
     ConversationState.COLLECTING_NAME, // Allow going back
+    ConversationState.ENDED,
   ],
   [ConversationState.COLLECTING_PHONE]: [
     ConversationState.COLLECTING_ADDRESS,
     ConversationState.ERROR_RECOVERY,
     ConversationState.COLLECTING_EMAIL, // Allow going back
+    ConversationState.ENDED,
   ],
   [ConversationState.COLLECTING_ADDRESS]: [
     ConversationState.COLLECTING_ISSUE,
     ConversationState.ERROR_RECOVERY,
     ConversationState.COLLECTING_PHONE, // Allow going back
+    ConversationState.ENDED,
   ],
   [ConversationState.COLLECTING_ISSUE]: [
     ConversationState.CONFIRMING_DETAILS,
     ConversationState.ERROR_RECOVERY,
     ConversationState.COLLECTING_ADDRESS, // Allow going back
+    ConversationState.ENDED,
   ],
   [ConversationState.CONFIRMING_DETAILS]: [
     ConversationState.TICKET_CREATION,
@@ -80,10 +117,12 @@ export const validTransitions: Record<ConversationState, ConversationState[]> =
     ConversationState.COLLECTING_ADDRESS,
     ConversationState.COLLECTING_ISSUE,
     ConversationState.ERROR_RECOVERY,
+    ConversationState.ENDED,
   ],
   [ConversationState.TICKET_CREATION]: [
     ConversationState.CONFIRMATION,
     ConversationState.ERROR_RECOVERY,
+    ConversationState.ENDED,
   ],
   [ConversationState.CONFIRMATION]: [ConversationState.ENDED],
   [ConversationState.ERROR_RECOVERY]: [
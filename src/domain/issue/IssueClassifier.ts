@@ -1,4 +1,5 @@
 import { ServiceCatalogRepository } from '../../data/repositories/ServiceCatalogRepository.js';
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
 import { logger } from '../../utils/logger.js';
 
 export interface ClassificationResult {
@@ -10,6 +11,26 @@ export interface ClassificationResult {
   matchedKeywords?: string[];
 }
 
+/**
+ * Asked when the issue matches none (or several) of the services
+ */
+export const CLARIFICATION_QUESTIONS: Record<Locale, string> = {
+  en: `I'm not quite sure I understood the issue. Is this about:
+1. Wi-Fi or internet connection problems ($20)
+2. Email login or password issues ($15)
+3. Slow laptop or computer performance ($25)
+4. Printer problems ($10)
+
+Please tell me which one, or describe your issue in more detail.`,
+  es: `No estoy seguro de haber entendido el problema. ¿Se trata de:
+1. Problemas de Wi-Fi o conexión a internet ($20)
+2. Problemas para iniciar sesión en el correo o con la contraseña ($15)
+3. Laptop o computadora lenta ($25)
+4. Problemas con la impresora ($10)
+
+Dígame cuál, o describa su problema con más detalle.`,
+};
+
 /**
  * Hybrid issue classifier
  * Priority: Keyword matching → Semantic similarity → LLM fallback
@@ -122,14 +143,8 @@ export class IssueClassifier {
   /**
    * Generate clarification question when classification is uncertain
    */
-  generateClarificationQuestion(issueDescription: string): string {
-    return `I'm not quite sure I understood the issue. Is this about:
-1. Wi-Fi or internet connection problems ($20)
-2. Email login or password issues ($15)
-3. Slow laptop or computer performance ($25)
-4. Printer problems ($10)
-
-Please tell me which one, or describe your issue in more detail.`;
+  generateClarificationQuestion(issueDescription: string, locale: Locale = DEFAULT_LOCALE): string {
+    return CLARIFICATION_QUESTIONS[locale];
   }
 
   /**
@@ -138,17 +153,25 @@ Please tell me which one, or describe your issue in more detail.`;
   extractDirectSelection(text: string): string | null {
     const normalized = text.toLowerCase().trim();
 
-    // Check for number selection
-    if (/\b(1|one|first)\b/.test(normalized)) return 'wifi_not_working';
-    if (/\b(2|two|second)\b/.test(normalized)) return 'email_login_issues';
-    if (/\b(3|three|third)\b/.test(normalized)) return 'slow_laptop_performance';
-    if (/\b(4|four|fourth)\b/.test(normalized)) return 'printer_problems';
-
-    // Check for direct mentions
-    if (/wifi|wi-fi|internet|network/.test(normalized)) return 'wifi_not_working';
-    if (/email|login|password/.test(normalized)) return 'email_login_issues';
-    if (/slow|performance|lag/.test(normalized)) return 'slow_laptop_performance';
-    if (/printer|print/.test(normalized)) return 'printer_problems';
+    // Check for number selection (English or Spanish)
+    if (/\b(1|one|first|uno|primer[oa]?)\b/.test(normalized)) return 'wifi_not_working';
+    if (/\b(2|two|second|dos|segund[oa])\b/.test(normalized)) return 'email_login_issues';
+    if (/\b(3|three|third|tres|tercer[oa]?)\b/.test(normalized)) return 'slow_laptop_performance';
+    if (/\b(4|four|fourth|cuatro|cuart[oa])\b/.test(normalized)) return 'printer_problems';
+
+    // Check for direct mentions (Spanish words whole, so "silent" isn't "lento")
+    if (/wifi|wi-fi|internet|network|(?<!\p{L})conexi(ón|on|ones)(?!\p{L})/u.test(normalized)) {
+      return 'wifi_not_working';
+    }
+    if (/email|login|password|(?<!\p{L})(correos?|contrase[nñ]as?)(?!\p{L})/u.test(normalized)) {
+      return 'email_login_issues';
+    }
+    if (/slow|performance|lag|(?<!\p{L})lent[oa]s?(?!\p{L})/u.test(normalized)) {
+      return 'slow_laptop_performance';
+    }
+    if (/printer|print|(?<!\p{L})(impres(oras?|i[oó]n)|imprim\p{L}*)(?!\p{L})/u.test(normalized)) {
+      return 'printer_problems';
+    }
 
     return null;
   }
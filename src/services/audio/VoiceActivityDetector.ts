@@ -0,0 +1,301 @@
+import { AppConfig } from '../../config/env.js';
+
+/**
+ * Voice activity detection for endpointing caller speech
+ * Detectors consume 16-bit mono PCM frames (e.g. LiveKit AudioFrame) one at a time
+ */
+
+/**
+ * Minimal PCM frame shape (structurally compatible with LiveKit's AudioFrame)
+ */
+export interface PcmFrame {
+  data: Int16Array;
+  sampleRate: number;
+  samplesPerChannel: number;
+}
+
+export interface VADResult {
+  // Frame belongs to an utterance (includes onset and hangover frames)
+  isSpeech: boolean;
+  // Set on the frame where an utterance starts or ends
+  event: 'speech_start' | 'speech_end' | null;
+  // RMS energy of the frame
+  energy: number;
+  // Energy needed to start speech at this point (useful for logging)
+  threshold: number;
+}
+
+export interface VoiceActivityDetector {
+  process(frame: PcmFrame): VADResult;
+  reset(): void;
+}
+
+export interface VADOptions {
+  // Consecutive loud audio required before speech is reported
+  minSpeechMs: number;
+  // Quiet audio tolerated inside an utterance before it ends
+  hangoverMs: number;
+}
+
+export interface AdaptiveVADOptions extends VADOptions {
+  // Initial audio used to estimate the noise floor
+  calibrationMs: number;
+  // Speech starts above noiseFloor * startRatio ...
+  startRatio: number;
+  // ... and continues while above noiseFloor * stopRatio (hysteresis)
+  stopRatio: number;
+  // Absolute lower bound for the start threshold (digital silence has a ~0 floor)
+  minEnergy: number;
+  // How quickly the noise floor follows background changes (0..1 per frame)
+  adaptationRate: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VADOptions = {
+  minSpeechMs: 60,
+  hangoverMs: 400,
+};
+
+export const DEFAULT_ADAPTIVE_VAD_OPTIONS: AdaptiveVADOptions = {
+  ...DEFAULT_VAD_OPTIONS,
+  calibrationMs: 1000,
+  startRatio: 3,
+  stopRatio: 1.8,
+  minEnergy: 30,
+  adaptationRate: 0.05,
+};
+
+/**
+ * Calculate RMS (Root Mean Square) energy of a block of samples
+ */
+export const calculateRMS = (samples: Int16Array): number => {
+  if (samples.length === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i] ?? 0;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples.length);
+};
+
+/**
+ * Shared onset/hangover state machine
+ * Subclasses decide the start and continue thresholds for each frame
+ */
+abstract class BaseVoiceActivityDetector implements VoiceActivityDetector {
+  private inSpeech = false;
+  private onsetMs = 0;
+  private quietMs = 0;
+
+  constructor(protected readonly options: VADOptions) {}
+
+  process(frame: PcmFrame): VADResult {
+    const energy = calculateRMS(frame.data);
+    const frameMs = (frame.samplesPerChannel * 1000) / frame.sampleRate;
+    const { start, stop } = this.thresholds();
+
+    let event: VADResult['event'] = null;
+
+    if (!this.inSpeech) {
+      if (energy >= start) {
+        this.onsetMs += frameMs;
+        if (this.onsetMs >= this.options.minSpeechMs) {
+          this.inSpeech = true;
+          this.quietMs = 0;
+          event = 'speech_start';
+        }
+      } else {
+        this.onsetMs = 0;
+      }
+    } else if (energy >= stop) {
+      this.quietMs = 0;
+    } else {
+      this.quietMs += frameMs;
+      if (this.quietMs >= this.options.hangoverMs) {
+        this.inSpeech = false;
+        this.onsetMs = 0;
+        this.quietMs = 0;
+        event = 'speech_end';
+      }
+    }
+
+    const isSpeech = this.inSpeech || event === 'speech_end';
+    this.observe(energy, isSpeech || this.onsetMs > 0);
+
+    return { isSpeech, event, energy, threshold: start };
+  }
+
+  reset(): void {
+    this.inSpeech = false;
+    this.onsetMs = 0;
+    this.quietMs = 0;
+  }
+
+  protected abstract thresholds(): { start: number; stop: number };
+
+  /**
+   * Called after every frame so subclasses can learn from the audio
+   */
+  protected abstract observe(energy: number, speechLikely: boolean): void;
+}
+
+/**
+ * Fixed RMS threshold detector (the original endpointing behaviour)
+ */
+export class EnergyVoiceActivityDetector extends BaseVoiceActivityDetector {
+  constructor(
+    private readonly threshold = 50,
+    options: Partial<VADOptions> = {},
+  ) {
+    super({ ...DEFAULT_VAD_OPTIONS, ...options });
+  }
+
+  protected thresholds(): { start: number; stop: number } {
+    return { start: this.threshold, stop: this.threshold };
+  }
+
+  protected observe(): void {
+    // Fixed threshold, nothing to learn
+  }
+}
+
+/**
+ * Adaptive noise-floor detector
+ * Calibrates from the first seconds of audio, then keeps tracking the background
+ * level during non-speech so it works in both quiet rooms and noisy offices
+ */
+export class AdaptiveVoiceActivityDetector extends BaseVoiceActivityDetector {
+  private readonly adaptiveOptions: AdaptiveVADOptions;
+  private calibrationEnergies: number[] = [];
+  private calibratedMs = 0;
+  private noiseFloor: number | null = null;
+
+  constructor(options: Partial<AdaptiveVADOptions> = {}) {
+    const merged = { ...DEFAULT_ADAPTIVE_VAD_OPTIONS, ...options };
+    super(merged);
+    this.adaptiveOptions = merged;
+  }
+
+  /**
+   * Current noise floor estimate (null while still calibrating)
+   */
+  getNoiseFloor(): number | null {
+    return this.noiseFloor;
+  }
+
+  override reset(): void {
+    super.reset();
+    this.calibrationEnergies = [];
+    this.calibratedMs = 0;
+    this.noiseFloor = null;
+  }
+
+  override process(frame: PcmFrame): VADResult {
+    if (this.noiseFloor === null) {
+      this.calibratedMs += (frame.samplesPerChannel * 1000) / frame.sampleRate;
+    }
+    return super.process(frame);
+  }
+
+  protected thresholds(): { start: number; stop: number } {
+    const { minEnergy, startRatio, stopRatio } = this.adaptiveOptions;
+    const floor = this.noiseFloor ?? this.provisionalFloor();
+
+    const start = Math.max(floor * startRatio, minEnergy);
+    const stop = Math.max(floor * stopRatio, minEnergy * (stopRatio / startRatio));
+    return { start, stop };
+  }
+
+  protected observe(energy: number, speechLikely: boolean): void {
+    if (this.noiseFloor === null) {
+      this.calibrationEnergies.push(energy);
+      if (this.calibratedMs >= this.adaptiveOptions.calibrationMs) {
+        this.noiseFloor = this.provisionalFloor();
+        this.calibrationEnergies = [];
+      }
+      return;
+    }
+
+    // Only adapt on background audio; drop faster than we rise so a burst of
+    // speech that slipped through cannot drag the floor up
+    if (!speechLikely) {
+      const rate =
+        energy < this.noiseFloor
+          ? this.adaptiveOptions.adaptationRate * 4
+          : this.adaptiveOptions.adaptationRate;
+      this.noiseFloor += (energy - this.noiseFloor) * rate;
+    }
+  }
+
+  /**
+   * Low percentile of the calibration window, robust to callers who start talking immediately
+   */
+  private provisionalFloor(): number {
+    if (this.calibrationEnergies.length === 0) {
+      return 0;
+    }
+    const sorted = [...this.calibrationEnergies].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length * 0.2)] ?? 0;
+  }
+}
+
+/**
+ * Create the detector selected by VAD_MODE
+ */
+export const createVoiceActivityDetector = (config: AppConfig): VoiceActivityDetector => {
+  const options: VADOptions = {
+    minSpeechMs: config.VAD_MIN_SPEECH_MS,
+    hangoverMs: config.VAD_HANGOVER_MS,
+  };
+
+  if (config.VAD_MODE === 'energy') {
+    return new EnergyVoiceActivityDetector(config.VAD_ENERGY_THRESHOLD, options);
+  }
+
+  return new AdaptiveVoiceActivityDetector({
+    ...options,
+    calibrationMs: config.VAD_CALIBRATION_MS,
+    startRatio: config.VAD_START_RATIO,
+    stopRatio: config.VAD_STOP_RATIO,
+    minEnergy: config.VAD_MIN_ENERGY,
+  });
+};
+
+/**
+ * Run a detector over a whole PCM buffer (16-bit LE mono) and return the speech segments
+ * Handy for tuning and testing against recorded audio
+ */
+export const detectSpeechSegments = (
+  detector: VoiceActivityDetector,
+  pcm: Buffer,
+  sampleRate: number,
+  frameMs = 20,
+): Array<{ startMs: number; endMs: number }> => {
+  const samplesPerFrame = Math.floor((sampleRate * frameMs) / 1000);
+  const totalSamples = Math.floor(pcm.length / 2);
+  const segments: Array<{ startMs: number; endMs: number }> = [];
+  let segmentStart: number | null = null;
+
+  for (let offset = 0; offset + samplesPerFrame <= totalSamples; offset += samplesPerFrame) {
+    const data = new Int16Array(samplesPerFrame);
+    for (let i = 0; i < samplesPerFrame; i++) {
+      data[i] = pcm.readInt16LE((offset + i) * 2);
+    }
+
+    const result = detector.process({ data, sampleRate, samplesPerChannel: samplesPerFrame });
+    const frameStartMs = (offset * 1000) / sampleRate;
+
+    if (result.event === 'speech_start') {
+      segmentStart = frameStartMs;
+    } else if (result.event === 'speech_end' && segmentStart !== null) {
+      segments.push({ startMs: segmentStart, endMs: frameStartMs + frameMs });
+      segmentStart = null;
+    }
+  }
+
+  if (segmentStart !== null) {
+    segments.push({ startMs: segmentStart, endMs: (totalSamples * 1000) / sampleRate });
+  }
+
+  return segments;
+};
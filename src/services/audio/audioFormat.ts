@@ -0,0 +1,372 @@
+import { PcmFormat } from '../providers/types.js';
+
+/**
+ * Audio format handling for TTS output
+ * Everything is normalized to 16-bit signed little-endian PCM before it reaches the AudioSource
+ */
+
+// Caller audio is received as 16kHz mono, the format every STT provider accepts
+export const STT_FORMAT: PcmFormat = { sampleRate: 16000, channels: 1 };
+
+// Output audio format: 24kHz, 16-bit mono PCM (native for OpenAI and ElevenLabs)
+// Other provider output is resampled/downmixed to this before playback
+export const TTS_FORMAT: PcmFormat = { sampleRate: 24000, channels: 1 };
+
+// Audio kept from before the detector confirms speech onset
+export const PRE_ROLL_MS = 200;
+
+// Utterances shorter than this are treated as noise
+export const MIN_SPEECH_DURATION_MS = 200;
+
+export interface DecodedAudio {
+  pcm: Buffer;
+  format: PcmFormat;
+}
+
+export interface WavInfo {
+  format: PcmFormat;
+  // WAVE_FORMAT_PCM (integer) or WAVE_FORMAT_IEEE_FLOAT
+  audioFormat: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+// Container formats a provider may declare for its output
+export type AudioContainer = 'wav' | 'mp3';
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const WAV_HEADER_SIZE = 44;
+
+export function isWav(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WAVE'
+  );
+}
+
+/**
+ * Locate the fmt and data chunks of a RIFF/WAVE file
+ * Unknown chunks (LIST, fact, ...) are skipped
+ */
+export function parseWavHeader(buffer: Buffer): WavInfo {
+  if (!isWav(buffer)) {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let fmt: Omit<WavInfo, 'dataOffset' | 'dataLength'> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      if (chunkSize < 16 || body + 16 > buffer.length) {
+        throw new Error('Truncated WAV fmt chunk');
+      }
+
+      let audioFormat = buffer.readUInt16LE(body);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        // The real format code is the start of the SubFormat GUID
+        audioFormat = buffer.readUInt16LE(body + 24);
+      }
+
+      fmt = {
+        format: {
+          channels: buffer.readUInt16LE(body + 2),
+          sampleRate: buffer.readUInt32LE(body + 4),
+        },
+        audioFormat,
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!fmt) {
+        throw new Error('WAV data chunk appears before fmt chunk');
+      }
+
+      // Streamed WAVs leave the size at 0 or 0xFFFFFFFF, truncated ones overstate it
+      const available = buffer.length - body;
+      const dataLength =
+        chunkSize === 0 || chunkSize === 0xffffffff || chunkSize > available
+          ? available
+          : chunkSize;
+
+      return { ...fmt, dataOffset: body, dataLength };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Decode integer (8/16/24/32-bit) or float (32/64-bit) WAV to 16-bit PCM
+ */
+export function decodeWav(buffer: Buffer): DecodedAudio {
+  const { format, audioFormat, bitsPerSample, dataOffset, dataLength } = parseWavHeader(buffer);
+
+  if (format.channels === 0 || format.sampleRate === 0) {
+    throw new Error('WAV file declares no channels or a zero sample rate');
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const bytesPerFrame = bytesPerSample * format.channels;
+  const data = buffer.subarray(dataOffset, dataOffset + dataLength);
+  const frames = Math.floor(data.length / bytesPerFrame);
+
+  if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 16) {
+    return { pcm: data.subarray(0, frames * bytesPerFrame), format };
+  }
+
+  const readSample = sampleReader(audioFormat, bitsPerSample);
+  const samples = frames * format.channels;
+  const pcm = Buffer.alloc(samples * 2);
+
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(floatToInt16(readSample(data, i * bytesPerSample)), i * 2);
+  }
+
+  return { pcm, format };
+}
+
+/**
+ * Wrap 16-bit PCM in a canonical 44-byte WAV header
+ */
+export function encodeWav(pcm: Buffer, format: PcmFormat): Buffer {
+  const blockAlign = format.channels * 2;
+  const buffer = Buffer.alloc(WAV_HEADER_SIZE + pcm.length);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + pcm.length, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+  buffer.writeUInt16LE(format.channels, 22);
+  buffer.writeUInt32LE(format.sampleRate, 24);
+  buffer.writeUInt32LE(format.sampleRate * blockAlign, 28); // byte rate
+  buffer.writeUInt16LE(blockAlign, 32);
+  buffer.writeUInt16LE(16, 34); // bits per sample
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(pcm.length, 40);
+
+  pcm.copy(buffer, WAV_HEADER_SIZE);
+  return buffer;
+}
+
+/**
+ * Copy of the start of a PCM buffer faded linearly to silence over durationMs
+ * Appended after cutting playback short so it ends without a click
+ */
+export function fadeOut(pcm: Buffer, format: PcmFormat, durationMs: number): Buffer {
+  const frames = Math.min(
+    Math.floor((format.sampleRate * durationMs) / 1000),
+    Math.floor(pcm.length / (2 * format.channels)),
+  );
+  const faded = Buffer.alloc(frames * format.channels * 2);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const gain = 1 - (frame + 1) / frames;
+    for (let ch = 0; ch < format.channels; ch++) {
+      const offset = (frame * format.channels + ch) * 2;
+      faded.writeInt16LE(Math.round(pcm.readInt16LE(offset) * gain), offset);
+    }
+  }
+
+  return faded;
+}
+
+/**
+ * Decode an MP3 file to 16-bit PCM
+ */
+export async function decodeMp3(buffer: Buffer): Promise<DecodedAudio> {
+  // Loaded on demand: the WASM decoder is only needed when a provider outputs MP3
+  const { MPEGDecoder } = await import('mpg123-decoder');
+  const decoder = new MPEGDecoder();
+
+  try {
+    await decoder.ready;
+    const { channelData, samplesDecoded, sampleRate, errors } = decoder.decode(
+      new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength),
+    );
+
+    if (samplesDecoded === 0 || channelData.length === 0) {
+      throw new Error(`MP3 decoding produced no audio${errors[0] ? `: ${errors[0].message}` : ''}`);
+    }
+
+    const channels = channelData.length;
+    const pcm = Buffer.alloc(samplesDecoded * channels * 2);
+    for (let i = 0; i < samplesDecoded; i++) {
+      for (let ch = 0; ch < channels; ch++) {
+        pcm.writeInt16LE(floatToInt16(channelData[ch]![i]!), (i * channels + ch) * 2);
+      }
+    }
+
+    return { pcm, format: { sampleRate, channels } };
+  } finally {
+    decoder.free();
+  }
+}
+
+/**
+ * Decode provider output in its declared container
+ * A RIFF header always wins, since some servers ignore the requested format
+ */
+export async function decodeAudio(
+  buffer: Buffer,
+  container: AudioContainer,
+): Promise<DecodedAudio> {
+  if (isWav(buffer)) {
+    return decodeWav(buffer);
+  }
+
+  if (container === 'mp3') {
+    return decodeMp3(buffer);
+  }
+
+  throw new Error(`Audio is not a valid ${container} file`);
+}
+
+/**
+ * Streaming sample rate and channel conversion for 16-bit PCM
+ * Uses linear interpolation and keeps state between chunks, so chunk boundaries don't click
+ * Partial samples at the end of a chunk are carried over to the next one
+ */
+export class PcmConverter {
+  private remainder = Buffer.alloc(0);
+  // Last input frame of the previous chunk (already mapped to the output channels)
+  private previous: number[] | null = null;
+  // Frame counters since the start of the stream; output positions are derived from these
+  // rather than accumulated, so the result doesn't depend on how the input was chunked
+  private inputFrames = 0;
+  private outputFrames = 0;
+
+  constructor(
+    private readonly from: PcmFormat,
+    private readonly to: PcmFormat,
+  ) {}
+
+  push(chunk: Buffer): Buffer {
+    const input = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+    const bytesPerFrame = this.from.channels * 2;
+    const usable = input.length - (input.length % bytesPerFrame);
+    this.remainder = Buffer.from(input.subarray(usable));
+
+    if (this.from.sampleRate === this.to.sampleRate && this.from.channels === this.to.channels) {
+      return input.subarray(0, usable);
+    }
+
+    const channels = this.to.channels;
+    const mixed = this.mixChannels(input.subarray(0, usable));
+    const frames = mixed.length / channels;
+    const firstFrame = this.inputFrames;
+    const lastFrame = firstFrame + frames - 1;
+    const previous = this.previous;
+
+    // Frame indices are absolute; firstFrame - 1 is the last frame of the previous chunk
+    const sampleAt = (frame: number, ch: number): number =>
+      frame < firstFrame ? previous![ch]! : mixed[(frame - firstFrame) * channels + ch]!;
+
+    const output: number[] = [];
+
+    while (true) {
+      const position = (this.outputFrames * this.from.sampleRate) / this.to.sampleRate;
+      const index = Math.floor(position);
+      const fraction = position - index;
+
+      // Wait for the next chunk when the frame after `index` is still needed
+      if (index + 1 > lastFrame && !(fraction === 0 && index === lastFrame)) break;
+
+      for (let ch = 0; ch < channels; ch++) {
+        const a = sampleAt(index, ch);
+        output.push(fraction === 0 ? a : a + (sampleAt(index + 1, ch) - a) * fraction);
+      }
+      this.outputFrames++;
+    }
+
+    if (frames > 0) {
+      this.previous = Array.from({ length: channels }, (_, ch) => sampleAt(lastFrame, ch));
+      this.inputFrames += frames;
+    }
+
+    const pcm = Buffer.alloc(output.length * 2);
+    output.forEach((sample, i) => pcm.writeInt16LE(clampInt16(sample), i * 2));
+    return pcm;
+  }
+
+  /**
+   * Map interleaved input frames to the output channel count
+   * Downmixes by averaging; upmixes by copying the (mono) signal to every channel
+   */
+  private mixChannels(pcm: Buffer): Float32Array {
+    const inChannels = this.from.channels;
+    const outChannels = this.to.channels;
+    const frames = pcm.length / (inChannels * 2);
+    const mixed = new Float32Array(frames * outChannels);
+
+    for (let frame = 0; frame < frames; frame++) {
+      if (inChannels === outChannels) {
+        for (let ch = 0; ch < outChannels; ch++) {
+          mixed[frame * outChannels + ch] = pcm.readInt16LE((frame * inChannels + ch) * 2);
+        }
+        continue;
+      }
+
+      let sum = 0;
+      for (let ch = 0; ch < inChannels; ch++) {
+        sum += pcm.readInt16LE((frame * inChannels + ch) * 2);
+      }
+      mixed.fill(sum / inChannels, frame * outChannels, (frame + 1) * outChannels);
+    }
+
+    return mixed;
+  }
+}
+
+/**
+ * One-shot conversion of a complete PCM buffer
+ */
+export function convertPcm(pcm: Buffer, from: PcmFormat, to: PcmFormat): Buffer {
+  return new PcmConverter(from, to).push(pcm);
+}
+
+function sampleReader(
+  audioFormat: number,
+  bitsPerSample: number,
+): (data: Buffer, offset: number) => number {
+  if (audioFormat === WAVE_FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8:
+        return (data, offset) => (data.readUInt8(offset) - 128) / 128;
+      case 24:
+        return (data, offset) => data.readIntLE(offset, 3) / 8388608;
+      case 32:
+        return (data, offset) => data.readInt32LE(offset) / 2147483648;
+    }
+  } else if (audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+    switch (bitsPerSample) {
+      case 32:
+        return (data, offset) => data.readFloatLE(offset);
+      case 64:
+        return (data, offset) => data.readDoubleLE(offset);
+    }
+  }
+
+  throw new Error(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`);
+}
+
+function floatToInt16(sample: number): number {
+  return clampInt16(sample * 32767);
+}
+
+function clampInt16(sample: number): number {
+  return Math.max(-32768, Math.min(32767, Math.round(sample)));
+}
@@ -0,0 +1,115 @@
+/**
+ * Points in a caller turn, in pipeline order
+ * speech_end is the origin: the end of the utterance, or when a typed message arrived
+ */
+export type TurnMark =
+  | 'speech_end'
+  | 'stt_done'
+  | 'llm_start'
+  | 'llm_first_token'
+  | 'llm_done'
+  | 'tts_start'
+  | 'tts_first_byte'
+  | 'first_frame'
+  | 'turn_done';
+
+/**
+ * Durations exported as histograms, derived from the marks
+ */
+export type TurnStage =
+  // Utterance end → final transcript
+  | 'stt'
+  // Request → first streamed text (or the whole response when not streaming)
+  | 'llm_first_token'
+  | 'llm'
+  // First TTS request → first audio byte
+  | 'tts_first_byte'
+  // End of speech → first bot audio frame played (what the caller waits through)
+  | 'response'
+  | 'turn';
+
+export interface ToolTiming {
+  name: string;
+  startMs: number;
+  durationMs: number;
+}
+
+/**
+ * What gets stored in ConversationLog.metadata.timings
+ * Marks are milliseconds since the origin of the turn
+ */
+export interface TurnTimings {
+  marks: Partial<Record<TurnMark, number>>;
+  tools: ToolTiming[];
+  stages: Partial<Record<TurnStage, number>>;
+}
+
+const STAGE_BOUNDS: Record<TurnStage, [TurnMark, TurnMark]> = {
+  stt: ['speech_end', 'stt_done'],
+  llm_first_token: ['llm_start', 'llm_first_token'],
+  llm: ['llm_start', 'llm_done'],
+  tts_first_byte: ['tts_start', 'tts_first_byte'],
+  response: ['speech_end', 'first_frame'],
+  turn: ['speech_end', 'turn_done'],
+};
+
+/**
+ * Wall-clock timeline of one turn
+ * Only the first occurrence of a mark counts, so multi-sentence responses keep the
+ * timings of their first sentence (the one the caller waits for)
+ */
+export class TurnTimer {
+  private readonly origin: number;
+  private marks: Partial<Record<TurnMark, number>> = {};
+  private tools: ToolTiming[] = [];
+
+  constructor(
+    speechEndedAt?: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.origin = speechEndedAt ?? now();
+    this.marks.speech_end = 0;
+  }
+
+  mark(name: TurnMark): void {
+    if (this.marks[name] === undefined) {
+      this.marks[name] = this.elapsed();
+    }
+  }
+
+  has(name: TurnMark): boolean {
+    return this.marks[name] !== undefined;
+  }
+
+  /**
+   * Time a tool call, recording it even when it throws
+   */
+  async timeTool<T>(name: string, run: () => Promise<T>): Promise<T> {
+    const startMs = this.elapsed();
+    try {
+      return await run();
+    } finally {
+      this.tools.push({ name, startMs, durationMs: this.elapsed() - startMs });
+    }
+  }
+
+  getTimings(): TurnTimings {
+    const stages: TurnTimings['stages'] = {};
+
+    for (const [stage, [from, to]] of Object.entries(STAGE_BOUNDS) as Array<
+      [TurnStage, [TurnMark, TurnMark]]
+    >) {
+      const start = this.marks[from];
+      const end = this.marks[to];
+      if (start !== undefined && end !== undefined) {
+        stages[stage] = end - start;
+      }
+    }
+
+    return { marks: { ...this.marks }, tools: [...this.tools], stages };
+  }
+
+  private elapsed(): number {
+    return this.now() - this.origin;
+  }
+}
@@ -0,0 +1,42 @@
+import { collectDefaultMetrics, Histogram, Registry } from 'prom-client';
+
+import { TurnStage, TurnTimings } from './TurnTimer.js';
+
+/**
+ * Prometheus registry for this process, served at GET /metrics
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Voice latencies are dominated by network round trips: 50ms to 10s
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 5, 10];
+
+const stageDuration = new Histogram({
+  name: 'voicebot_turn_stage_duration_seconds',
+  help: 'Duration of each pipeline stage of a caller turn',
+  labelNames: ['stage', 'channel'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+const toolDuration = new Histogram({
+  name: 'voicebot_tool_duration_seconds',
+  help: 'Duration of LLM tool calls',
+  labelNames: ['tool'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Export the timings of a finished turn
+ */
+export const observeTurnTimings = (timings: TurnTimings, channel: 'voice' | 'chat'): void => {
+  for (const [stage, ms] of Object.entries(timings.stages) as Array<[TurnStage, number]>) {
+    stageDuration.observe({ stage, channel }, ms / 1000);
+  }
+
+  for (const tool of timings.tools) {
+    toolDuration.observe({ tool: tool.name }, tool.durationMs / 1000);
+  }
+};
@@ -0,0 +1,49 @@
+import { SlotField } from '../../domain/conversation/state.js';
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
+import { spellOut } from '../../utils/spelling.js';
+
+const FIELD_NAMES: Record<Locale, Record<SlotField, string>> = {
+  en: { name: 'name', email: 'email address', phone: 'phone number', address: 'address' },
+  es: {
+    name: 'nombre',
+    email: 'correo electrónico',
+    phone: 'número de teléfono',
+    address: 'dirección',
+  },
+};
+
+const READ_BACKS: Record<Locale, (fieldName: string, value: string) => string> = {
+  en: (fieldName, value) =>
+    `Just to make sure I heard you right, your ${fieldName} is ${value}. Is that correct?`,
+  es: (fieldName, value) =>
+    `Para asegurarme de que le entendí bien, su ${fieldName} es ${value}. ¿Es correcto?`,
+};
+
+/**
+ * Read back a detail from a low-confidence transcript before it is stored
+ */
+export const getConfirmationReadBack = (
+  field: SlotField,
+  value: string,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  // An email is easiest to check letter by letter
+  const spoken = field === 'email' ? spellOut(value, 'email', locale) : value;
+  return READ_BACKS[locale](FIELD_NAMES[locale][field], spoken);
+};
+
+/**
+ * Note for the LLM's final read-back: details that came from low-confidence transcripts
+ */
+export const getUncertainDetailsNote = (
+  details: Array<{ field: SlotField; value: string }>,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  const list = details
+    .map(({ field, value }) => `- ${FIELD_NAMES[locale][field]}: ${value}`)
+    .join('\n');
+  return `UNCERTAIN DETAILS (heard on a poor line):
+${list}
+
+When you read the details back, point these out, read them slowly (spell the email address letter by letter) and ask the caller to check them in particular.`;
+};
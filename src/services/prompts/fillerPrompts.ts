@@ -0,0 +1,65 @@
+import { ConversationState } from '../../domain/conversation/state.js';
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
+
+/**
+ * Short acknowledgements played while the caller waits on a slow turn
+ * A running tool picks the phrase; otherwise the state the turn started in does
+ */
+export const TOOL_FILLERS: Record<Locale, Record<string, string>> = {
+  en: {
+    create_ticket: 'One moment while I create that ticket.',
+    classify_issue: 'Let me look into that for you.',
+    get_price_for_issue: 'Let me check the price for that.',
+    validate_email: 'Let me check that email address.',
+    validate_phone: 'Let me check that number.',
+  },
+  es: {
+    create_ticket: 'Un momento mientras creo el ticket.',
+    classify_issue: 'Déjeme revisar eso.',
+    get_price_for_issue: 'Déjeme consultar el precio.',
+    validate_email: 'Déjeme verificar ese correo.',
+    validate_phone: 'Déjeme verificar ese número.',
+  },
+};
+
+export const STATE_FILLERS: Record<Locale, Partial<Record<ConversationState, string>>> = {
+  en: {
+    [ConversationState.COLLECTING_ISSUE]: 'Let me look into that for you.',
+    [ConversationState.CONFIRMING_DETAILS]: 'One moment please.',
+    [ConversationState.TICKET_CREATION]: 'One moment while I create that ticket.',
+  },
+  es: {
+    [ConversationState.COLLECTING_ISSUE]: 'Déjeme revisar eso.',
+    [ConversationState.CONFIRMING_DETAILS]: 'Un momento, por favor.',
+    [ConversationState.TICKET_CREATION]: 'Un momento mientras creo el ticket.',
+  },
+};
+
+export const DEFAULT_FILLERS: Record<Locale, string> = {
+  en: 'Just a moment.',
+  es: 'Un momento.',
+};
+
+/**
+ * Filler for the tool that is running, or for the current state
+ */
+export const getFillerPrompt = (
+  state: ConversationState,
+  tool: string | null,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  return (
+    (tool && TOOL_FILLERS[locale][tool]) || STATE_FILLERS[locale][state] || DEFAULT_FILLERS[locale]
+  );
+};
+
+/**
+ * Every distinct filler in a language, for synthesizing them ahead of time
+ */
+export const getAllFillerPrompts = (locale: Locale): readonly string[] => [
+  ...new Set([
+    ...Object.values(TOOL_FILLERS[locale]),
+    ...Object.values(STATE_FILLERS[locale]),
+    DEFAULT_FILLERS[locale],
+  ]),
+];
@@ -0,0 +1,54 @@
+import { ConversationState } from '../../domain/conversation/state.js';
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
+
+/**
+ * What the bot says when the caller has gone quiet, by what it is still waiting for
+ */
+export const INACTIVITY_REPROMPTS: Record<Locale, Record<ConversationState, string>> = {
+  en: {
+    [ConversationState.GREETING]: 'Are you still there? May I have your name, please?',
+    [ConversationState.COLLECTING_NAME]: 'Are you still there? I still need your name.',
+    [ConversationState.COLLECTING_EMAIL]: 'Are you still there? I still need your email address.',
+    [ConversationState.COLLECTING_PHONE]:
+      'Are you still there? I still need a phone number where we can reach you.',
+    [ConversationState.COLLECTING_ADDRESS]: 'Are you still there? I still need your address.',
+    [ConversationState.COLLECTING_ISSUE]:
+      "Are you still there? Please describe the problem you're having.",
+    [ConversationState.CONFIRMING_DETAILS]:
+      'Are you still there? Please let me know if the details I read back are correct.',
+    [ConversationState.TICKET_CREATION]: 'Are you still there? I am creating your ticket now.',
+    [ConversationState.CONFIRMATION]: 'Is there anything else I can help you with?',
+    [ConversationState.ERROR_RECOVERY]: 'Are you still there? Sorry, could you repeat that?',
+    [ConversationState.ENDED]: '',
+  },
+  es: {
+    [ConversationState.GREETING]: '¿Sigue ahí? ¿Me podría dar su nombre, por favor?',
+    [ConversationState.COLLECTING_NAME]: '¿Sigue ahí? Todavía necesito su nombre.',
+    [ConversationState.COLLECTING_EMAIL]: '¿Sigue ahí? Todavía necesito su correo electrónico.',
+    [ConversationState.COLLECTING_PHONE]:
+      '¿Sigue ahí? Todavía necesito un número de teléfono para contactarle.',
+    [ConversationState.COLLECTING_ADDRESS]: '¿Sigue ahí? Todavía necesito su dirección.',
+    [ConversationState.COLLECTING_ISSUE]: '¿Sigue ahí? Describa el problema que tiene, por favor.',
+    [ConversationState.CONFIRMING_DETAILS]:
+      '¿Sigue ahí? Dígame si los datos que le leí son correctos, por favor.',
+    [ConversationState.TICKET_CREATION]: '¿Sigue ahí? Estoy creando su ticket.',
+    [ConversationState.CONFIRMATION]: '¿Hay algo más en lo que pueda ayudarle?',
+    [ConversationState.ERROR_RECOVERY]: '¿Sigue ahí? Disculpe, ¿podría repetir eso?',
+    [ConversationState.ENDED]: '',
+  },
+};
+
+export const INACTIVITY_GOODBYES: Record<Locale, string> = {
+  en: "I haven't heard from you for a while, so I'm going to end this call. Please call back any time. Goodbye!",
+  es: 'Hace un rato que no le escucho, así que voy a terminar esta llamada. Puede llamarnos cuando quiera. ¡Hasta luego!',
+};
+
+/**
+ * Reprompt for the state the caller went quiet in
+ */
+export const getInactivityReprompt = (
+  state: ConversationState,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  return INACTIVITY_REPROMPTS[locale][state];
+};
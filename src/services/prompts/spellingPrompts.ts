@@ -0,0 +1,56 @@
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
+import { SpelledField, spellOut } from '../../utils/spelling.js';
+
+interface SpellingPrompts {
+  fieldNames: Record<SpelledField, string>;
+  first: Record<SpelledField, string>;
+  retry: (fieldName: string) => string;
+  readBack: (spelled: string) => string;
+}
+
+const SPELLING_PROMPTS: Record<Locale, SpellingPrompts> = {
+  en: {
+    fieldNames: { name: 'your name', email: 'your email address' },
+    first: {
+      name: "I'm having trouble catching your name. Could you spell it for me, one letter at a time? For example: S as in Sierra.",
+      email:
+        "I'm having trouble catching your email address. Could you spell it for me, one letter at a time? Say dot, at and underscore for the symbols.",
+    },
+    retry: (fieldName) =>
+      `Sorry about that. Please spell ${fieldName} again, one letter at a time.`,
+    readBack: (spelled) => `I have ${spelled}. Is that right?`,
+  },
+  es: {
+    fieldNames: { name: 'su nombre', email: 'su correo electrónico' },
+    first: {
+      name: 'Me está costando entender su nombre. ¿Me lo podría deletrear, letra por letra? Por ejemplo: S de Sierra.',
+      email:
+        'Me está costando entender su correo electrónico. ¿Me lo podría deletrear, letra por letra? Diga punto, arroba y guion bajo para los símbolos.',
+    },
+    retry: (fieldName) => `Disculpe. Deletree ${fieldName} otra vez, letra por letra, por favor.`,
+    readBack: (spelled) => `Tengo ${spelled}. ¿Es correcto?`,
+  },
+};
+
+/**
+ * Ask the caller to spell a field, or to try again after a spelling was not understood
+ */
+export const getSpellingPrompt = (
+  field: SpelledField,
+  attempts: number,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  const prompts = SPELLING_PROMPTS[locale];
+  return attempts > 0 ? prompts.retry(prompts.fieldNames[field]) : prompts.first[field];
+};
+
+/**
+ * Read a spelled value back for confirmation
+ */
+export const getSpellingReadBack = (
+  field: SpelledField,
+  value: string,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  return SPELLING_PROMPTS[locale].readBack(spellOut(value, field, locale));
+};
@@ -1,3 +1,5 @@
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
+
 /**
  * System prompt for IT help desk voice bot
  * Defines bot behavior, conversation flow, and tool usage
@@ -144,8 +146,24 @@ Please tell me the number or describe it again."
 Remember: This is a voice conversation. Keep your responses concise, natural, and efficient.`;
 
 /**
- * Get system prompt with current timestamp (useful for context)
+ * Language of the conversation, appended to the prompt for callers who don't speak English
+ */
+export const LANGUAGE_INSTRUCTIONS: Record<Locale, string> = {
+  en: '',
+  es: `
+
+## LANGUAGE
+The caller speaks Spanish. Hold the whole conversation in Latin American Spanish (use "usted"), including every example phrase above. Tool names and issue types stay in English.
+
+Key phrases:
+- Ask for the name: "¿Me podría dar su nombre, por favor?"
+- Confirmation: "¿Es correcta toda esta información? Diga sí para confirmar o indíqueme qué debo cambiar."
+- Service catalog: 1. Wi-Fi no funciona ($20), 2. Problemas para iniciar sesión en el correo ($15), 3. Laptop lenta ($25), 4. Problemas con la impresora ($10)`,
+};
+
+/**
+ * System prompt for the conversation's language
  */
-export const getSystemPrompt = (): string => {
-  return SYSTEM_PROMPT;
+export const getSystemPrompt = (locale: Locale = DEFAULT_LOCALE): string => {
+  return SYSTEM_PROMPT + LANGUAGE_INSTRUCTIONS[locale];
 };
@@ -1,11 +1,13 @@
 import Anthropic from '@anthropic-ai/sdk';
 
 import { logger } from '../../utils/logger.js';
+
 import {
   CircuitBreaker,
   DEFAULT_RETRY_CONFIG,
   LLMError,
   RetryConfig,
+  withIdleTimeout,
   withRetry,
   withTimeout,
 } from './LLMErrorHandler.js';
@@ -14,12 +16,104 @@ import {
   LLMOptions,
   LLMProvider,
   LLMResult,
+  LLMStreamEvent,
   ToolCall,
-  ToolDefinition,
 } from './types.js';
 
 const DEFAULT_TIMEOUT_MS = 30000; // 30 seconds
 
+type StopReason = Anthropic.Message['stop_reason'];
+
+/**
+ * Our messages → Anthropic messages
+ * Tool calls become tool_use blocks on the assistant message, and the results that follow
+ * become tool_result blocks, all in the one user message Anthropic expects after it
+ */
+const toAnthropicMessages = (messages: LLMMessage[]): Anthropic.MessageParam[] => {
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const block: Anthropic.ToolResultBlockParam = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId ?? '',
+        content: message.content,
+        ...(isErrorResult(message.content) && { is_error: true }),
+      };
+      const previous = result.at(-1);
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...message.toolCalls.map(
+            (toolCall): Anthropic.ToolUseBlockParam => ({
+              type: 'tool_use',
+              id: toolCall.id,
+              name: toolCall.function.name,
+              input: parseToolInput(toolCall.function.arguments),
+            }),
+          ),
+        ],
+      });
+    } else {
+      result.push({
+        role: message.role === 'assistant' ? 'assistant' : 'user',
+        content: message.content,
+      });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Tool arguments are a JSON string on our side and an object on Anthropic's
+ */
+const parseToolInput = (args: string): unknown => {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Tools report failures as {"success": false, "error": ...} (see ToolExecutor)
+ */
+const isErrorResult = (content: string): boolean => {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return typeof parsed === 'object' && parsed !== null && 'success' in parsed && !parsed.success;
+  } catch {
+    return false;
+  }
+};
+
+const toAnthropicToolChoice = (
+  toolChoice: NonNullable<LLMOptions['toolChoice']>,
+): Anthropic.ToolChoice => {
+  if (toolChoice === 'auto') return { type: 'auto' };
+  if (toolChoice === 'required') return { type: 'any' };
+  return { type: 'tool', name: toolChoice.function.name };
+};
+
+const toFinishReason = (stopReason: StopReason): LLMResult['finishReason'] => {
+  switch (stopReason) {
+    case 'tool_use':
+      return 'tool_calls';
+    case 'max_tokens':
+      return 'length';
+    default:
+      return 'stop';
+  }
+};
+
 export class AnthropicLLMProvider implements LLMProvider {
   private client: Anthropic;
   private model: string;
@@ -55,41 +149,171 @@ export class AnthropicLLMProvider implements LLMProvider {
     );
   }
 
-  private async executeRequest(
+  /**
+   * Stream a completion; text deltas are yielded as they arrive and tool_use
+   * input JSON is accumulated until its content block is complete
+   */
+  async *stream(messages: LLMMessage[], options?: LLMOptions): AsyncIterable<LLMStreamEvent> {
+    const startTime = Date.now();
+
+    // Only opening the stream is retried - once text has been yielded it cannot be replayed
+    const stream = await this.circuitBreaker.execute(() =>
+      withRetry(
+        () =>
+          withTimeout(
+            this.client.messages.create(
+              { ...this.buildRequestParams(messages, options), stream: true },
+              { signal: options?.signal },
+            ),
+            this.timeoutMs,
+          ),
+        this.retryConfig,
+      ),
+    );
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    const pendingToolCalls = new Map<number, { id: string; name: string; json: string }>();
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let stopReason: StopReason = null;
+
+    try {
+      // A connection that stalls mid-response would otherwise hold up the turn for good
+      for await (const event of withIdleTimeout(stream, this.timeoutMs)) {
+        switch (event.type) {
+          case 'message_start':
+            inputTokens = event.message.usage.input_tokens;
+            break;
+
+          case 'content_block_start':
+            if (event.content_block.type === 'tool_use') {
+              pendingToolCalls.set(event.index, {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                json: '',
+              });
+            }
+            break;
+
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              content += event.delta.text;
+              yield { type: 'text', delta: event.delta.text };
+            } else {
+              const pending = pendingToolCalls.get(event.index);
+              if (pending) pending.json += event.delta.partial_json;
+            }
+            break;
+
+          case 'content_block_stop': {
+            const pending = pendingToolCalls.get(event.index);
+            if (pending) {
+              pendingToolCalls.delete(event.index);
+              const toolCall: ToolCall = {
+                id: pending.id,
+                type: 'function',
+                function: { name: pending.name, arguments: pending.json || '{}' },
+              };
+              toolCalls.push(toolCall);
+              yield { type: 'tool_call', toolCall };
+            }
+            break;
+          }
+
+          case 'message_delta':
+            stopReason = event.delta.stop_reason;
+            outputTokens = event.usage.output_tokens;
+            break;
+        }
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'anthropic stream failed');
+      throw LLMError.fromError(error, options?.signal);
+    }
+
+    logger.debug(
+      {
+        duration: Date.now() - startTime,
+        inputTokens,
+        outputTokens,
+        toolCalls: toolCalls.length,
+      },
+      'anthropic streamed completion',
+    );
+
+    yield {
+      type: 'done',
+      result: {
+        content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        finishReason: toFinishReason(stopReason),
+        usage: {
+          promptTokens: inputTokens,
+          completionTokens: outputTokens,
+          totalTokens: inputTokens + outputTokens,
+        },
+        metadata: {
+          provider: 'anthropic',
+          model: this.model,
+          streamed: true,
+        },
+      },
+    };
+  }
+
+  /**
+   * Convert our messages and options to an Anthropic request
+   */
+  private buildRequestParams(
     messages: LLMMessage[],
     options: LLMOptions | undefined,
-    startTime: number,
-  ): Promise<LLMResult> {
-    try {
-      // Separate system message from conversation
-      const systemMessage = messages.find((m) => m.role === 'system');
-      const conversationMessages = messages.filter((m) => m.role !== 'system');
-
-      // Convert to Anthropic format
-      const anthropicMessages = conversationMessages.map((m) => ({
-        role: (m.role === 'assistant' ? 'assistant' : 'user') as 'user' | 'assistant',
-        content: m.content,
-      }));
+  ): Anthropic.MessageCreateParamsNonStreaming {
+    // Anthropic takes a single system prompt: notes added mid-conversation (collected
+    // details, uncertain details) are appended to it
+    const systemPrompt = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+    const conversationMessages = messages.filter((m) => m.role !== 'system');
 
-      // Build request
-      const requestParams: Anthropic.MessageCreateParamsNonStreaming = {
-        model: this.model,
-        max_tokens: options?.maxTokens ?? 1024,
-        temperature: options?.temperature ?? 0.7,
-        system: systemMessage?.content,
-        messages: anthropicMessages,
-      };
+    // Convert to Anthropic format
+    const anthropicMessages = toAnthropicMessages(conversationMessages);
 
-      // Add tools if provided
-      if (options?.tools && options.tools.length > 0) {
-        requestParams.tools = options.tools.map((t) => ({
-          name: t.function.name,
-          description: t.function.description,
-          input_schema: t.function.parameters as Anthropic.Tool.InputSchema,
-        }));
+    // Build request
+    const requestParams: Anthropic.MessageCreateParamsNonStreaming = {
+      model: this.model,
+      max_tokens: options?.maxTokens ?? 1024,
+      temperature: options?.temperature ?? 0.7,
+      system: systemPrompt || undefined,
+      messages: anthropicMessages,
+    };
+
+    // Add tools if provided
+    if (options?.tools && options.tools.length > 0) {
+      requestParams.tools = options.tools.map((t) => ({
+        name: t.function.name,
+        description: t.function.description,
+        input_schema: t.function.parameters as Anthropic.Tool.InputSchema,
+      }));
+      if (options.toolChoice) {
+        requestParams.tool_choice = toAnthropicToolChoice(options.toolChoice);
       }
+    }
+
+    return requestParams;
+  }
 
-      const response = await this.client.messages.create(requestParams);
+  private async executeRequest(
+    messages: LLMMessage[],
+    options: LLMOptions | undefined,
+    startTime: number,
+  ): Promise<LLMResult> {
+    try {
+      const response = await this.client.messages.create(
+        this.buildRequestParams(messages, options),
+        { signal: options?.signal },
+      );
 
       const duration = Date.now() - startTime;
 
@@ -125,7 +349,7 @@ export class AnthropicLLMProvider implements LLMProvider {
       return {
         content,
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-        finishReason: response.stop_reason === 'tool_use' ? 'tool_calls' : 'stop',
+        finishReason: toFinishReason(response.stop_reason),
         usage: {
           promptTokens: response.usage.input_tokens,
           completionTokens: response.usage.output_tokens,
@@ -138,7 +362,7 @@ export class AnthropicLLMProvider implements LLMProvider {
       };
     } catch (error) {
       logger.error({ err: error }, 'anthropic completion failed');
-      throw LLMError.fromError(error);
+      throw LLMError.fromError(error, options?.signal);
     }
   }
 
@@ -0,0 +1,111 @@
+import { Readable } from 'node:stream';
+
+import { logger } from '../../utils/logger.js';
+import { convertPcm, PcmConverter } from '../audio/audioFormat.js';
+
+import { TTSCache, TTSVoice } from './TTSCache.js';
+import { TTSProvider, TTSResult, TTSStream } from './types.js';
+
+/**
+ * Serves repeated phrases (greeting, fallbacks, fillers) from the disk cache instead of the provider
+ * Misses are synthesized by the wrapped provider and stored once fully received
+ */
+export class CachingTTSProvider implements TTSProvider {
+  constructor(
+    private readonly tts: TTSProvider,
+    private readonly cache: TTSCache,
+    private readonly voice: TTSVoice,
+  ) {}
+
+  get ssml(): boolean | undefined {
+    return this.tts.ssml;
+  }
+
+  async synthesize(text: string): Promise<TTSResult> {
+    const key = this.cache.keyFor(this.voice, text);
+    const cached = await this.lookup(key);
+    if (cached) {
+      return {
+        audio: cached,
+        format: this.cache.format,
+        metadata: { ...this.voice, cached: true },
+      };
+    }
+
+    const result = await this.tts.synthesize(text);
+    await this.store(key, convertPcm(result.audio, result.format, this.cache.format));
+    return result;
+  }
+
+  async synthesizeStream(text: string): Promise<TTSStream> {
+    const key = this.cache.keyFor(this.voice, text);
+    const cached = await this.lookup(key);
+    if (cached) {
+      return {
+        format: this.cache.format,
+        chunks: Readable.from([cached]) as AsyncIterable<Buffer>,
+      };
+    }
+
+    const stream = await this.tts.synthesizeStream(text);
+    return { format: stream.format, chunks: this.record(key, stream) };
+  }
+
+  /**
+   * Pre-render phrases that are spoken on most calls, so even the first call gets them from disk
+   */
+  async warmUp(texts: readonly string[]): Promise<void> {
+    let rendered = 0;
+    for (const text of new Set(texts)) {
+      const key = this.cache.keyFor(this.voice, text);
+      if (await this.lookup(key)) continue;
+
+      try {
+        const result = await this.tts.synthesize(text);
+        await this.store(key, convertPcm(result.audio, result.format, this.cache.format));
+        rendered++;
+      } catch (error) {
+        logger.warn({ err: error, text }, 'failed to pre-render tts phrase');
+      }
+    }
+    logger.info({ ...this.voice, rendered, ...this.cache.size }, 'tts cache warmed up');
+  }
+
+  async close(): Promise<void> {
+    await this.tts.close();
+  }
+
+  /**
+   * Pass chunks through untouched and keep a normalized copy
+   * A stream abandoned part way (barge-in) never reaches the end, so it is not stored
+   */
+  private async *record(key: string, stream: TTSStream): AsyncGenerator<Buffer> {
+    const converter = new PcmConverter(stream.format, this.cache.format);
+    const audio: Buffer[] = [];
+
+    for await (const chunk of stream.chunks) {
+      audio.push(converter.push(chunk));
+      yield chunk;
+    }
+
+    await this.store(key, Buffer.concat(audio));
+  }
+
+  private async lookup(key: string): Promise<Buffer | undefined> {
+    try {
+      return await this.cache.get(key);
+    } catch (error) {
+      // A broken cache only costs a provider call
+      logger.warn({ err: error }, 'tts cache lookup failed');
+      return undefined;
+    }
+  }
+
+  private async store(key: string, pcm: Buffer): Promise<void> {
+    try {
+      await this.cache.set(key, pcm);
+    } catch (error) {
+      logger.warn({ err: error }, 'failed to store tts cache entry');
+    }
+  }
+}
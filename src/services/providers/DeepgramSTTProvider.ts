@@ -1,7 +1,18 @@
-import { createClient, LiveTranscriptionEvents } from '@deepgram/sdk';
+import {
+  createClient,
+  ListenLiveClient,
+  LiveTranscriptionEvent,
+  LiveTranscriptionEvents,
+} from '@deepgram/sdk';
 
 import { logger } from '../../utils/logger.js';
-import { STTProvider, STTResult } from './types.js';
+import { STTOptions, STTProvider, STTResult, STTStream, STTStreamOptions } from './types.js';
+
+// How long finish() waits for Deepgram to flush the last words
+const FINALIZE_TIMEOUT_MS = 2000;
+
+// Without a language hint, nova-2 transcribes English and Spanish with code-switching
+const MULTILINGUAL = 'multi';
 
 export class DeepgramSTTProvider implements STTProvider {
   private client;
@@ -12,12 +23,13 @@ export class DeepgramSTTProvider implements STTProvider {
     this.client = createClient(apiKey);
   }
 
-  async transcribe(audioBuffer: Buffer): Promise<STTResult> {
+  async transcribe(audioBuffer: Buffer, options: STTOptions = {}): Promise<STTResult> {
     const startTime = Date.now();
 
     try {
       const { result, error } = await this.client.listen.prerecorded.transcribeFile(audioBuffer, {
         model: 'nova-2',
+        language: options.language ?? MULTILINGUAL,
         smart_format: true,
         punctuate: true,
         encoding: 'linear16', // 16-bit signed PCM
@@ -56,7 +68,146 @@ export class DeepgramSTTProvider implements STTProvider {
     }
   }
 
+  /**
+   * Open a live transcription socket for one utterance
+   */
+  createStream(options: STTStreamOptions = {}): STTStream {
+    const connection = this.client.listen.live({
+      model: 'nova-2',
+      language: options.language ?? MULTILINGUAL,
+      smart_format: true,
+      punctuate: true,
+      interim_results: true,
+      encoding: 'linear16',
+      sample_rate: 16000,
+      channels: 1,
+    });
+
+    return new DeepgramSTTStream(connection, options);
+  }
+
   async close(): Promise<void> {
     // Deepgram client doesn't require explicit cleanup
   }
 }
+
+/**
+ * Live Deepgram session
+ * Final segments are accumulated until finish() sends Finalize and the flushed result arrives
+ */
+class DeepgramSTTStream implements STTStream {
+  private startTime = Date.now();
+  private finalSegments: string[] = [];
+  private confidences: number[] = [];
+  private error: Error | null = null;
+  private finalized = false;
+  private onFinalized: (() => void) | null = null;
+
+  constructor(
+    private readonly connection: ListenLiveClient,
+    private readonly options: STTStreamOptions,
+  ) {
+    connection.on(LiveTranscriptionEvents.Transcript, (event: LiveTranscriptionEvent) =>
+      this.handleTranscript(event),
+    );
+
+    connection.on(LiveTranscriptionEvents.Error, (error: unknown) => {
+      logger.error({ err: error }, 'deepgram live transcription error');
+      this.error = error instanceof Error ? error : new Error(String(error));
+      this.markFinalized();
+    });
+
+    connection.on(LiveTranscriptionEvents.Close, () => this.markFinalized());
+  }
+
+  write(audio: Buffer): void {
+    if (this.finalized) return;
+    // Buffered by the SDK until the socket is open
+    this.connection.send(audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.byteLength));
+  }
+
+  async finish(): Promise<STTResult> {
+    if (!this.finalized) {
+      const flushed = new Promise<void>((resolve) => {
+        this.onFinalized = resolve;
+      });
+      this.connection.finalize();
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([
+        flushed,
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, FINALIZE_TIMEOUT_MS);
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+
+    this.connection.requestClose();
+
+    if (this.error) {
+      throw new Error(`Deepgram live transcription error: ${this.error.message}`);
+    }
+
+    const duration = Date.now() - this.startTime;
+    const text = this.finalSegments.join(' ').trim();
+    const confidence =
+      this.confidences.length > 0
+        ? this.confidences.reduce((sum, c) => sum + c, 0) / this.confidences.length
+        : undefined;
+
+    logger.debug(
+      { duration, confidence, segments: this.finalSegments.length, textLength: text.length },
+      'deepgram live transcription completed',
+    );
+
+    return {
+      text,
+      confidence,
+      duration,
+      metadata: {
+        provider: 'deepgram',
+        model: 'nova-2',
+        streaming: true,
+      },
+    };
+  }
+
+  abort(): void {
+    this.markFinalized();
+    this.connection.requestClose();
+  }
+
+  private handleTranscript(event: LiveTranscriptionEvent): void {
+    const alternative = event.channel.alternatives[0];
+    const transcript = alternative?.transcript.trim() ?? '';
+
+    if (event.is_final) {
+      if (transcript) {
+        this.finalSegments.push(transcript);
+        this.confidences.push(alternative?.confidence ?? 0);
+        this.options.onFinal?.({
+          text: transcript,
+          confidence: alternative?.confidence,
+          metadata: { provider: 'deepgram', start: event.start, duration: event.duration },
+        });
+      }
+    } else if (transcript) {
+      this.options.onInterim?.({
+        text: [...this.finalSegments, transcript].join(' '),
+        confidence: alternative?.confidence,
+        metadata: { provider: 'deepgram', interim: true },
+      });
+    }
+
+    if (event.from_finalize) {
+      this.markFinalized();
+    }
+  }
+
+  private markFinalized(): void {
+    this.finalized = true;
+    this.onFinalized?.();
+    this.onFinalized = null;
+  }
+}
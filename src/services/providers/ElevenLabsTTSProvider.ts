@@ -1,5 +1,5 @@
 import { logger } from '../../utils/logger.js';
-import { TTSProvider, TTSResult } from './types.js';
+import { TTSProvider, TTSResult, TTSStream } from './types.js';
 
 export class ElevenLabsTTSProvider implements TTSProvider {
   private apiKey: string;
@@ -11,6 +11,9 @@ export class ElevenLabsTTSProvider implements TTSProvider {
   static readonly CHANNELS = 1;
   static readonly BITS_PER_SAMPLE = 16;
 
+  // Inline <break time="..."/> tags become pauses
+  readonly ssml = true;
+
   constructor(apiKey: string, voiceId = '21m00Tcm4TlvDq8ikWAM', modelId = 'eleven_turbo_v2_5') {
     this.apiKey = apiKey;
     this.voiceId = voiceId;
@@ -21,30 +24,7 @@ export class ElevenLabsTTSProvider implements TTSProvider {
     const startTime = Date.now();
 
     try {
-      const response = await fetch(
-        `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}?output_format=pcm_24000`,
-        {
-          method: 'POST',
-          headers: {
-            Accept: 'audio/pcm',
-            'Content-Type': 'application/json',
-            'xi-api-key': this.apiKey,
-          },
-          body: JSON.stringify({
-            text,
-            model_id: this.modelId,
-            voice_settings: {
-              stability: 0.5,
-              similarity_boost: 0.75,
-            },
-          }),
-        },
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`);
-      }
+      const response = await this.request(text, false);
 
       const arrayBuffer = await response.arrayBuffer();
       const audioBuffer = Buffer.from(arrayBuffer);
@@ -62,22 +42,112 @@ export class ElevenLabsTTSProvider implements TTSProvider {
 
       return {
         audio: audioBuffer,
+        format: {
+          sampleRate: ElevenLabsTTSProvider.SAMPLE_RATE,
+          channels: ElevenLabsTTSProvider.CHANNELS,
+        },
         duration,
         metadata: {
           provider: 'elevenlabs',
           model: this.modelId,
           voice: this.voiceId,
+        },
+      };
+    } catch (error) {
+      logger.error({ err: error }, 'elevenlabs tts synthesis failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Synthesize via the /stream endpoint, yielding PCM as it arrives
+   */
+  async synthesizeStream(text: string): Promise<TTSStream> {
+    const startTime = Date.now();
+
+    try {
+      const response = await this.request(text, true);
+
+      if (!response.body) {
+        throw new Error('ElevenLabs API returned an empty stream');
+      }
+
+      return {
+        format: {
           sampleRate: ElevenLabsTTSProvider.SAMPLE_RATE,
           channels: ElevenLabsTTSProvider.CHANNELS,
-          format: 'pcm',
         },
+        chunks: this.readChunks(response.body as ReadableStream<Uint8Array>, text, startTime),
       };
     } catch (error) {
-      logger.error({ err: error }, 'elevenlabs tts synthesis failed');
+      logger.error({ err: error }, 'elevenlabs tts stream failed');
       throw error;
     }
   }
 
+  private async request(text: string, stream: boolean): Promise<Response> {
+    const endpoint = stream ? `${this.voiceId}/stream` : this.voiceId;
+    const response = await fetch(
+      `https://api.elevenlabs.io/v1/text-to-speech/${endpoint}?output_format=pcm_24000`,
+      {
+        method: 'POST',
+        headers: {
+          Accept: 'audio/pcm',
+          'Content-Type': 'application/json',
+          'xi-api-key': this.apiKey,
+        },
+        body: JSON.stringify({
+          text,
+          model_id: this.modelId,
+          voice_settings: {
+            stability: 0.5,
+            similarity_boost: 0.75,
+          },
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Read the response body chunk by chunk
+   * Stopping iteration early (barge-in) cancels the download
+   */
+  private async *readChunks(
+    body: ReadableStream<Uint8Array>,
+    text: string,
+    startTime: number,
+  ): AsyncGenerator<Buffer> {
+    const reader = body.getReader();
+    let audioSize = 0;
+    let firstChunkMs: number | undefined;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (!value || value.length === 0) continue;
+
+        firstChunkMs ??= Date.now() - startTime;
+        audioSize += value.length;
+        yield Buffer.from(value);
+      }
+
+      logger.debug(
+        { duration: Date.now() - startTime, firstChunkMs, textLength: text.length, audioSize },
+        'elevenlabs tts stream completed',
+      );
+    } finally {
+      await reader.cancel();
+    }
+  }
+
   async close(): Promise<void> {
     // ElevenLabs client doesn't require explicit cleanup
   }
@@ -1,4 +1,6 @@
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
 import { logger } from '../../utils/logger.js';
+
 import { LLMResult } from './types.js';
 
 /**
@@ -11,6 +13,7 @@ export enum LLMErrorType {
   AUTH_ERROR = 'auth_error',
   SERVER_ERROR = 'server_error',
   NETWORK_ERROR = 'network_error',
+  CANCELLED = 'cancelled',
   UNKNOWN = 'unknown',
 }
 
@@ -28,13 +31,19 @@ export class LLMError extends Error {
     this.name = 'LLMError';
   }
 
-  static fromError(error: unknown): LLMError {
+  static fromError(error: unknown, signal?: AbortSignal): LLMError {
     if (error instanceof LLMError) return error;
 
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorName = error instanceof Error ? error.name : '';
+    // The SDKs leave the name of their abort errors as plain "Error"
+    const errorClass = error instanceof Error ? error.constructor.name : '';
 
     // Classify error type
+    // Not by message: Node also says "aborted" when the server drops the connection
+    if (signal?.aborted || errorName === 'AbortError' || errorClass === 'APIUserAbortError') {
+      return new LLMError('LLM request cancelled', LLMErrorType.CANCELLED, false, error as Error);
+    }
     if (errorMessage.includes('timeout') || errorName.includes('Timeout')) {
       return new LLMError('LLM request timed out', LLMErrorType.TIMEOUT, true, error as Error);
     }
@@ -98,7 +107,10 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // A cancelled request says nothing about the health of the provider
+      if (!(error instanceof LLMError && error.type === LLMErrorType.CANCELLED)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -212,6 +224,42 @@ export function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<
   });
 }
 
+/**
+ * Add an idle timeout to a stream: when no event arrives within timeoutMs, the request
+ * is aborted and iteration fails with a timeout
+ */
+export async function* withIdleTimeout<T>(
+  stream: AsyncIterable<T> & { controller: AbortController },
+  timeoutMs: number,
+): AsyncGenerator<T> {
+  const iterator = stream[Symbol.asyncIterator]();
+
+  try {
+    for (;;) {
+      let timer: NodeJS.Timeout | undefined;
+      const idle = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          stream.controller.abort();
+          reject(new LLMError(`Stream idle for ${timeoutMs}ms`, LLMErrorType.TIMEOUT, true));
+        }, timeoutMs);
+      });
+
+      let next: IteratorResult<T>;
+      try {
+        next = await Promise.race([iterator.next(), idle]);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    // Close the stream when the consumer stops early
+    void iterator.return?.();
+  }
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -219,26 +267,40 @@ function sleep(ms: number): Promise<void> {
 /**
  * Fallback responses for when LLM completely fails
  */
-export const FALLBACK_RESPONSES: Record<string, string> = {
-  default: "I'm sorry, I'm having trouble processing your request right now. Could you please try again in a moment?",
-  greeting: "Hello! I'm here to help you with IT support. Please tell me your name to get started.",
-  name_collection: "Thank you. Could you please provide your email address?",
-  email_collection: "Got it. What's the best phone number to reach you?",
-  phone_collection: "Thanks. And what's your address?",
-  address_collection: "Perfect. Now, please describe the issue you're experiencing.",
-  issue_collection: "Let me review the details. Please confirm if everything looks correct.",
-  confirmation: "Your ticket has been created. Is there anything else I can help you with?",
-  error: "I apologize for the inconvenience. Our system is experiencing issues. Please try again shortly.",
+export const FALLBACK_RESPONSES: Record<Locale, Record<string, string> & { default: string }> = {
+  en: {
+    default: "I'm sorry, I'm having trouble processing your request right now. Could you please try again in a moment?",
+    greeting: "Hello! I'm here to help you with IT support. Please tell me your name to get started.",
+    name_collection: "Thank you. Could you please provide your email address?",
+    email_collection: "Got it. What's the best phone number to reach you?",
+    phone_collection: "Thanks. And what's your address?",
+    address_collection: "Perfect. Now, please describe the issue you're experiencing.",
+    issue_collection: "Let me review the details. Please confirm if everything looks correct.",
+    confirmation: "Your ticket has been created. Is there anything else I can help you with?",
+    error: "I apologize for the inconvenience. Our system is experiencing issues. Please try again shortly.",
+  },
+  es: {
+    default: "Lo siento, en este momento tengo problemas para procesar su solicitud. ¿Podría intentarlo de nuevo en un momento?",
+    greeting: "¡Hola! Estoy aquí para ayudarle con soporte de TI. Para empezar, dígame su nombre, por favor.",
+    name_collection: "Gracias. ¿Me podría dar su correo electrónico?",
+    email_collection: "Entendido. ¿Cuál es el mejor número de teléfono para contactarle?",
+    phone_collection: "Gracias. ¿Y cuál es su dirección?",
+    address_collection: "Perfecto. Ahora, describa el problema que tiene, por favor.",
+    issue_collection: "Voy a revisar los datos. Confirme si todo es correcto, por favor.",
+    confirmation: "Su ticket ha sido creado. ¿Hay algo más en lo que pueda ayudarle?",
+    error: "Disculpe las molestias. Nuestro sistema tiene problemas. Intente de nuevo en unos minutos, por favor.",
+  },
 };
 
 /**
  * Get fallback response based on conversation state
  */
-export function getFallbackResponse(state?: string): string {
-  if (state && FALLBACK_RESPONSES[state]) {
-    return FALLBACK_RESPONSES[state];
+export function getFallbackResponse(state?: string, locale: Locale = DEFAULT_LOCALE): string {
+  const responses = FALLBACK_RESPONSES[locale];
+  if (state && responses[state]) {
+    return responses[state];
   }
-  return FALLBACK_RESPONSES.default;
+  return responses.default;
 }
 
 /**
@@ -1,5 +1,12 @@
 import { logger } from '../../utils/logger.js';
-import { LLMMessage, LLMOptions, LLMProvider, LLMResult, ToolCall } from './types.js';
+import {
+  LLMMessage,
+  LLMOptions,
+  LLMProvider,
+  LLMResult,
+  LLMStreamEvent,
+  ToolCall,
+} from './types.js';
 
 type OllamaToolCall = {
   id?: string;
@@ -10,6 +17,14 @@ type OllamaToolCall = {
   };
 };
 
+type OllamaMessage = {
+  role: LLMMessage['role'];
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  // Tool results name the tool they answer
+  tool_name?: string;
+};
+
 type OllamaResponse = {
   message?: {
     content?: string;
@@ -17,6 +32,7 @@ type OllamaResponse = {
   };
   prompt_eval_count?: number;
   eval_count?: number;
+  done?: boolean;
   done_reason?: string;
 };
 
@@ -31,31 +47,7 @@ export class OllamaLLMProvider implements LLMProvider {
 
   async complete(messages: LLMMessage[], options?: LLMOptions): Promise<LLMResult> {
     try {
-      const payload = {
-        model: this.model,
-        stream: false,
-        messages: messages.map((message) => ({
-          role: message.role,
-          content: message.content,
-          tool_calls: message.toolCalls,
-        })),
-        tools: options?.tools,
-        options: {
-          temperature: options?.temperature,
-          num_predict: options?.maxTokens,
-        },
-      };
-
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Ollama chat error: ${response.status} ${errorText}`);
-      }
+      const response = await this.postChat(messages, options, false);
 
       const data = (await response.json()) as OllamaResponse;
       const content = data.message?.content ?? '';
@@ -66,32 +58,169 @@ export class OllamaLLMProvider implements LLMProvider {
         'ollama completion completed',
       );
 
-      return {
-        content,
-        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-        finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
-        usage: {
-          promptTokens: data.prompt_eval_count ?? 0,
-          completionTokens: data.eval_count ?? 0,
-          totalTokens: (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0),
-        },
-        metadata: {
-          provider: 'ollama',
-          model: this.model,
-          doneReason: data.done_reason,
-        },
-      };
+      return this.buildResult(content, toolCalls, data);
     } catch (error) {
       logger.error({ err: error }, 'ollama completion failed');
       throw error;
     }
   }
 
+  /**
+   * Stream a completion; Ollama sends newline-delimited JSON chunks and reports
+   * tool calls whole, so they can be passed straight through
+   */
+  async *stream(messages: LLMMessage[], options?: LLMOptions): AsyncIterable<LLMStreamEvent> {
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    let finalChunk: OllamaResponse = {};
+
+    try {
+      const response = await this.postChat(messages, options, true);
+      if (!response.body) {
+        throw new Error('Ollama chat error: empty response body');
+      }
+
+      const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+
+        const lines = buffered.split('\n');
+        buffered = done ? '' : (lines.pop() ?? '');
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          const chunk = JSON.parse(line) as OllamaResponse;
+          const delta = chunk.message?.content ?? '';
+          if (delta) {
+            content += delta;
+            yield { type: 'text', delta };
+          }
+
+          const chunkToolCalls = this.normalizeToolCalls(
+            chunk.message?.tool_calls ?? [],
+            toolCalls.length,
+          );
+          for (const toolCall of chunkToolCalls) {
+            toolCalls.push(toolCall);
+            yield { type: 'tool_call', toolCall };
+          }
+
+          if (chunk.done) {
+            finalChunk = chunk;
+          }
+        }
+
+        if (done) break;
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'ollama stream failed');
+      throw error;
+    }
+
+    logger.debug(
+      { model: this.model, toolCalls: toolCalls.length },
+      'ollama streamed completion completed',
+    );
+
+    yield { type: 'done', result: this.buildResult(content, toolCalls, finalChunk) };
+  }
+
   async close(): Promise<void> {
     // Ollama HTTP client doesn't require explicit cleanup
   }
 
-  private normalizeToolCalls(toolCalls: OllamaToolCall[]): ToolCall[] {
+  private async postChat(
+    messages: LLMMessage[],
+    options: LLMOptions | undefined,
+    stream: boolean,
+  ): Promise<Response> {
+    const payload = {
+      model: this.model,
+      stream,
+      messages: this.toOllamaMessages(messages),
+      tools: options?.tools,
+      options: {
+        temperature: options?.temperature,
+        num_predict: options?.maxTokens,
+      },
+    };
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Ollama chat error: ${response.status} ${errorText}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Ollama takes tool arguments as objects, and matches tool results to calls by tool name
+   */
+  private toOllamaMessages(messages: LLMMessage[]): OllamaMessage[] {
+    const toolNames = new Map<string, string>();
+
+    return messages.map((message) => {
+      if (message.role === 'tool') {
+        return {
+          role: message.role,
+          content: message.content,
+          tool_name: toolNames.get(message.toolCallId ?? ''),
+        };
+      }
+
+      const toolCalls = message.toolCalls?.map((toolCall) => {
+        toolNames.set(toolCall.id, toolCall.function.name);
+        return {
+          id: toolCall.id,
+          function: {
+            name: toolCall.function.name,
+            arguments: this.parseArguments(toolCall.function.arguments),
+          },
+        };
+      });
+      return { role: message.role, content: message.content, tool_calls: toolCalls };
+    });
+  }
+
+  private parseArguments(args: string): Record<string, unknown> {
+    try {
+      return JSON.parse(args || '{}') as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+
+  private buildResult(content: string, toolCalls: ToolCall[], data: OllamaResponse): LLMResult {
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+      usage: {
+        promptTokens: data.prompt_eval_count ?? 0,
+        completionTokens: data.eval_count ?? 0,
+        totalTokens: (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0),
+      },
+      metadata: {
+        provider: 'ollama',
+        model: this.model,
+        doneReason: data.done_reason,
+      },
+    };
+  }
+
+  private normalizeToolCalls(toolCalls: OllamaToolCall[], offset = 0): ToolCall[] {
     return toolCalls
       .map((call, index) => {
         let args = call.function?.arguments ?? '{}';
@@ -100,7 +229,7 @@ export class OllamaLLMProvider implements LLMProvider {
         }
         
         return {
-            id: call.id ?? `ollama-tool-${index}`,
+            id: call.id ?? `ollama-tool-${offset + index}`,
             type: 'function' as const,
             function: {
             name: call.function?.name ?? 'unknown',
@@ -0,0 +1,295 @@
+import OpenAI from 'openai';
+
+import { logger } from '../../utils/logger.js';
+
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_CONFIG,
+  LLMError,
+  RetryConfig,
+  withIdleTimeout,
+  withRetry,
+  withTimeout,
+} from './LLMErrorHandler.js';
+import {
+  LLMMessage,
+  LLMOptions,
+  LLMProvider,
+  LLMResult,
+  LLMStreamEvent,
+  ToolCall,
+} from './types.js';
+
+const DEFAULT_TIMEOUT_MS = 30000; // 30 seconds
+
+// Local OpenAI-compatible servers accept any key, but the client insists on one
+const NO_API_KEY = 'not-needed';
+
+type FinishReason = OpenAI.Chat.ChatCompletion.Choice['finish_reason'] | null | undefined;
+
+/**
+ * Our messages → chat completion messages (tool calls and results map one to one)
+ */
+const toOpenAIMessages = (messages: LLMMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] =>
+  messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+    switch (message.role) {
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId ?? '', content: message.content };
+      case 'assistant':
+        if (message.toolCalls?.length) {
+          return {
+            role: 'assistant',
+            content: message.content || null,
+            tool_calls: message.toolCalls,
+          };
+        }
+        return { role: 'assistant', content: message.content };
+      default:
+        return { role: message.role, content: message.content };
+    }
+  });
+
+const toFinishReason = (finishReason: FinishReason): LLMResult['finishReason'] => {
+  switch (finishReason) {
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_calls';
+    case 'length':
+      return 'length';
+    case 'content_filter':
+      return 'content_filter';
+    default:
+      return 'stop';
+  }
+};
+
+/**
+ * OpenAI chat completions, or any server that speaks the same API (vLLM, LM Studio,
+ * llama.cpp) when given its base URL
+ */
+export class OpenAILLMProvider implements LLMProvider {
+  private client: OpenAI;
+  private model: string;
+  private circuitBreaker: CircuitBreaker;
+  private retryConfig: RetryConfig;
+  private timeoutMs: number;
+
+  constructor(
+    apiKey: string,
+    model = 'gpt-4o-mini',
+    options?: {
+      baseUrl?: string;
+      retryConfig?: Partial<RetryConfig>;
+      timeoutMs?: number;
+      circuitBreaker?: CircuitBreaker;
+    },
+  ) {
+    this.client = new OpenAI({
+      apiKey: apiKey || NO_API_KEY,
+      baseURL: options?.baseUrl,
+      // Retried by withRetry, behind the circuit breaker
+      maxRetries: 0,
+    });
+    this.model = model;
+    this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...options?.retryConfig };
+    this.timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.circuitBreaker = options?.circuitBreaker ?? new CircuitBreaker();
+  }
+
+  async complete(messages: LLMMessage[], options?: LLMOptions): Promise<LLMResult> {
+    const startTime = Date.now();
+
+    // Use circuit breaker and retry logic
+    return this.circuitBreaker.execute(() =>
+      withRetry(
+        () => withTimeout(this.executeRequest(messages, options, startTime), this.timeoutMs),
+        this.retryConfig,
+      ),
+    );
+  }
+
+  /**
+   * Stream a completion; text deltas are yielded as they arrive and tool call
+   * arguments are accumulated until the response is complete
+   */
+  async *stream(messages: LLMMessage[], options?: LLMOptions): AsyncIterable<LLMStreamEvent> {
+    const startTime = Date.now();
+
+    // Only opening the stream is retried - once text has been yielded it cannot be replayed
+    const stream = await this.circuitBreaker.execute(() =>
+      withRetry(
+        () =>
+          withTimeout(
+            this.client.chat.completions.create(
+              {
+                ...this.buildRequestParams(messages, options),
+                stream: true,
+                stream_options: { include_usage: true },
+              },
+              { signal: options?.signal },
+            ),
+            this.timeoutMs,
+          ),
+        this.retryConfig,
+      ),
+    );
+
+    let content = '';
+    const pendingToolCalls = new Map<number, { id: string; name: string; json: string }>();
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let finishReason: FinishReason = null;
+
+    try {
+      // A connection that stalls mid-response would otherwise hold up the turn for good
+      for await (const chunk of withIdleTimeout(stream, this.timeoutMs)) {
+        // Sent last, with no choices, when include_usage is on
+        if (chunk.usage) {
+          promptTokens = chunk.usage.prompt_tokens;
+          completionTokens = chunk.usage.completion_tokens;
+        }
+
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+
+        const delta = choice.delta.content;
+        if (delta) {
+          content += delta;
+          yield { type: 'text', delta };
+        }
+
+        // The id and name come with the first fragment of each call, the arguments in pieces
+        for (const fragment of choice.delta.tool_calls ?? []) {
+          const pending = pendingToolCalls.get(fragment.index) ?? { id: '', name: '', json: '' };
+          pending.id ||= fragment.id ?? '';
+          pending.name ||= fragment.function?.name ?? '';
+          pending.json += fragment.function?.arguments ?? '';
+          pendingToolCalls.set(fragment.index, pending);
+        }
+
+        finishReason = choice.finish_reason ?? finishReason;
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'openai stream failed');
+      throw LLMError.fromError(error, options?.signal);
+    }
+
+    const toolCalls: ToolCall[] = [...pendingToolCalls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, pending]) => ({
+        id: pending.id || `openai-tool-${index}`,
+        type: 'function',
+        function: { name: pending.name, arguments: pending.json || '{}' },
+      }));
+    for (const toolCall of toolCalls) {
+      yield { type: 'tool_call', toolCall };
+    }
+
+    logger.debug(
+      {
+        duration: Date.now() - startTime,
+        promptTokens,
+        completionTokens,
+        toolCalls: toolCalls.length,
+      },
+      'openai streamed completion',
+    );
+
+    yield {
+      type: 'done',
+      result: {
+        content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        finishReason: toFinishReason(finishReason),
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        metadata: {
+          provider: 'openai',
+          model: this.model,
+          streamed: true,
+        },
+      },
+    };
+  }
+
+  /**
+   * Convert our messages and options to a chat completion request
+   */
+  private buildRequestParams(
+    messages: LLMMessage[],
+    options: LLMOptions | undefined,
+  ): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    const requestParams: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: this.model,
+      max_tokens: options?.maxTokens ?? 1024,
+      temperature: options?.temperature ?? 0.7,
+      messages: toOpenAIMessages(messages),
+    };
+
+    // Add tools if provided
+    if (options?.tools && options.tools.length > 0) {
+      requestParams.tools = options.tools;
+      if (options.toolChoice) {
+        requestParams.tool_choice = options.toolChoice;
+      }
+    }
+
+    return requestParams;
+  }
+
+  private async executeRequest(
+    messages: LLMMessage[],
+    options: LLMOptions | undefined,
+    startTime: number,
+  ): Promise<LLMResult> {
+    try {
+      const response = await this.client.chat.completions.create(
+        this.buildRequestParams(messages, options),
+        { signal: options?.signal },
+      );
+
+      const duration = Date.now() - startTime;
+      const choice = response.choices[0];
+      const toolCalls: ToolCall[] = (choice?.message.tool_calls ?? []).map((toolCall) => ({
+        id: toolCall.id,
+        type: 'function',
+        function: {
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments || '{}',
+        },
+      }));
+      const promptTokens = response.usage?.prompt_tokens ?? 0;
+      const completionTokens = response.usage?.completion_tokens ?? 0;
+
+      logger.debug(
+        { duration, promptTokens, completionTokens, toolCalls: toolCalls.length },
+        'openai completion',
+      );
+
+      return {
+        content: choice?.message.content ?? '',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        finishReason: toFinishReason(choice?.finish_reason),
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        metadata: {
+          provider: 'openai',
+          model: response.model || this.model,
+        },
+      };
+    } catch (error) {
+      logger.error({ err: error }, 'openai completion failed');
+      throw LLMError.fromError(error, options?.signal);
+    }
+  }
+
+  async close(): Promise<void> {
+    // OpenAI client doesn't require explicit cleanup
+  }
+}
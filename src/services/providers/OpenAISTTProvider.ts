@@ -0,0 +1,96 @@
+import OpenAI, { toFile } from 'openai';
+
+import { logger } from '../../utils/logger.js';
+import { encodeWav } from '../audio/audioFormat.js';
+
+import { STTOptions, STTProvider, STTResult } from './types.js';
+
+// Local OpenAI-compatible servers accept any key, but the client insists on one
+const NO_API_KEY = 'not-needed';
+
+// The gpt-4o transcription models only answer in plain json (no segments or word timings)
+const JSON_ONLY_MODELS = /^gpt-4o/;
+
+type VerboseTranscription = {
+  text?: string;
+  language?: string;
+  duration?: number;
+  words?: Array<{ word: string; start: number; end: number }>;
+};
+
+/**
+ * OpenAI transcription API (Whisper), or any server that speaks it (e.g. faster-whisper
+ * servers) when given its base URL
+ * Utterances are sent whole, as the 16 kHz mono PCM buffered by the agent wrapped in WAV
+ */
+export class OpenAISTTProvider implements STTProvider {
+  private client: OpenAI;
+  private model: string;
+  private language?: string;
+  private prompt?: string;
+
+  constructor(
+    apiKey: string,
+    model = 'whisper-1',
+    options?: {
+      baseUrl?: string;
+      // Used when the conversation gives no language hint; Whisper detects it otherwise
+      language?: string;
+      // Spellings the model should prefer (product names, email domains)
+      prompt?: string;
+    },
+  ) {
+    this.client = new OpenAI({ apiKey: apiKey || NO_API_KEY, baseURL: options?.baseUrl });
+    this.model = model;
+    this.language = options?.language;
+    this.prompt = options?.prompt;
+  }
+
+  async transcribe(audioBuffer: Buffer, options: STTOptions = {}): Promise<STTResult> {
+    const startTime = Date.now();
+    const verbose = !JSON_ONLY_MODELS.test(this.model);
+    const language = options.language ?? this.language;
+
+    try {
+      const wavBuffer = encodeWav(audioBuffer, { sampleRate: 16000, channels: 1 });
+      const response = (await this.client.audio.transcriptions.create({
+        file: await toFile(wavBuffer, 'audio.wav', { type: 'audio/wav' }),
+        model: this.model,
+        ...(language && { language }),
+        ...(this.prompt && { prompt: this.prompt }),
+        ...(verbose
+          ? { response_format: 'verbose_json', timestamp_granularities: ['word'] }
+          : { response_format: 'json' }),
+      })) as VerboseTranscription;
+
+      const duration = Date.now() - startTime;
+      const text = response.text?.trim() ?? '';
+
+      logger.debug(
+        { duration, textLength: text.length, words: response.words?.length },
+        'openai transcription completed',
+      );
+
+      // No confidence: Whisper's segment log probabilities are not calibrated, and clean
+      // speech would often fall below the read-back thresholds
+      return {
+        text,
+        duration,
+        metadata: {
+          provider: 'openai',
+          model: this.model,
+          ...(response.language && { language: response.language }),
+          ...(response.duration !== undefined && { audioDuration: response.duration }),
+          ...(response.words && { words: response.words }),
+        },
+      };
+    } catch (error) {
+      logger.error({ err: error }, 'openai transcription failed');
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    // OpenAI client doesn't require explicit cleanup
+  }
+}
@@ -1,7 +1,7 @@
 import OpenAI from 'openai';
 
 import { logger } from '../../utils/logger.js';
-import { TTSProvider, TTSResult } from './types.js';
+import { TTSProvider, TTSResult, TTSStream } from './types.js';
 
 export class OpenAITTSProvider implements TTSProvider {
   private client: OpenAI;
@@ -23,12 +23,7 @@ export class OpenAITTSProvider implements TTSProvider {
     const startTime = Date.now();
 
     try {
-      const response = await this.client.audio.speech.create({
-        model: this.model,
-        voice: this.voice as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer',
-        input: text,
-        response_format: 'pcm', // Raw PCM: 24kHz, 16-bit signed little-endian mono
-      });
+      const response = await this.request(text);
 
       const audioBuffer = Buffer.from(await response.arrayBuffer());
       const duration = Date.now() - startTime;
@@ -40,22 +35,80 @@ export class OpenAITTSProvider implements TTSProvider {
 
       return {
         audio: audioBuffer,
+        format: {
+          sampleRate: OpenAITTSProvider.SAMPLE_RATE,
+          channels: OpenAITTSProvider.CHANNELS,
+        },
         duration,
         metadata: {
           provider: 'openai',
           model: this.model,
           voice: this.voice,
+        },
+      };
+    } catch (error) {
+      logger.error({ err: error }, 'openai tts synthesis failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Synthesize and yield PCM chunks as the response body arrives
+   */
+  async synthesizeStream(text: string): Promise<TTSStream> {
+    const startTime = Date.now();
+
+    try {
+      const response = await this.request(text);
+
+      return {
+        format: {
           sampleRate: OpenAITTSProvider.SAMPLE_RATE,
           channels: OpenAITTSProvider.CHANNELS,
-          format: 'pcm',
         },
+        chunks: this.readChunks(response.body, text, startTime),
       };
     } catch (error) {
-      logger.error({ err: error }, 'openai tts synthesis failed');
+      logger.error({ err: error }, 'openai tts stream failed');
       throw error;
     }
   }
 
+  private request(text: string) {
+    return this.client.audio.speech.create({
+      model: this.model,
+      voice: this.voice as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer',
+      input: text,
+      response_format: 'pcm', // Raw PCM: 24kHz, 16-bit signed little-endian mono
+    });
+  }
+
+  /**
+   * Stopping iteration early (barge-in) destroys the body and aborts the download
+   */
+  private async *readChunks(
+    body: NodeJS.ReadableStream,
+    text: string,
+    startTime: number,
+  ): AsyncGenerator<Buffer> {
+    let audioSize = 0;
+    let firstChunkMs: number | undefined;
+
+    for await (const chunk of body) {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      if (buffer.length === 0) continue;
+
+      firstChunkMs ??= Date.now() - startTime;
+      audioSize += buffer.length;
+      yield buffer;
+    }
+
+    logger.debug(
+      { duration: Date.now() - startTime, firstChunkMs, textLength: text.length, audioSize },
+      'openai tts stream completed',
+    );
+  }
+
   async close(): Promise<void> {
     // OpenAI client doesn't require explicit cleanup
   }
@@ -1,5 +1,8 @@
+import { Readable } from 'node:stream';
+
 import { logger } from '../../utils/logger.js';
-import { TTSProvider, TTSResult } from './types.js';
+import { AudioContainer, decodeAudio } from '../audio/audioFormat.js';
+import { TTSProvider, TTSResult, TTSStream } from './types.js';
 
 type PiperJsonResponse = {
   audio?: string;
@@ -9,9 +12,9 @@ type PiperJsonResponse = {
 export class PiperTTSProvider implements TTSProvider {
   private baseUrl: string;
   private voice: string;
-  private format: string;
+  private format: AudioContainer;
 
-  constructor(baseUrl: string, voice: string, format: string) {
+  constructor(baseUrl: string, voice: string, format: AudioContainer) {
     this.baseUrl = baseUrl.replace(/\/$/, '');
     this.voice = voice;
     this.format = format;
@@ -44,14 +47,21 @@ export class PiperTTSProvider implements TTSProvider {
         audioBuffer = Buffer.from(arrayBuffer);
       }
 
-      logger.debug({ voice: this.voice, format: this.format }, 'piper tts synthesis completed');
+      // Piper returns a WAV (or MP3) file rather than raw PCM, usually at 22.05kHz
+      const { pcm, format } = await decodeAudio(audioBuffer, this.format);
+
+      logger.debug(
+        { voice: this.voice, format: this.format, sampleRate: format.sampleRate },
+        'piper tts synthesis completed',
+      );
 
       return {
-        audio: audioBuffer,
+        audio: pcm,
+        format,
         metadata: {
           provider: 'piper',
           voice: this.voice,
-          format: this.format,
+          sourceFormat: this.format,
         },
       };
     } catch (error) {
@@ -60,6 +70,18 @@ export class PiperTTSProvider implements TTSProvider {
     }
   }
 
+  /**
+   * Piper returns the whole clip in one response, so it is yielded as a single chunk
+   */
+  async synthesizeStream(text: string): Promise<TTSStream> {
+    const result = await this.synthesize(text);
+
+    return {
+      format: result.format,
+      chunks: Readable.from([result.audio]) as AsyncIterable<Buffer>,
+    };
+  }
+
   async close(): Promise<void> {
     // No cleanup needed
   }
@@ -1,21 +1,32 @@
 import { loadEnv } from '../../config/env.js';
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
 import { logger } from '../../utils/logger.js';
 
 import { AnthropicLLMProvider } from './AnthropicLLMProvider.js';
+import { CachingTTSProvider } from './CachingTTSProvider.js';
 import { DeepgramSTTProvider } from './DeepgramSTTProvider.js';
 import { ElevenLabsTTSProvider } from './ElevenLabsTTSProvider.js';
 import { OllamaLLMProvider } from './OllamaLLMProvider.js';
+import { OpenAILLMProvider } from './OpenAILLMProvider.js';
+import { OpenAISTTProvider } from './OpenAISTTProvider.js';
 import { OpenAITTSProvider } from './OpenAITTSProvider.js';
 import { PiperTTSProvider } from './PiperTTSProvider.js';
+import { TTSCache, TTSVoice } from './TTSCache.js';
 import { WhisperCppSTTProvider } from './WhisperCppSTTProvider.js';
 import { LLMProvider, STTProvider, TTSProvider } from './types.js';
 
+// Piper voices speak a single language; the OpenAI and ElevenLabs voices are multilingual
+const PIPER_LOCALE_VOICES: Partial<Record<Locale, string>> = {
+  es: 'es_MX-claude-high',
+};
+
 /**
  * Provider factory for creating STT, LLM, and TTS instances
  * Supports easy switching between providers via environment config
  */
 export class ProviderFactory {
   private static config = loadEnv();
+  private static ttsCache: TTSCache | null = null;
 
   /**
    * Create STT provider based on configuration
@@ -32,11 +43,23 @@ export class ProviderFactory {
         return new DeepgramSTTProvider(this.config.DEEPGRAM_API_KEY);
 
       case 'openai':
-        if (!this.config.OPENAI_API_KEY) {
+        // Local OpenAI-compatible servers don't need a key
+        if (!this.config.OPENAI_API_KEY && !this.config.OPENAI_STT_BASE_URL) {
           throw new Error('OPENAI_API_KEY is required for OpenAI STT');
         }
-        logger.info('initializing OpenAI Whisper STT provider (not implemented)');
-        throw new Error('OpenAI STT provider not implemented yet');
+        logger.info(
+          { model: this.config.OPENAI_STT_MODEL, baseUrl: this.config.OPENAI_STT_BASE_URL },
+          'initializing OpenAI Whisper STT provider',
+        );
+        return new OpenAISTTProvider(
+          this.config.OPENAI_API_KEY ?? '',
+          this.config.OPENAI_STT_MODEL,
+          {
+            baseUrl: this.config.OPENAI_STT_BASE_URL,
+            language: this.config.OPENAI_STT_LANGUAGE,
+            prompt: this.config.OPENAI_STT_PROMPT,
+          },
+        );
 
       case 'whispercpp':
         logger.info(
@@ -69,11 +92,17 @@ export class ProviderFactory {
         return new AnthropicLLMProvider(this.config.ANTHROPIC_API_KEY, this.config.LLM_MODEL);
 
       case 'openai':
-        if (!this.config.OPENAI_API_KEY) {
+        // Local OpenAI-compatible servers don't need a key
+        if (!this.config.OPENAI_API_KEY && !this.config.OPENAI_LLM_BASE_URL) {
           throw new Error('OPENAI_API_KEY is required for OpenAI LLM');
         }
-        logger.info('initializing OpenAI LLM provider (not implemented)');
-        throw new Error('OpenAI LLM provider not implemented yet');
+        logger.info(
+          { model: this.config.LLM_MODEL, baseUrl: this.config.OPENAI_LLM_BASE_URL },
+          'initializing OpenAI LLM provider',
+        );
+        return new OpenAILLMProvider(this.config.OPENAI_API_KEY ?? '', this.config.LLM_MODEL, {
+          baseUrl: this.config.OPENAI_LLM_BASE_URL,
+        });
 
       case 'ollama':
         logger.info(
@@ -88,10 +117,28 @@ export class ProviderFactory {
   }
 
   /**
-   * Create TTS provider based on configuration
+   * Create TTS provider based on configuration, behind the disk cache unless it is disabled
+   * The voice is the one configured for the locale (TTS_LOCALE_VOICES)
    */
-  static createTTSProvider(): TTSProvider {
+  static createTTSProvider(locale: Locale = DEFAULT_LOCALE): TTSProvider {
+    const tts = this.createUncachedTTSProvider(locale);
+    if (this.config.TTS_CACHE_MAX_MB <= 0) {
+      return tts;
+    }
+
+    // One cache per process, so its size bound holds across every call's provider
+    this.ttsCache ??= new TTSCache({
+      dir: this.config.TTS_CACHE_DIR,
+      maxBytes: this.config.TTS_CACHE_MAX_MB * 1024 * 1024,
+      // Voice agent output: 24kHz mono
+      format: { sampleRate: 24000, channels: 1 },
+    });
+    return new CachingTTSProvider(tts, this.ttsCache, this.getTTSVoice(locale));
+  }
+
+  private static createUncachedTTSProvider(locale: Locale): TTSProvider {
     const provider = this.config.TTS_PROVIDER;
+    const voice = this.getVoiceName(locale);
 
     switch (provider) {
       case 'openai':
@@ -99,37 +146,33 @@ export class ProviderFactory {
           throw new Error('OPENAI_API_KEY is required for OpenAI TTS');
         }
         logger.info(
-          { model: this.config.TTS_MODEL, voice: this.config.OPENAI_TTS_VOICE },
+          { model: this.config.TTS_MODEL, voice, locale },
           'initializing OpenAI TTS provider',
         );
-        return new OpenAITTSProvider(
-          this.config.OPENAI_API_KEY,
-          this.config.TTS_MODEL,
-          this.config.OPENAI_TTS_VOICE,
-        );
+        return new OpenAITTSProvider(this.config.OPENAI_API_KEY, this.config.TTS_MODEL, voice);
 
       case 'elevenlabs':
         if (!this.config.ELEVENLABS_API_KEY) {
           throw new Error('ELEVENLABS_API_KEY is required for ElevenLabs TTS');
         }
         logger.info(
-          { voice: this.config.ELEVENLABS_VOICE_ID, model: this.config.ELEVENLABS_MODEL_ID },
+          { voice, model: this.config.ELEVENLABS_MODEL_ID, locale },
           'initializing ElevenLabs TTS provider',
         );
         return new ElevenLabsTTSProvider(
           this.config.ELEVENLABS_API_KEY,
-          this.config.ELEVENLABS_VOICE_ID,
+          voice,
           this.config.ELEVENLABS_MODEL_ID,
         );
 
       case 'piper':
         logger.info(
-          { baseUrl: this.config.PIPER_BASE_URL, voice: this.config.PIPER_VOICE },
+          { baseUrl: this.config.PIPER_BASE_URL, voice, locale },
           'initializing Piper TTS provider',
         );
         return new PiperTTSProvider(
           this.config.PIPER_BASE_URL,
-          this.config.PIPER_VOICE,
+          voice,
           this.config.PIPER_AUDIO_FORMAT,
         );
 
@@ -139,9 +182,45 @@ export class ProviderFactory {
   }
 
   /**
-   * Create all providers at once
+   * Voice for a locale: TTS_LOCALE_VOICES, then a built-in Piper voice, then the provider's voice
+   */
+  private static getVoiceName(locale: Locale): string {
+    const configured = this.config.TTS_LOCALE_VOICES[locale];
+    if (configured) {
+      return configured;
+    }
+
+    switch (this.config.TTS_PROVIDER) {
+      case 'openai':
+        return this.config.OPENAI_TTS_VOICE;
+      case 'elevenlabs':
+        return this.config.ELEVENLABS_VOICE_ID;
+      case 'piper':
+        return (
+          (locale !== DEFAULT_LOCALE && PIPER_LOCALE_VOICES[locale]) || this.config.PIPER_VOICE
+        );
+    }
+  }
+
+  /**
+   * The voice used for a locale, which keys the TTS cache
+   */
+  private static getTTSVoice(locale: Locale): TTSVoice {
+    const voice = this.getVoiceName(locale);
+    switch (this.config.TTS_PROVIDER) {
+      case 'openai':
+        return { provider: 'openai', voice, model: this.config.TTS_MODEL };
+      case 'elevenlabs':
+        return { provider: 'elevenlabs', voice, model: this.config.ELEVENLABS_MODEL_ID };
+      case 'piper':
+        return { provider: 'piper', voice, model: 'piper' };
+    }
+  }
+
+  /**
+   * Create all providers at once, with the TTS voice for the locale
    */
-  static createAllProviders(): {
+  static createAllProviders(locale: Locale = DEFAULT_LOCALE): {
     stt: STTProvider;
     llm: LLMProvider;
     tts: TTSProvider;
@@ -149,7 +228,7 @@ export class ProviderFactory {
     return {
       stt: this.createSTTProvider(),
       llm: this.createLLMProvider(),
-      tts: this.createTTSProvider(),
+      tts: this.createTTSProvider(locale),
     };
   }
 }
@@ -0,0 +1,162 @@
+import { createHash } from 'node:crypto';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import path from 'node:path';
+
+import { logger } from '../../utils/logger.js';
+
+import { PcmFormat } from './types.js';
+
+export interface TTSCacheOptions {
+  dir: string;
+  maxBytes: number;
+  // Every entry is stored in this layout, whatever the provider returned
+  format: PcmFormat;
+}
+
+/**
+ * What a phrase sounds like: the same text from another voice or model is another entry
+ */
+export interface TTSVoice {
+  provider: string;
+  voice: string;
+  model: string;
+}
+
+const ENTRY_EXTENSION = '.pcm';
+
+/**
+ * Synthesized PCM on local disk, one file per phrase
+ * Least recently used entries are evicted once the directory grows past maxBytes
+ * Share one instance per directory so the size bound holds across providers
+ */
+export class TTSCache {
+  // Entry size by key, in recency order (least recently used first)
+  private entries = new Map<string, number>();
+  private totalBytes = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private readonly options: TTSCacheOptions) {}
+
+  get format(): PcmFormat {
+    return this.options.format;
+  }
+
+  keyFor(voice: TTSVoice, text: string): string {
+    const { sampleRate, channels } = this.options.format;
+    return createHash('sha256')
+      .update(
+        JSON.stringify([voice.provider, voice.voice, voice.model, sampleRate, channels, text]),
+      )
+      .digest('hex');
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    await this.load();
+    if (!this.entries.has(key)) return undefined;
+
+    const file = this.pathFor(key);
+    try {
+      const pcm = await readFile(file);
+      this.track(key, pcm.length);
+      // Recency survives a restart through the file's mtime
+      const now = new Date();
+      void utimes(file, now, now).catch(() => undefined);
+      return pcm;
+    } catch (error) {
+      logger.warn({ err: error, key }, 'failed to read tts cache entry');
+      this.untrack(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, pcm: Buffer): Promise<void> {
+    await this.load();
+    if (pcm.length === 0 || pcm.length > this.options.maxBytes) return;
+
+    // Written aside and renamed so a reader never sees half an entry
+    const file = this.pathFor(key);
+    const partial = `${file}.${process.pid}.partial`;
+    await writeFile(partial, pcm);
+    await rename(partial, file);
+
+    this.track(key, pcm.length);
+    await this.evict();
+  }
+
+  get size(): { entries: number; bytes: number } {
+    return { entries: this.entries.size, bytes: this.totalBytes };
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.readIndex();
+    return this.loading;
+  }
+
+  private async readIndex(): Promise<void> {
+    await mkdir(this.options.dir, { recursive: true });
+
+    const found: Array<{ key: string; size: number; usedAt: number }> = [];
+    for (const name of await readdir(this.options.dir)) {
+      if (!name.endsWith(ENTRY_EXTENSION)) continue;
+      try {
+        const info = await stat(path.join(this.options.dir, name));
+        found.push({
+          key: name.slice(0, -ENTRY_EXTENSION.length),
+          size: info.size,
+          usedAt: info.mtimeMs,
+        });
+      } catch {
+        // Evicted by another process in the meantime
+      }
+    }
+
+    found.sort((a, b) => a.usedAt - b.usedAt);
+    for (const entry of found) {
+      this.track(entry.key, entry.size);
+    }
+    logger.info({ dir: this.options.dir, ...this.size }, 'tts cache loaded');
+
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    for (const [key] of this.entries) {
+      if (this.totalBytes <= this.options.maxBytes) break;
+
+      this.untrack(key);
+      try {
+        await unlink(this.pathFor(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn({ err: error, key }, 'failed to evict tts cache entry');
+        }
+      }
+    }
+  }
+
+  private track(key: string, size: number): void {
+    this.untrack(key);
+    this.entries.set(key, size);
+    this.totalBytes += size;
+  }
+
+  private untrack(key: string): void {
+    const size = this.entries.get(key);
+    if (size === undefined) return;
+    this.entries.delete(key);
+    this.totalBytes -= size;
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.options.dir, `${key}${ENTRY_EXTENSION}`);
+  }
+}
@@ -1,5 +1,6 @@
 import { logger } from '../../utils/logger.js';
-import { STTProvider, STTResult } from './types.js';
+import { encodeWav } from '../audio/audioFormat.js';
+import { STTOptions, STTProvider, STTResult } from './types.js';
 
 type WhisperCppResponse = {
   text?: string;
@@ -20,9 +21,9 @@ export class WhisperCppSTTProvider implements STTProvider {
     this.apiStyle = apiStyle;
   }
 
-  async transcribe(audioBuffer: Buffer): Promise<STTResult> {
+  async transcribe(audioBuffer: Buffer, options: STTOptions = {}): Promise<STTResult> {
     try {
-      const wavBuffer = this.buildWavBuffer(audioBuffer, 16000, 1);
+      const wavBuffer = encodeWav(audioBuffer, { sampleRate: 16000, channels: 1 });
       const form = new FormData();
       
       let url = `${this.baseUrl}/inference`;
@@ -34,12 +35,20 @@ export class WhisperCppSTTProvider implements STTProvider {
       } else if (this.apiStyle === 'onerahmet') {
         // Correct endpoint for onerahmet/openai-whisper-asr-webservice
         url = `${this.baseUrl}/asr?task=transcribe&output=json`;
+        if (options.language) {
+          url += `&language=${encodeURIComponent(options.language)}`;
+        }
         form.append('audio_file', new Blob([wavBuffer], { type: 'audio/wav' }), 'audio.wav');
       } else {
         // whispercpp
         form.append('file', new Blob([wavBuffer], { type: 'audio/wav' }), 'audio.wav');
       }
 
+      // Whisper detects the language itself when none is given
+      if (options.language && this.apiStyle !== 'onerahmet') {
+        form.append('language', options.language);
+      }
+
       logger.debug({ url, apiStyle: this.apiStyle }, 'sending audio to STT');
 
       const response = await fetch(url, {
@@ -83,29 +92,4 @@ export class WhisperCppSTTProvider implements STTProvider {
   async close(): Promise<void> {
     // No cleanup needed
   }
-
-  private buildWavBuffer(pcmBuffer: Buffer, sampleRate: number, channels: number): Buffer {
-    const byteRate = sampleRate * channels * 2;
-    const blockAlign = channels * 2;
-    const dataSize = pcmBuffer.length;
-    const headerSize = 44;
-    const buffer = Buffer.alloc(headerSize + dataSize);
-
-    buffer.write('RIFF', 0);
-    buffer.writeUInt32LE(36 + dataSize, 4);
-    buffer.write('WAVE', 8);
-    buffer.write('fmt ', 12);
-    buffer.writeUInt32LE(16, 16);
-    buffer.writeUInt16LE(1, 20); // PCM
-    buffer.writeUInt16LE(channels, 22);
-    buffer.writeUInt32LE(sampleRate, 24);
-    buffer.writeUInt32LE(byteRate, 28);
-    buffer.writeUInt16LE(blockAlign, 32);
-    buffer.writeUInt16LE(16, 34); // bits per sample
-    buffer.write('data', 36);
-    buffer.writeUInt32LE(dataSize, 40);
-
-    pcmBuffer.copy(buffer, headerSize);
-    return buffer;
-  }
 }
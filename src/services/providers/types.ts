@@ -2,10 +2,39 @@
  * Speech-to-Text provider interface
  */
 export interface STTProvider {
-  transcribe(audioBuffer: Buffer): Promise<STTResult>;
+  transcribe(audioBuffer: Buffer, options?: STTOptions): Promise<STTResult>;
+  /**
+   * Optional streaming variant: audio is pushed while the caller is still talking
+   * Providers without it are used through transcribe() on the buffered utterance
+   */
+  createStream?(options?: STTStreamOptions): STTStream;
   close(): Promise<void>;
 }
 
+export interface STTOptions {
+  // Language of the speech ("en", "es"); without it the provider detects or assumes its default
+  language?: string;
+}
+
+export interface STTStreamOptions extends STTOptions {
+  // Partial hypothesis for the audio so far (may still change)
+  onInterim?: (result: STTResult) => void;
+  // A segment of the utterance the provider will not revise any more
+  onFinal?: (result: STTResult) => void;
+}
+
+/**
+ * Streaming STT session for a single utterance
+ * Audio is 16kHz, 16-bit mono PCM (same as transcribe)
+ */
+export interface STTStream {
+  write(audio: Buffer): void;
+  // End of utterance: flush the provider and resolve with the full transcript
+  finish(): Promise<STTResult>;
+  // Drop the session without waiting for a result
+  abort(): void;
+}
+
 export interface STTResult {
   text: string;
   confidence?: number;
@@ -17,12 +46,35 @@ export interface STTResult {
  * Text-to-Speech provider interface
  */
 export interface TTSProvider {
+  // Accepts SSML <break> tags inline in the text
+  readonly ssml?: boolean;
   synthesize(text: string): Promise<TTSResult>;
+  /**
+   * Streaming variant: PCM is yielded as it downloads so playback can start on the first chunk
+   * Resolves once the provider has accepted the request (errors before any audio reject here)
+   */
+  synthesizeStream(text: string): Promise<TTSStream>;
   close(): Promise<void>;
 }
 
+/**
+ * Raw 16-bit signed little-endian PCM layout
+ */
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+export interface TTSStream {
+  format: PcmFormat;
+  // Chunk boundaries are arbitrary (not aligned to frames or even samples)
+  chunks: AsyncIterable<Buffer>;
+}
+
 export interface TTSResult {
+  // Raw PCM, already decoded from whatever container the provider returns
   audio: Buffer;
+  format: PcmFormat;
   duration?: number;
   metadata?: Record<string, unknown>;
 }
@@ -32,9 +84,19 @@ export interface TTSResult {
  */
 export interface LLMProvider {
   complete(messages: LLMMessage[], options?: LLMOptions): Promise<LLMResult>;
+  /**
+   * Optional streaming variant: text arrives as it is generated
+   * Tool calls are only emitted once complete; the last event is always 'done'
+   */
+  stream?(messages: LLMMessage[], options?: LLMOptions): AsyncIterable<LLMStreamEvent>;
   close(): Promise<void>;
 }
 
+export type LLMStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; toolCall: ToolCall }
+  | { type: 'done'; result: LLMResult };
+
 export interface LLMMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
@@ -56,6 +118,8 @@ export interface LLMOptions {
   maxTokens?: number;
   tools?: ToolDefinition[];
   toolChoice?: 'auto' | 'required' | { type: 'function'; function: { name: string } };
+  // Cancels the request (e.g. the caller kept talking and the turn is restarted)
+  signal?: AbortSignal;
 }
 
 export interface ToolDefinition {
@@ -0,0 +1,127 @@
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
+
+/**
+ * Rewrites bot text into something TTS reads the way a person would say it
+ * Each rule only produces words, spaced digits and pauses, so later rules never re-match its output
+ */
+
+export interface SpeechOptions {
+  // Pauses as SSML <break> tags (for providers that accept them) instead of commas
+  ssml?: boolean;
+  // Language the symbols and currency are spoken in
+  locale?: Locale;
+}
+
+type SpeechRule = (text: string, options?: SpeechOptions) => string;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN =
+  /(?<![\w+])(?:\+(\d{1,3}?)[\s.-]?)?(?:\((\d{3})\)|(\d{3}))[\s.-]?(\d{3})[\s.-]?(\d{4})(?!\d)/g;
+const PRICE_PATTERN = /\$(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{2}))?(?!\d)/g;
+// Long letter-and-digit tokens: cuid ticket numbers and similar IDs
+const ID_PATTERN = /\b(?=[a-z0-9]*\d)(?=[a-z0-9]*[a-z])[a-z0-9]{16,}\b/gi;
+
+interface SpeechWords {
+  // Email symbols, "@" included; "+" doubles as the country code prefix
+  symbols: Record<string, string>;
+  dollar: [string, string];
+  cent: [string, string];
+  and: string;
+}
+
+const SPEECH_WORDS: Record<Locale, SpeechWords> = {
+  en: {
+    symbols: { '@': 'at', '.': 'dot', '-': 'dash', _: 'underscore', '+': 'plus' },
+    dollar: ['dollar', 'dollars'],
+    cent: ['cent', 'cents'],
+    and: 'and',
+  },
+  es: {
+    symbols: { '@': 'arroba', '.': 'punto', '-': 'guion', _: 'guion bajo', '+': 'más' },
+    dollar: ['dólar', 'dólares'],
+    cent: ['centavo', 'centavos'],
+    and: 'y',
+  },
+};
+
+const wordsFor = (options?: SpeechOptions): SpeechWords =>
+  SPEECH_WORDS[options?.locale ?? DEFAULT_LOCALE];
+
+const ID_GROUP_SIZE = 4;
+
+const pause = (options?: SpeechOptions): string =>
+  options?.ssml ? ' <break time="300ms"/> ' : ', ';
+
+const spellDigits = (digits: string): string => digits.split('').join(' ');
+
+/**
+ * "sarah.j99@company.com" → "sarah dot j 9 9 at company dot com"
+ */
+export const speakEmails: SpeechRule = (text, options) =>
+  text.replace(EMAIL_PATTERN, (email) => {
+    const { symbols } = wordsFor(options);
+    const spoken = email
+      .toLowerCase()
+      .split(/([.+_-]|@|\d+)/)
+      .filter(Boolean)
+      .map((part) => {
+        if (/^\d+$/.test(part)) return spellDigits(part);
+        return symbols[part] ?? part;
+      });
+    return spoken.join(' ');
+  });
+
+/**
+ * "(510) 555-1234" → "5 1 0, 5 5 5, 1 2 3 4", digit by digit with a pause between groups
+ */
+export const speakPhoneNumbers: SpeechRule = (text, options) =>
+  text.replace(
+    PHONE_PATTERN,
+    (_match, country?: string, bracketedArea?: string, area?: string, exchange = '', line = '') => {
+      const groups = [bracketedArea ?? area ?? '', exchange, line].map(spellDigits);
+      if (country) groups.unshift(`${wordsFor(options).symbols['+']} ${spellDigits(country)}`);
+      return groups.join(pause(options));
+    },
+  );
+
+/**
+ * "$25" → "25 dollars", "$9.50" → "9 dollars and 50 cents", "$0.99" → "99 cents"
+ */
+export const speakPrices: SpeechRule = (text, options) =>
+  text.replace(PRICE_PATTERN, (_match, whole: string, fraction?: string) => {
+    const words = wordsFor(options);
+    const dollars = Number(whole.replace(/,/g, ''));
+    const cents = fraction ? Number(fraction) : 0;
+
+    const parts: string[] = [];
+    if (dollars > 0 || cents === 0) parts.push(`${dollars} ${words.dollar[dollars === 1 ? 0 : 1]}`);
+    if (cents > 0) parts.push(`${cents} ${words.cent[cents === 1 ? 0 : 1]}`);
+    return parts.join(` ${words.and} `);
+  });
+
+/**
+ * "clx3k9a2b0000qz8h1y2z3abc" → "C L X 3, K 9 A 2, ...", character by character in groups of four
+ */
+export const speakTicketNumbers: SpeechRule = (text, options) =>
+  text.replace(ID_PATTERN, (id) => {
+    const groups: string[] = [];
+    for (let i = 0; i < id.length; i += ID_GROUP_SIZE) {
+      groups.push(
+        id
+          .slice(i, i + ID_GROUP_SIZE)
+          .toUpperCase()
+          .split('')
+          .join(' '),
+      );
+    }
+    return groups.join(pause(options));
+  });
+
+// Emails first: their local part may hold digits or a long ID
+const RULES: SpeechRule[] = [speakEmails, speakPhoneNumbers, speakPrices, speakTicketNumbers];
+
+/**
+ * Apply every rule, in order
+ */
+export const normalizeForSpeech = (text: string, options?: SpeechOptions): string =>
+  RULES.reduce((spoken, rule) => rule(spoken, options), text);
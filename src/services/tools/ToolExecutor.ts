@@ -2,6 +2,7 @@ import { z } from 'zod';
 
 import { CreateTicketInput, TicketRepository } from '../../data/repositories/TicketRepository.js';
 import { IssueClassifier } from '../../domain/issue/IssueClassifier.js';
+import { DEFAULT_LOCALE, Locale } from '../../utils/locale.js';
 import { logger } from '../../utils/logger.js';
 import {
   extractEmail,
@@ -182,26 +183,27 @@ export class ToolExecutor {
 
   /**
    * Execute a tool by name with provided arguments
+   * Messages meant for the caller (validation errors, clarification) are in the given language
    */
-  async execute(toolName: string, args: string): Promise<string> {
+  async execute(toolName: string, args: string, locale: Locale = DEFAULT_LOCALE): Promise<string> {
     logger.info({ toolName, args }, 'executing tool');
 
     try {
       switch (toolName) {
         case 'validate_email':
-          return this.handleValidateEmail(args);
+          return this.handleValidateEmail(args, locale);
 
         case 'validate_phone':
-          return this.handleValidatePhone(args);
+          return this.handleValidatePhone(args, locale);
 
         case 'classify_issue':
-          return await this.handleClassifyIssue(args);
+          return await this.handleClassifyIssue(args, locale);
 
         case 'get_price_for_issue':
           return await this.handleGetPrice(args);
 
         case 'create_ticket':
-          return await this.handleCreateTicket(args);
+          return await this.handleCreateTicket(args, locale);
 
         default:
           throw new Error(`Unknown tool: ${toolName}`);
@@ -215,9 +217,9 @@ export class ToolExecutor {
   /**
    * Validate email tool handler
    */
-  private handleValidateEmail(args: string): string {
+  private handleValidateEmail(args: string, locale: Locale): string {
     const parsed = validateEmailSchema.parse(JSON.parse(args));
-    const result = validateEmail(parsed.email);
+    const result = validateEmail(parsed.email, locale);
 
     if (result.isValid) {
       // Also try to extract email if it's embedded in text
@@ -239,9 +241,9 @@ export class ToolExecutor {
   /**
    * Validate phone tool handler
    */
-  private handleValidatePhone(args: string): string {
+  private handleValidatePhone(args: string, locale: Locale): string {
     const parsed = validatePhoneSchema.parse(JSON.parse(args));
-    const result = validatePhone(parsed.phone);
+    const result = validatePhone(parsed.phone, locale);
 
     if (result.isValid) {
       // Also try to extract phone if it's embedded in text
@@ -263,7 +265,7 @@ export class ToolExecutor {
   /**
    * Classify issue tool handler
    */
-  private async handleClassifyIssue(args: string): Promise<string> {
+  private async handleClassifyIssue(args: string, locale: Locale): Promise<string> {
     const parsed = classifyIssueSchema.parse(JSON.parse(args));
     const result = await this.issueClassifier.classify(parsed.description);
 
@@ -273,6 +275,7 @@ export class ToolExecutor {
         needsClarification: true,
         clarificationQuestion: this.issueClassifier.generateClarificationQuestion(
           parsed.description,
+          locale,
         ),
       });
     }
@@ -309,15 +312,15 @@ export class ToolExecutor {
   /**
    * Create ticket tool handler
    */
-  private async handleCreateTicket(args: string): Promise<string> {
+  private async handleCreateTicket(args: string, locale: Locale): Promise<string> {
     const parsed = createTicketSchema.parse(JSON.parse(args));
 
     // Validate all fields
-    const nameValidation = validateName(parsed.name);
-    const emailValidation = validateEmail(parsed.email);
-    const phoneValidation = validatePhone(parsed.phone);
-    const addressValidation = validateAddress(parsed.address);
-    const issueValidation = validateIssue(parsed.issue);
+    const nameValidation = validateName(parsed.name, locale);
+    const emailValidation = validateEmail(parsed.email, locale);
+    const phoneValidation = validatePhone(parsed.phone, locale);
+    const addressValidation = validateAddress(parsed.address, locale);
+    const issueValidation = validateIssue(parsed.issue, locale);
 
     const errors: string[] = [];
     if (!nameValidation.isValid) errors.push(nameValidation.error!);
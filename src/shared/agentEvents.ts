@@ -0,0 +1,96 @@
+/**
+ * Events the voice agent publishes to the caller's browser over the LiveKit data channel
+ * Shared by the agent (src/agents) and the Next.js frontend, so keep it free of imports
+ */
+
+export const AGENT_EVENTS_TOPIC = 'agent-events';
+
+// Bumped on breaking changes to the event shapes
+export const AGENT_EVENTS_VERSION = 1;
+
+/**
+ * Ticket fields collected from the caller, in the order they are asked for
+ */
+export const COLLECTED_FIELDS = ['name', 'email', 'phone', 'address', 'issue'] as const;
+
+export type CollectedField = (typeof COLLECTED_FIELDS)[number];
+
+export type AgentEvent =
+  | {
+      type: 'user_transcript';
+      text: string;
+      confidence?: number;
+    }
+  | {
+      type: 'bot_response';
+      // Sent as each sentence starts playing
+      text: string;
+    }
+  | {
+      type: 'state_changed';
+      // ConversationState value
+      state: string;
+      previousState: string | null;
+      collected: CollectedField[];
+    }
+  | {
+      type: 'ticket_created';
+      ticketId: string;
+      ticketNumber: string;
+      issueType?: string;
+      price?: number;
+    };
+
+export type AgentEventType = AgentEvent['type'];
+
+export type AgentEventMessage = AgentEvent & {
+  version: number;
+  // Per-session sequence number, so the receiver can order and de-duplicate events
+  seq: number;
+  sentAt: string;
+};
+
+const EVENT_TYPES: ReadonlySet<string> = new Set<AgentEventType>([
+  'user_transcript',
+  'bot_response',
+  'state_changed',
+  'ticket_created',
+]);
+
+/**
+ * Serialize an event for publishData
+ */
+export function encodeAgentEvent(event: AgentEvent, seq: number): Uint8Array {
+  const message: AgentEventMessage = {
+    ...event,
+    version: AGENT_EVENTS_VERSION,
+    seq,
+    sentAt: new Date().toISOString(),
+  };
+  return new TextEncoder().encode(JSON.stringify(message));
+}
+
+/**
+ * Parse a data channel payload, returning null for anything that isn't an agent event
+ */
+export function decodeAgentEvent(payload: Uint8Array): AgentEventMessage | null {
+  try {
+    const message: unknown = JSON.parse(new TextDecoder().decode(payload));
+
+    if (
+      typeof message !== 'object' ||
+      message === null ||
+      !('type' in message) ||
+      typeof message.type !== 'string' ||
+      !EVENT_TYPES.has(message.type) ||
+      !('version' in message) ||
+      message.version !== AGENT_EVENTS_VERSION
+    ) {
+      return null;
+    }
+
+    return message as AgentEventMessage;
+  } catch {
+    return null;
+  }
+}
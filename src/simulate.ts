@@ -0,0 +1,104 @@
+/**
+ * Offline Call Simulator
+ * Plays a scripted caller through VAD → STT → LLM → tools → TTS with no LiveKit room.
+ * Uses the providers configured via .env (e.g. local whispercpp, Ollama and Piper containers)
+ *
+ *   npx tsx src/simulate.ts name.wav email.wav "my wifi keeps dropping" --out simulations/wifi
+ *   npx tsx src/simulate.ts --script caller.txt
+ *   npx tsx src/simulate.ts --language es "Hola, me llamo Ana Ruiz"
+ *
+ * Arguments ending in .wav are recordings, anything else is a typed caller turn.
+ * Script files hold one turn per line (blank lines and # comments are skipped);
+ * recordings in a script are relative to the script file.
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { CallSimulator, SimulatedTurn, TranscriptEntry } from './agents/CallSimulator.js';
+import { loadEnv } from './config/env.js';
+import { disconnectPrisma } from './data/db.js';
+import { createVoiceActivityDetector } from './services/audio/VoiceActivityDetector.js';
+import { ProviderFactory } from './services/providers/ProviderFactory.js';
+import { resolveLocale } from './utils/locale.js';
+import { logger } from './utils/logger.js';
+
+const config = loadEnv();
+
+const toTurn = (arg: string, baseDir = '.'): SimulatedTurn =>
+  arg.toLowerCase().endsWith('.wav')
+    ? { type: 'audio', file: path.resolve(baseDir, arg) }
+    : { type: 'text', text: arg };
+
+async function readScript(file: string): Promise<SimulatedTurn[]> {
+  const lines = (await readFile(file, 'utf8')).split('\n').map((line) => line.trim());
+  return lines
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => toTurn(line, path.dirname(file)));
+}
+
+const printEntry = (entry: TranscriptEntry) => {
+  const speaker = entry.speaker === 'bot' ? 'BOT   ' : 'CALLER';
+  const details = [
+    entry.sourceFile && `from ${path.basename(entry.sourceFile)}`,
+    entry.confidence !== undefined && `confidence ${entry.confidence.toFixed(2)}`,
+    entry.audioFile && `→ ${entry.audioFile}`,
+    entry.usedFallback && 'fallback',
+  ].filter(Boolean);
+
+  console.log(`${speaker} ${entry.text}${details.length ? `  [${details.join(', ')}]` : ''}`);
+};
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      script: { type: 'string' },
+      // en or es; defaults to LOCALE
+      language: { type: 'string' },
+      out: {
+        type: 'string',
+        default: path.join('simulations', new Date().toISOString().replace(/[:.]/g, '-')),
+      },
+    },
+  });
+
+  const turns = positionals.map((arg) => toTurn(arg));
+  if (values.script) {
+    turns.push(...(await readScript(values.script)));
+  }
+
+  if (turns.length === 0) {
+    console.error(
+      'Usage: npx tsx src/simulate.ts [turn.wav | "typed turn"]... [--script file] [--out dir]',
+    );
+    process.exit(1);
+  }
+
+  const locale = resolveLocale(values.language, config.LOCALE);
+  const providers = ProviderFactory.createAllProviders(locale.locale);
+  const simulator = new CallSimulator({
+    providers,
+    vad: createVoiceActivityDetector(config),
+    outputDir: values.out,
+    onEntry: printEntry,
+    confidenceThresholds: config.CONFIDENCE_THRESHOLDS,
+    locale,
+  });
+
+  try {
+    const { context } = await simulator.run(turns);
+    console.log('\nFinal conversation context:');
+    console.log(JSON.stringify(context, null, 2));
+  } finally {
+    await Promise.all([providers.stt.close(), providers.llm.close(), providers.tts.close()]);
+    // Ticket tools open a database connection
+    await disconnectPrisma();
+  }
+}
+
+main().catch((error: unknown) => {
+  logger.error({ err: error }, 'simulation failed');
+  process.exit(1);
+});
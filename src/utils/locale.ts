@@ -0,0 +1,134 @@
+/**
+ * Languages the bot can hold a conversation in
+ * Prompt and response catalogs are keyed by these; STT and TTS get the matching language
+ */
+export const LOCALES = ['en', 'es'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// LiveKit participant attribute with the language the caller chose (set in their token)
+export const LANGUAGE_ATTRIBUTE = 'language';
+
+// Short, common words that give a language away; names and addresses carry no signal
+const MARKER_WORDS: Record<Locale, Set<string>> = {
+  en: new Set([
+    'hi',
+    'hello',
+    'hey',
+    'my',
+    'name',
+    'is',
+    "i'm",
+    'am',
+    'the',
+    'this',
+    'please',
+    'thanks',
+    'thank',
+    'you',
+    'need',
+    'help',
+    'have',
+    'with',
+    "it's",
+    'yes',
+    'what',
+    'and',
+    'not',
+    'working',
+  ]),
+  es: new Set([
+    'hola',
+    'llamo',
+    'soy',
+    'mi',
+    'nombre',
+    'es',
+    'el',
+    'la',
+    'los',
+    'las',
+    'del',
+    'que',
+    'por',
+    'favor',
+    'gracias',
+    'buenos',
+    'buenas',
+    'días',
+    'tardes',
+    'sí',
+    'necesito',
+    'ayuda',
+    'tengo',
+    'una',
+    'con',
+    'para',
+    'está',
+    'funciona',
+    'quiero',
+    'correo',
+    'teléfono',
+    'dirección',
+    'problema',
+  ]),
+};
+
+// Fewer marker words than this is too little to go on ("no", "okay")
+const MIN_MARKERS = 2;
+
+/**
+ * "es" or "es-MX" from clients and config → a supported locale
+ */
+export const parseLocale = (value: unknown): Locale | null => {
+  if (typeof value !== 'string') return null;
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return LOCALES.find((locale) => locale === language) ?? null;
+};
+
+/**
+ * Guess the language of a caller's message from common words
+ * Null when the message is too short or mixed to tell ("John Smith", "okay")
+ */
+export const detectLocale = (text: string): Locale | null => {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}']+/u)
+    .filter(Boolean);
+
+  const scores = LOCALES.map((locale) => ({
+    locale,
+    score: words.filter((word) => MARKER_WORDS[locale].has(word)).length,
+  })).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (!best || best.score < MIN_MARKERS || best.score === runnerUp?.score) {
+    return null;
+  }
+  return best.locale;
+};
+
+/**
+ * Language a session starts in, and whether it should switch to the one the caller speaks
+ */
+export interface LocaleSelection {
+  locale: Locale;
+  detectLocale: boolean;
+}
+
+/**
+ * Starting language of a session: the client's choice, else the configured LOCALE
+ * With LOCALE=auto and no choice, the conversation starts in English and follows the caller
+ */
+export const resolveLocale = (requested: unknown, setting: Locale | 'auto'): LocaleSelection => {
+  const locale = parseLocale(requested);
+  if (locale) {
+    return { locale, detectLocale: false };
+  }
+  if (setting === 'auto') {
+    return { locale: DEFAULT_LOCALE, detectLocale: true };
+  }
+  return { locale: setting, detectLocale: false };
+};
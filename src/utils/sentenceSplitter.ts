@@ -0,0 +1,93 @@
+/**
+ * Incremental sentence splitter for streamed LLM output
+ * Lets TTS start on the first sentence while the rest is still being generated
+ */
+
+// Words that end with a period without ending the sentence
+const ABBREVIATIONS = new Set([
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'st',
+  'jr',
+  'sr',
+  'vs',
+  'etc',
+  'e.g',
+  'i.e',
+  'approx',
+]);
+
+// Abbreviations only when a number follows ("No. 5"); "No. My email is..." is two sentences
+const NUMBER_ABBREVIATIONS = new Set(['no']);
+
+// Sentence punctuation (optionally closed by quotes/brackets) followed by whitespace, or a line break
+const BOUNDARY = /[.!?]+["')\]]*\s+|\n+/g;
+
+export class SentenceSplitter {
+  private buffer = '';
+
+  /**
+   * @param minLength Sentences shorter than this are merged with the next one
+   *                  ("Great!" on its own is not worth a TTS request)
+   */
+  constructor(private readonly minLength = 20) {}
+
+  /**
+   * Add streamed text, returning any sentences that are now complete
+   */
+  push(delta: string): string[] {
+    this.buffer += delta;
+
+    const sentences: string[] = [];
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    BOUNDARY.lastIndex = 0;
+    while ((match = BOUNDARY.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const isLineBreak = match[0].startsWith('\n');
+
+      if (!isLineBreak) {
+        const text = this.buffer.slice(start, match.index + 1);
+        if (this.endsWithAbbreviation(text, ABBREVIATIONS)) {
+          continue;
+        }
+        if (this.endsWithAbbreviation(text, NUMBER_ABBREVIATIONS)) {
+          const following = this.buffer.slice(end);
+          // Wait for the next word to tell which it is
+          if (!following) break;
+          if (/^\d/.test(following)) continue;
+        }
+      }
+
+      const sentence = this.buffer.slice(start, end).trim();
+      if (sentence.length < this.minLength && !isLineBreak) {
+        continue;
+      }
+
+      if (sentence) {
+        sentences.push(sentence);
+      }
+      start = end;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  /**
+   * Return whatever is left once the stream has ended
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || null;
+  }
+
+  private endsWithAbbreviation(text: string, abbreviations: Set<string>): boolean {
+    const lastWord = text.trim().split(/\s+/).pop() ?? '';
+    return abbreviations.has(lastWord.toLowerCase().replace(/\.$/, ''));
+  }
+}
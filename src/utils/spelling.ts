@@ -0,0 +1,300 @@
+import { DEFAULT_LOCALE, Locale } from './locale.js';
+import { parseDigitWord } from './spokenForms.js';
+
+/**
+ * Fields the caller can spell letter by letter
+ */
+export type SpelledField = 'name' | 'email';
+
+const NATO_ALPHABET: Record<string, string> = {
+  alpha: 'a',
+  alfa: 'a',
+  bravo: 'b',
+  charlie: 'c',
+  delta: 'd',
+  echo: 'e',
+  foxtrot: 'f',
+  golf: 'g',
+  hotel: 'h',
+  india: 'i',
+  juliet: 'j',
+  juliett: 'j',
+  kilo: 'k',
+  lima: 'l',
+  mike: 'm',
+  november: 'n',
+  oscar: 'o',
+  papa: 'p',
+  quebec: 'q',
+  romeo: 'r',
+  sierra: 's',
+  tango: 't',
+  uniform: 'u',
+  victor: 'v',
+  whiskey: 'w',
+  whisky: 'w',
+  'x-ray': 'x',
+  xray: 'x',
+  yankee: 'y',
+  zulu: 'z',
+};
+
+// How STT writes letters said on their own ("jay", "are", "why")
+const LETTER_NAMES: Record<string, string> = {
+  ay: 'a',
+  bee: 'b',
+  be: 'b',
+  see: 'c',
+  sea: 'c',
+  cee: 'c',
+  dee: 'd',
+  ef: 'f',
+  eff: 'f',
+  gee: 'g',
+  aitch: 'h',
+  eye: 'i',
+  jay: 'j',
+  kay: 'k',
+  el: 'l',
+  ell: 'l',
+  em: 'm',
+  en: 'n',
+  oh: 'o',
+  pee: 'p',
+  pea: 'p',
+  cue: 'q',
+  queue: 'q',
+  are: 'r',
+  ar: 'r',
+  ess: 's',
+  tee: 't',
+  tea: 't',
+  you: 'u',
+  vee: 'v',
+  ex: 'x',
+  why: 'y',
+  zee: 'z',
+  zed: 'z',
+  // Spanish
+  ce: 'c',
+  de: 'd',
+  efe: 'f',
+  ge: 'g',
+  hache: 'h',
+  jota: 'j',
+  ka: 'k',
+  ele: 'l',
+  eme: 'm',
+  ene: 'n',
+  eñe: 'ñ',
+  pe: 'p',
+  cu: 'q',
+  ere: 'r',
+  erre: 'r',
+  ese: 's',
+  te: 't',
+  uve: 'v',
+  ve: 'v',
+  equis: 'x',
+  ye: 'y',
+  zeta: 'z',
+  ceta: 'z',
+};
+
+// Letters and symbols named in two words, read as the single word that follows them
+const TWO_WORD_NAMES: Record<string, string> = {
+  'double u': 'w',
+  'double you': 'w',
+  'doble u': 'w',
+  'doble ve': 'w',
+  'uve doble': 'w',
+  'i griega': 'y',
+  'guion bajo': 'underscore',
+  'guión bajo': 'underscore',
+};
+
+const CASE_WORDS: Record<string, 'upper' | 'lower'> = {
+  capital: 'upper',
+  uppercase: 'upper',
+  upper: 'upper',
+  big: 'upper',
+  lowercase: 'lower',
+  lower: 'lower',
+  small: 'lower',
+};
+
+const REPEATS: Record<string, number> = { double: 2, doble: 2, triple: 3 };
+
+const SYMBOLS: Record<SpelledField, Record<string, string>> = {
+  name: {
+    space: ' ',
+    dash: '-',
+    hyphen: '-',
+    apostrophe: "'",
+    espacio: ' ',
+    guion: '-',
+    guión: '-',
+    apóstrofo: "'",
+    apostrofo: "'",
+  },
+  email: {
+    at: '@',
+    dot: '.',
+    period: '.',
+    point: '.',
+    underscore: '_',
+    dash: '-',
+    hyphen: '-',
+    plus: '+',
+    arroba: '@',
+    punto: '.',
+    guion: '-',
+    guión: '-',
+    más: '+',
+  },
+};
+
+const SYMBOL_NAMES: Record<Locale, Record<string, string>> = {
+  en: {
+    ' ': 'space',
+    '-': 'dash',
+    "'": 'apostrophe',
+    '.': 'dot',
+    _: 'underscore',
+    '+': 'plus',
+    '@': 'at',
+  },
+  es: {
+    ' ': 'espacio',
+    '-': 'guion',
+    "'": 'apóstrofo',
+    '.': 'punto',
+    _: 'guion bajo',
+    '+': 'más',
+    '@': 'arroba',
+  },
+};
+
+// "S as in Sierra", "S for Sierra", "S like Sierra", "S de Sierra": the example word is skipped
+const EXAMPLE_WORDS = new Set(['as', 'for', 'like', 'de', 'como']);
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[\s,.;:!?]+/)
+    .flatMap((token) =>
+      token.includes('-') && !(token in NATO_ALPHABET) ? token.split('-') : [token],
+    )
+    .filter(Boolean);
+
+const isLetter = (char: string): boolean => /^[a-zñ]$/.test(char);
+
+const letterFor = (word: string): string | undefined => {
+  if (isLetter(word)) return word;
+  return NATO_ALPHABET[word] ?? LETTER_NAMES[word];
+};
+
+/**
+ * Assemble a spelled value: "S as in Sierra, M, I, T, H", "capital J, O, H, N",
+ * "J O H N dot D O E at gmail dot com"
+ * Words that are not letters are ignored, except whole words after the "at" of an email
+ * (callers say the domain instead of spelling it); null if nothing was spelled
+ */
+export const parseSpelling = (text: string, field: SpelledField): string | null => {
+  const tokens = tokenize(text);
+  const chars: string[] = [];
+  let nextCase: 'upper' | 'lower' | null = null;
+  let repeat = 1;
+  let capitalized = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const next = tokens[i + 1];
+
+    if (token in CASE_WORDS) {
+      nextCase = CASE_WORDS[token]!;
+      continue;
+    }
+    // "double u" is a W, not two Us
+    const twoWordName = next !== undefined ? TWO_WORD_NAMES[`${token} ${next}`] : undefined;
+    if (twoWordName !== undefined) {
+      tokens[i + 1] = twoWordName;
+      continue;
+    }
+    if (token in REPEATS) {
+      repeat = REPEATS[token]!;
+      continue;
+    }
+
+    let char = letterFor(token) ?? parseDigitWord(token) ?? SYMBOLS[field][token];
+    if (
+      char === undefined &&
+      field === 'email' &&
+      chars.includes('@') &&
+      /^[a-z0-9]+$/.test(token)
+    ) {
+      char = token;
+    }
+    if (char === undefined) continue;
+
+    if (next !== undefined && EXAMPLE_WORDS.has(next) && isLetter(char)) {
+      const skip = next === 'as' && tokens[i + 2] === 'in' ? 3 : 2;
+      // "de" is also the letter D, so it only introduces a word that starts with the letter
+      const example = tokens[i + skip] ?? '';
+      if (next !== 'de' || (example.length > 1 && example.startsWith(char))) {
+        i += skip;
+      }
+    }
+
+    if (nextCase === 'upper') {
+      char = char.toUpperCase();
+      capitalized = true;
+    }
+    for (let n = 0; n < repeat; n++) chars.push(char);
+    nextCase = null;
+    repeat = 1;
+  }
+
+  let value = chars.join('').replace(/\s+/g, ' ').trim();
+  if (!/[a-z]/i.test(value)) return null;
+
+  if (field === 'email') {
+    value = value.toLowerCase();
+  } else if (!capitalized) {
+    // Without explicit capitals, "john smith" is read as "John Smith"
+    value = value.replace(
+      /(^|[\s'-])([a-zñ])/g,
+      (_match, before: string, letter: string) => `${before}${letter.toUpperCase()}`,
+    );
+  }
+  return value;
+};
+
+const spellCharacters = (value: string, names: Record<string, string>): string =>
+  value
+    .split('')
+    .map((char) => names[char] ?? char.toUpperCase())
+    .join(', ');
+
+/**
+ * Read a value back one letter at a time: "J, O, H, N, space, S, M, I, T, H"
+ * The domain of an email is read as words: "J, O, H, N at gmail dot com"
+ */
+export const spellOut = (
+  value: string,
+  field: SpelledField,
+  locale: Locale = DEFAULT_LOCALE,
+): string => {
+  const names = SYMBOL_NAMES[locale];
+  if (field === 'email') {
+    const at = value.lastIndexOf('@');
+    if (at > 0) {
+      const domain = value
+        .slice(at + 1)
+        .split('.')
+        .join(` ${names['.']} `);
+      return `${spellCharacters(value.slice(0, at), names)} ${names['@']} ${domain}`;
+    }
+  }
+  return spellCharacters(value, names);
+};
@@ -0,0 +1,300 @@
+/**
+ * Spoken-form normalization for STT transcripts
+ * Turns "john dot doe at gmail dot com" and "five one oh, double five..." into the written
+ * forms that the extractors in validation.ts match
+ * English and Spanish words are both recognized ("juan punto perez arroba gmail punto com")
+ */
+
+const UNITS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  cero: 0,
+  uno: 1,
+  dos: 2,
+  tres: 3,
+  cuatro: 4,
+  cinco: 5,
+  seis: 6,
+  siete: 7,
+  ocho: 8,
+  nueve: 9,
+};
+
+const TEENS: Record<string, number> = {
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const REPEATS: Record<string, number> = { double: 2, triple: 3, doble: 2 };
+
+// "oh" and "o" only count as zero between other digits, so "oh, it's..." stays a word
+const ZERO_LETTERS = new Set(['oh', 'o']);
+
+// Ignored between digits: "five one zero, uh, five five five"
+const FILLERS = new Set(['uh', 'um', 'er', 'ah', 'and', 'then', 'eh', 'y', 'este']);
+
+const EMAIL_SYMBOLS: Record<string, string> = {
+  at: '@',
+  dot: '.',
+  period: '.',
+  point: '.',
+  underscore: '_',
+  dash: '-',
+  hyphen: '-',
+  minus: '-',
+  plus: '+',
+  arroba: '@',
+  punto: '.',
+  guion: '-',
+  guión: '-',
+  más: '+',
+};
+
+const SYMBOLS = new Set(Object.values(EMAIL_SYMBOLS));
+
+// Words that introduce an address; the local part starts after the last of them
+const EMAIL_LEAD_INS = new Set([
+  'is',
+  'its',
+  "it's",
+  'email',
+  'e-mail',
+  'address',
+  'my',
+  'was',
+  'the',
+  'it',
+  'that',
+  'sure',
+  'yes',
+  'yeah',
+  'ok',
+  'okay',
+  'so',
+  'um',
+  'uh',
+  'and',
+  'use',
+  'try',
+  'es',
+  'correo',
+  'electrónico',
+  'mi',
+  'sí',
+  'claro',
+  'pues',
+]);
+
+// Providers STT tends to split in two
+const SPLIT_DOMAINS: Array<[RegExp, string]> = [
+  [/\bg mail\b/g, 'gmail'],
+  [/\bhot mail\b/g, 'hotmail'],
+  [/\bout look\b/g, 'outlook'],
+  [/\bya hoo\b/g, 'yahoo'],
+  [/\bi cloud\b/g, 'icloud'],
+];
+
+const isDigits = (token: string): boolean => /^\d+$/.test(token);
+
+/**
+ * "five" or "5" → "5"
+ */
+export const parseDigitWord = (word: string): string | undefined => {
+  if (/^\d$/.test(word)) return word;
+  return word in UNITS ? String(UNITS[word]) : undefined;
+};
+
+const isNumberWord = (token: string): boolean =>
+  token in UNITS || token in TEENS || token in TENS || isDigits(token);
+
+/**
+ * Lowercased words with trailing punctuation removed ("com." → "com", "five," → "five")
+ */
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((token) => token.replace(/[.,!?;:]+$/, ''))
+    .filter(Boolean);
+
+/**
+ * Replace number words with digit tokens: "double five" → 5 5, "thirty four" → 34,
+ * "eight hundred" → 800
+ */
+const parseNumberWords = (tokens: string[], zeroLetters: boolean): string[] => {
+  // Hyphenated forms: "thirty-four", "five-one-zero"
+  const words = tokens.flatMap((token) =>
+    token.includes('-') && token.split('-').every(isNumberWord) ? token.split('-') : [token],
+  );
+
+  const isNumeric = (index: number): boolean => {
+    const word = words[index];
+    if (word === undefined) return false;
+    return isNumberWord(word) || word in REPEATS || word === 'hundred' || word === 'thousand';
+  };
+
+  const result: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]!;
+    const next = words[i + 1];
+
+    if (word in UNITS) {
+      result.push(String(UNITS[word]));
+    } else if (word in TEENS) {
+      result.push(String(TEENS[word]));
+    } else if (word in TENS) {
+      // "thirty four" is one number, "thirty" alone is 30
+      if (next !== undefined && next in UNITS && next !== 'zero') {
+        result.push(String(TENS[word]! + UNITS[next]!));
+        i++;
+      } else {
+        result.push(String(TENS[word]));
+      }
+    } else if (ZERO_LETTERS.has(word) && zeroLetters && (isNumeric(i - 1) || isNumeric(i + 1))) {
+      result.push('0');
+    } else if (
+      word in REPEATS &&
+      next !== undefined &&
+      (next in UNITS || next.length === 1 || (zeroLetters && ZERO_LETTERS.has(next)))
+    ) {
+      // "double five", "triple oh", "double l"
+      let repeated = next;
+      if (next in UNITS) repeated = String(UNITS[next]);
+      else if (zeroLetters && ZERO_LETTERS.has(next)) repeated = '0';
+      for (let n = 0; n < REPEATS[word]!; n++) result.push(repeated);
+      i++;
+    } else if ((word === 'hundred' || word === 'thousand') && isDigits(result.at(-1) ?? '')) {
+      result.push(`${result.pop()}${word === 'hundred' ? '00' : '000'}`);
+    } else {
+      result.push(word);
+    }
+  }
+  return result;
+};
+
+/**
+ * "john dot doe at gmail dot com" → "john.doe@gmail.com"
+ * Text without a spoken "at" followed by a "dot" is returned unchanged; otherwise the rest of
+ * the text comes back lowercased and without punctuation, ready for extraction only
+ */
+export const normalizeSpokenEmail = (text: string): string => {
+  let spoken = text
+    .toLowerCase()
+    .replace(/\bat the rate(?: of)?\b/g, 'at')
+    .replace(/\bgui[oó]n bajo\b/g, 'underscore');
+  for (const [pattern, domain] of SPLIT_DOMAINS) {
+    spoken = spoken.replace(pattern, domain);
+  }
+
+  const tokens = parseNumberWords(tokenize(spoken), false).map((token) => {
+    // Spelled with dashes: "j-o-h-n"
+    if (/^([a-z0-9]-)+[a-z0-9]$/.test(token)) return token.replace(/-/g, '');
+    return EMAIL_SYMBOLS[token] ?? token;
+  });
+
+  // The last "at" with a dot somewhere after it
+  let at = -1;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    if (tokens[i] === '@' && tokens.slice(i + 1).some((token) => token.includes('.'))) {
+      at = i;
+      break;
+    }
+  }
+  if (at <= 0) return text;
+
+  // Addresses have no spaces: everything between the lead-in and the "at" is the local part
+  // ("it" in "john plus it" is part of the address, not a lead-in)
+  const isSymbol = (token?: string) => token !== undefined && token !== '@' && SYMBOLS.has(token);
+  let start = at;
+  while (
+    start > 0 &&
+    (!EMAIL_LEAD_INS.has(tokens[start - 1]!) ||
+      isSymbol(tokens[start - 2]) ||
+      isSymbol(tokens[start]))
+  ) {
+    start--;
+  }
+
+  // The domain runs up to the first dot, then continues only through dots and dashes
+  let end = at + 1;
+  let sawDot = false;
+  let afterSymbol = true;
+  while (end < tokens.length) {
+    const token = tokens[end]!;
+    const symbol = token === '.' || token === '-';
+    if (sawDot && !afterSymbol && !symbol) break;
+
+    sawDot ||= token.includes('.');
+    afterSymbol = symbol;
+    end++;
+  }
+
+  const email = tokens.slice(start, end).join('');
+  return [...tokens.slice(0, start), email, ...tokens.slice(end)].join(' ');
+};
+
+/**
+ * "five one oh, double five five, one two three four" → "5105551234"
+ * Runs of spoken or written digits are joined; other words are kept
+ */
+export const normalizeSpokenPhone = (text: string): string => {
+  const tokens = parseNumberWords(
+    tokenize(text.replace(/\bplus\b|(?<!\p{L})más(?!\p{L})/giu, '+')),
+    true,
+  );
+
+  const result: string[] = [];
+  let digits = '';
+  let pendingFillers: string[] = [];
+
+  const flush = () => {
+    if (digits) result.push(digits);
+    digits = '';
+  };
+
+  for (const token of tokens) {
+    if (isDigits(token) || (token === '+' && !digits)) {
+      // Fillers between digits are dropped, fillers before them are kept
+      if (!digits) result.push(...pendingFillers);
+      pendingFillers = [];
+      digits += token;
+    } else if (FILLERS.has(token)) {
+      pendingFillers.push(token);
+    } else {
+      flush();
+      result.push(...pendingFillers, token);
+      pendingFillers = [];
+    }
+  }
+  flush();
+  result.push(...pendingFillers);
+
+  return result.join(' ');
+};
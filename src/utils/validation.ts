@@ -3,16 +3,62 @@
  * Deterministic validation to avoid relying purely on LLM
  */
 
+import { DEFAULT_LOCALE, Locale } from './locale.js';
+import { normalizeSpokenEmail, normalizeSpokenPhone } from './spokenForms.js';
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
   sanitized?: string;
 }
 
+type ValidationError =
+  | 'invalidEmail'
+  | 'invalidPhone'
+  | 'addressTooShort'
+  | 'addressTooLong'
+  | 'nameTooShort'
+  | 'nameTooLong'
+  | 'nameNotAlphabetic'
+  | 'issueTooShort'
+  | 'issueTooLong';
+
+/**
+ * Error messages, in the caller's language (tools pass them on to the LLM)
+ */
+export const VALIDATION_ERRORS: Record<Locale, Record<ValidationError, string>> = {
+  en: {
+    invalidEmail:
+      'Invalid email format. Please provide a valid email address like user@example.com',
+    invalidPhone: 'Invalid phone number. Please provide a valid phone number with 10-15 digits',
+    addressTooShort:
+      'Address is too short. Please provide a complete address with street, city, and state',
+    addressTooLong: 'Address is too long. Please provide a concise address',
+    nameTooShort: 'Name is too short. Please provide your full name',
+    nameTooLong: 'Name is too long',
+    nameNotAlphabetic: 'Name must contain alphabetic characters',
+    issueTooShort: 'Issue description is too short. Please describe your problem in more detail',
+    issueTooLong: 'Issue description is too long. Please provide a concise description',
+  },
+  es: {
+    invalidEmail:
+      'Formato de correo no válido. Indique un correo electrónico válido, como usuario@ejemplo.com',
+    invalidPhone: 'Número de teléfono no válido. Indique un número de 10 a 15 dígitos',
+    addressTooShort:
+      'La dirección es demasiado corta. Indique una dirección completa con calle, ciudad y estado',
+    addressTooLong: 'La dirección es demasiado larga. Indique una dirección más breve',
+    nameTooShort: 'El nombre es demasiado corto. Indique su nombre completo',
+    nameTooLong: 'El nombre es demasiado largo',
+    nameNotAlphabetic: 'El nombre debe contener letras',
+    issueTooShort: 'La descripción es demasiado corta. Describa su problema con más detalle',
+    issueTooLong: 'La descripción es demasiado larga. Describa el problema de forma más breve',
+  },
+};
+
 /**
  * Validate email address with comprehensive regex
  */
-export const validateEmail = (email: string): ValidationResult => {
+export const validateEmail = (email: string, locale: Locale = DEFAULT_LOCALE): ValidationResult => {
   const trimmed = email.trim().toLowerCase();
 
   // RFC 5322 compliant email regex (simplified)
@@ -21,7 +67,7 @@ export const validateEmail = (email: string): ValidationResult => {
   if (!emailRegex.test(trimmed)) {
     return {
       isValid: false,
-      error: 'Invalid email format. Please provide a valid email address like user@example.com',
+      error: VALIDATION_ERRORS[locale].invalidEmail,
     };
   }
 
@@ -34,7 +80,7 @@ export const validateEmail = (email: string): ValidationResult => {
 /**
  * Validate phone number (supports multiple formats)
  */
-export const validatePhone = (phone: string): ValidationResult => {
+export const validatePhone = (phone: string, locale: Locale = DEFAULT_LOCALE): ValidationResult => {
   // Remove all non-digit characters for validation
   const digitsOnly = phone.replace(/\D/g, '');
 
@@ -42,7 +88,7 @@ export const validatePhone = (phone: string): ValidationResult => {
   if (digitsOnly.length < 10 || digitsOnly.length > 15) {
     return {
       isValid: false,
-      error: 'Invalid phone number. Please provide a valid phone number with 10-15 digits',
+      error: VALIDATION_ERRORS[locale].invalidPhone,
     };
   }
 
@@ -62,20 +108,23 @@ export const validatePhone = (phone: string): ValidationResult => {
 /**
  * Validate address (basic check for minimum content)
  */
-export const validateAddress = (address: string): ValidationResult => {
+export const validateAddress = (
+  address: string,
+  locale: Locale = DEFAULT_LOCALE,
+): ValidationResult => {
   const trimmed = address.trim();
 
   if (trimmed.length < 10) {
     return {
       isValid: false,
-      error: 'Address is too short. Please provide a complete address with street, city, and state',
+      error: VALIDATION_ERRORS[locale].addressTooShort,
     };
   }
 
   if (trimmed.length > 500) {
     return {
       isValid: false,
-      error: 'Address is too long. Please provide a concise address',
+      error: VALIDATION_ERRORS[locale].addressTooLong,
     };
   }
 
@@ -88,20 +137,20 @@ export const validateAddress = (address: string): ValidationResult => {
 /**
  * Validate name (basic check)
  */
-export const validateName = (name: string): ValidationResult => {
+export const validateName = (name: string, locale: Locale = DEFAULT_LOCALE): ValidationResult => {
   const trimmed = name.trim();
 
   if (trimmed.length < 2) {
     return {
       isValid: false,
-      error: 'Name is too short. Please provide your full name',
+      error: VALIDATION_ERRORS[locale].nameTooShort,
     };
   }
 
   if (trimmed.length > 100) {
     return {
       isValid: false,
-      error: 'Name is too long',
+      error: VALIDATION_ERRORS[locale].nameTooLong,
     };
   }
 
@@ -109,7 +158,7 @@ export const validateName = (name: string): ValidationResult => {
   if (!/[a-zA-Z]{2,}/.test(trimmed)) {
     return {
       isValid: false,
-      error: 'Name must contain alphabetic characters',
+      error: VALIDATION_ERRORS[locale].nameNotAlphabetic,
     };
   }
 
@@ -122,20 +171,20 @@ export const validateName = (name: string): ValidationResult => {
 /**
  * Validate issue description
  */
-export const validateIssue = (issue: string): ValidationResult => {
+export const validateIssue = (issue: string, locale: Locale = DEFAULT_LOCALE): ValidationResult => {
   const trimmed = issue.trim();
 
   if (trimmed.length < 5) {
     return {
       isValid: false,
-      error: 'Issue description is too short. Please describe your problem in more detail',
+      error: VALIDATION_ERRORS[locale].issueTooShort,
     };
   }
 
   if (trimmed.length > 1000) {
     return {
       isValid: false,
-      error: 'Issue description is too long. Please provide a concise description',
+      error: VALIDATION_ERRORS[locale].issueTooLong,
     };
   }
 
@@ -146,21 +195,21 @@ export const validateIssue = (issue: string): ValidationResult => {
 };
 
 /**
- * Extract email from text using regex
+ * Extract email from text using regex, including spoken forms ("john at gmail dot com")
  */
 export const extractEmail = (text: string): string | null => {
   const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
-  const match = text.match(emailRegex);
+  const match = normalizeSpokenEmail(text).match(emailRegex);
   return match ? match[0].toLowerCase() : null;
 };
 
 /**
- * Extract phone number from text
+ * Extract phone number from text, including spoken digits ("five one zero...")
  */
 export const extractPhone = (text: string): string | null => {
   // Match various phone formats
   const phoneRegex = /(\+?1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/;
-  const match = text.match(phoneRegex);
+  const match = normalizeSpokenPhone(text).match(phoneRegex);
   return match ? match[0] : null;
 };
 
@@ -0,0 +1,47 @@
+import {
+  AGENT_EVENTS_VERSION,
+  decodeAgentEvent,
+  encodeAgentEvent,
+} from '../src/shared/agentEvents';
+
+const encodeJson = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+describe('agent events', () => {
+  it('should round-trip an event with its envelope', () => {
+    const payload = encodeAgentEvent(
+      {
+        type: 'state_changed',
+        state: 'COLLECTING_EMAIL',
+        previousState: 'COLLECTING_NAME',
+        collected: ['name'],
+      },
+      3,
+    );
+
+    expect(decodeAgentEvent(payload)).toMatchObject({
+      type: 'state_changed',
+      state: 'COLLECTING_EMAIL',
+      previousState: 'COLLECTING_NAME',
+      collected: ['name'],
+      version: AGENT_EVENTS_VERSION,
+      seq: 3,
+      sentAt: expect.any(String),
+    });
+  });
+
+  it('should ignore payloads that are not JSON', () => {
+    expect(decodeAgentEvent(new Uint8Array([0x52, 0x49, 0x46, 0x46]))).toBeNull();
+  });
+
+  it('should ignore unknown event types', () => {
+    expect(
+      decodeAgentEvent(encodeJson({ type: 'chat', version: AGENT_EVENTS_VERSION, seq: 1 })),
+    ).toBeNull();
+  });
+
+  it('should ignore events from another schema version', () => {
+    expect(
+      decodeAgentEvent(encodeJson({ type: 'bot_response', text: 'Hi', version: 99, seq: 1 })),
+    ).toBeNull();
+  });
+});
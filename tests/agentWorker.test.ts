@@ -0,0 +1,158 @@
+import { AgentSession, AgentWorker, AgentWorkerError } from '../src/agents/AgentWorker';
+import { ConversationState } from '../src/domain/conversation/state';
+
+// The real VoiceAgent needs LiveKit, providers and a database
+jest.mock('../src/agents/VoiceAgent', () => ({ VoiceAgent: jest.fn() }));
+
+/**
+ * Agent double whose session ends when disconnect() is called or end() is triggered
+ */
+class FakeAgent implements AgentSession {
+  connected = false;
+  disconnected = false;
+  private resolveEnded!: () => void;
+  private ended = new Promise<void>((resolve) => {
+    this.resolveEnded = resolve;
+  });
+
+  constructor(
+    readonly roomName: string,
+    private readonly connectError?: Error,
+  ) {}
+
+  async connect(): Promise<void> {
+    if (this.connectError) throw this.connectError;
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.disconnected = true;
+    this.end();
+  }
+
+  waitForEnd(): Promise<void> {
+    return this.ended;
+  }
+
+  end(): void {
+    this.resolveEnded();
+  }
+
+  getStatus() {
+    return {
+      sessionId: `session-${this.roomName}`,
+      roomName: this.roomName,
+      state: ConversationState.GREETING,
+      turnCount: 0,
+      isSpeaking: false,
+      startedAt: new Date(),
+      lastUpdatedAt: new Date(),
+    };
+  }
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const createWorker = (maxConcurrency = 2, connectError?: Error) => {
+  const agents = new Map<string, FakeAgent>();
+  const worker = new AgentWorker({
+    maxConcurrency,
+    agentIdentity: 'voice_agent_bot',
+    createAgent: (roomName) => {
+      const agent = new FakeAgent(roomName, connectError);
+      agents.set(roomName, agent);
+      return agent;
+    },
+    createToken: async (roomName) => `token-${roomName}`,
+  });
+  return { worker, agents };
+};
+
+describe('AgentWorker', () => {
+  it('should dispatch one agent per room', async () => {
+    const { worker, agents } = createWorker();
+
+    await worker.startSession('room-a');
+    await worker.startSession('room-b');
+    await flush();
+
+    expect(agents.get('room-a')!.connected).toBe(true);
+    expect(agents.get('room-b')!.connected).toBe(true);
+    expect(worker.getSessions().map((s) => s.roomName)).toEqual(['room-a', 'room-b']);
+  });
+
+  it('should report per-session status', async () => {
+    const { worker } = createWorker();
+
+    const started = await worker.startSession('room-a');
+    expect(started.phase).toBe('connecting');
+
+    await flush();
+    const status = worker.getSession('room-a');
+    expect(status?.phase).toBe('active');
+    expect(status?.agent.sessionId).toBe('session-room-a');
+    expect(worker.getSession('room-b')).toBeUndefined();
+  });
+
+  it('should ignore duplicate start events for the same room', async () => {
+    const { worker, agents } = createWorker();
+
+    await worker.startSession('room-a');
+    await worker.startSession('room-a');
+
+    expect(agents.size).toBe(1);
+    expect(worker.getCapacity()).toEqual({ active: 1, max: 2 });
+  });
+
+  it('should reject rooms beyond the concurrency limit', async () => {
+    const { worker } = createWorker(1);
+
+    await worker.startSession('room-a');
+
+    await expect(worker.startSession('room-b')).rejects.toThrow(AgentWorkerError);
+    await expect(worker.startSession('room-b')).rejects.toMatchObject({ code: 'at_capacity' });
+  });
+
+  it('should free the slot when a session ends', async () => {
+    const { worker, agents } = createWorker(1);
+
+    await worker.startSession('room-a');
+    agents.get('room-a')!.end();
+    await flush();
+
+    expect(worker.hasSession('room-a')).toBe(false);
+    await expect(worker.startSession('room-b')).resolves.toMatchObject({ roomName: 'room-b' });
+  });
+
+  it('should clean up sessions whose agent failed to join', async () => {
+    const { worker, agents } = createWorker(2, new Error('connection refused'));
+
+    await worker.startSession('room-a');
+    await flush();
+
+    expect(agents.get('room-a')!.disconnected).toBe(true);
+    expect(worker.hasSession('room-a')).toBe(false);
+  });
+
+  it('should stop a single session', async () => {
+    const { worker, agents } = createWorker();
+
+    await worker.startSession('room-a');
+
+    expect(await worker.stopSession('room-a')).toBe(true);
+    expect(agents.get('room-a')!.disconnected).toBe(true);
+    expect(await worker.stopSession('room-a')).toBe(false);
+  });
+
+  it('should end every session and refuse new ones on shutdown', async () => {
+    const { worker, agents } = createWorker();
+
+    await worker.startSession('room-a');
+    await worker.startSession('room-b');
+    await worker.shutdown();
+
+    expect([...agents.values()].every((agent) => agent.disconnected)).toBe(true);
+    expect(worker.getSessions()).toEqual([]);
+    await expect(worker.startSession('room-c')).rejects.toMatchObject({ code: 'shutting_down' });
+  });
+});
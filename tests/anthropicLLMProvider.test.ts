@@ -0,0 +1,146 @@
+import { getUncertainDetailsNote } from '../src/services/prompts/confirmationPrompts';
+import { AnthropicLLMProvider } from '../src/services/providers/AnthropicLLMProvider';
+import { LLMErrorType } from '../src/services/providers/LLMErrorHandler';
+import { LLMMessage, LLMStreamEvent, ToolDefinition } from '../src/services/providers/types';
+
+import maxTokensResponse from './fixtures/anthropic/maxTokensResponse.json';
+import toolConversation from './fixtures/anthropic/toolConversation.json';
+import toolUseResponse from './fixtures/anthropic/toolUseResponse.json';
+
+const mockCreate = jest.fn();
+
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({ messages: { create: mockCreate } })),
+}));
+
+const tools: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_ticket',
+      description: 'Create a support ticket',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+];
+
+const createProvider = () =>
+  new AnthropicLLMProvider('test-key', 'claude-3-haiku-20240307', {
+    retryConfig: { maxRetries: 0 },
+  });
+
+const lastRequest = () => mockCreate.mock.calls.at(-1)?.[0];
+
+describe('AnthropicLLMProvider', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue(toolUseResponse);
+  });
+
+  it('should send tool calls as tool_use blocks and their results as tool_result blocks', async () => {
+    await createProvider().complete(toolConversation.messages as LLMMessage[]);
+
+    expect(lastRequest().system).toBe('You are an IT helpdesk assistant.');
+    expect(lastRequest().messages).toEqual(toolConversation.request);
+  });
+
+  it('should add notes from the middle of the conversation to the system prompt', async () => {
+    const note = getUncertainDetailsNote([{ field: 'phone', value: '(555) 123-4567' }], 'es');
+
+    await createProvider().complete([
+      { role: 'system', content: 'You are an IT helpdesk assistant.' },
+      { role: 'user', content: 'Mi teléfono es 555 123 4567' },
+      { role: 'assistant', content: '¿Y su dirección?' },
+      { role: 'user', content: 'Calle Mayor 12, Madrid' },
+      { role: 'system', content: note },
+    ]);
+
+    expect(lastRequest().system).toBe(`You are an IT helpdesk assistant.\n\n${note}`);
+    expect(lastRequest().system).toContain('- número de teléfono: (555) 123-4567');
+    expect(lastRequest().messages).toHaveLength(3);
+  });
+
+  it('should map the tool choice', async () => {
+    const provider = createProvider();
+
+    await provider.complete([{ role: 'user', content: 'hi' }], { tools, toolChoice: 'auto' });
+    expect(lastRequest().tool_choice).toEqual({ type: 'auto' });
+
+    await provider.complete([{ role: 'user', content: 'hi' }], { tools, toolChoice: 'required' });
+    expect(lastRequest().tool_choice).toEqual({ type: 'any' });
+
+    await provider.complete([{ role: 'user', content: 'hi' }], {
+      tools,
+      toolChoice: { type: 'function', function: { name: 'create_ticket' } },
+    });
+    expect(lastRequest().tool_choice).toEqual({ type: 'tool', name: 'create_ticket' });
+  });
+
+  it('should leave out the tool choice without tools', async () => {
+    await createProvider().complete([{ role: 'user', content: 'hi' }], { toolChoice: 'auto' });
+
+    expect(lastRequest()).not.toHaveProperty('tool_choice');
+  });
+
+  it('should return tool_use blocks as tool calls', async () => {
+    const result = await createProvider().complete([{ role: 'user', content: 'yes' }], { tools });
+
+    expect(result).toMatchObject({
+      content: "I'll create your ticket now.",
+      toolCalls: [
+        {
+          id: 'toolu_03',
+          type: 'function',
+          function: {
+            name: 'create_ticket',
+            arguments: JSON.stringify({ name: 'John Smith', email: 'john@example.com' }),
+          },
+        },
+      ],
+      finishReason: 'tool_calls',
+      usage: { promptTokens: 120, completionTokens: 40, totalTokens: 160 },
+    });
+  });
+
+  it('should report a response cut off at max_tokens as length', async () => {
+    mockCreate.mockResolvedValue(maxTokensResponse);
+
+    const result = await createProvider().complete([{ role: 'user', content: 'thanks' }]);
+
+    expect(result.finishReason).toBe('length');
+    expect(result.toolCalls).toBeUndefined();
+  });
+
+  it('should abort a stream that stalls mid-response', async () => {
+    const controller = new AbortController();
+    mockCreate.mockResolvedValue({
+      controller,
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'text_delta', text: 'Let me check' },
+        };
+        // The connection stays open but nothing more arrives
+        await new Promise((resolve) => controller.signal.addEventListener('abort', resolve));
+        throw new Error('Request was aborted.');
+      },
+    });
+    const provider = new AnthropicLLMProvider('test-key', 'claude-3-haiku-20240307', {
+      retryConfig: { maxRetries: 0 },
+      timeoutMs: 50,
+    });
+
+    const events: LLMStreamEvent[] = [];
+    const consume = async () => {
+      for await (const event of provider.stream([{ role: 'user', content: 'hi' }])) {
+        events.push(event);
+      }
+    };
+
+    await expect(consume()).rejects.toMatchObject({ type: LLMErrorType.TIMEOUT });
+    expect(events).toEqual([{ type: 'text', delta: 'Let me check' }]);
+    expect(controller.signal.aborted).toBe(true);
+  });
+});
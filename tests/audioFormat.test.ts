@@ -0,0 +1,276 @@
+import {
+  convertPcm,
+  decodeAudio,
+  decodeWav,
+  encodeWav,
+  fadeOut,
+  parseWavHeader,
+  PcmConverter,
+} from '../src/services/audio/audioFormat';
+
+/**
+ * 16-bit PCM from a list of samples
+ */
+const pcm16 = (samples: number[]): Buffer => {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return buffer;
+};
+
+const readSamples = (buffer: Buffer): number[] =>
+  Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+
+/**
+ * Sine wave as 16-bit mono PCM
+ */
+const sine = (sampleRate: number, ms: number, hz = 440): Buffer =>
+  pcm16(
+    Array.from({ length: (sampleRate * ms) / 1000 }, (_, i) =>
+      Math.round(Math.sin((2 * Math.PI * hz * i) / sampleRate) * 10000),
+    ),
+  );
+
+/**
+ * Build a WAV file with arbitrary fmt fields and optional extra chunks before the data
+ */
+const buildWav = (options: {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  data: Buffer;
+  extraChunks?: Array<{ id: string; body: Buffer }>;
+}): Buffer => {
+  const fmt = Buffer.alloc(16);
+  const blockAlign = (options.channels * options.bitsPerSample) / 8;
+  fmt.writeUInt16LE(options.audioFormat, 0);
+  fmt.writeUInt16LE(options.channels, 2);
+  fmt.writeUInt32LE(options.sampleRate, 4);
+  fmt.writeUInt32LE(options.sampleRate * blockAlign, 8);
+  fmt.writeUInt16LE(blockAlign, 12);
+  fmt.writeUInt16LE(options.bitsPerSample, 14);
+
+  const chunk = (id: string, body: Buffer): Buffer => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 'ascii');
+    header.writeUInt32LE(body.length, 4);
+    const padding = Buffer.alloc(body.length % 2);
+    return Buffer.concat([header, body, padding]);
+  };
+
+  const chunks = Buffer.concat([
+    chunk('fmt ', fmt),
+    ...(options.extraChunks ?? []).map((c) => chunk(c.id, c.body)),
+    chunk('data', options.data),
+  ]);
+
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(4 + chunks.length, 4);
+  riff.write('WAVE', 8, 'ascii');
+  return Buffer.concat([riff, chunks]);
+};
+
+describe('Audio format utilities', () => {
+  describe('parseWavHeader', () => {
+    it('should read the format of a Piper-style WAV', () => {
+      const wav = encodeWav(pcm16([1, 2, 3, 4]), { sampleRate: 22050, channels: 1 });
+      const info = parseWavHeader(wav);
+
+      expect(info.format).toEqual({ sampleRate: 22050, channels: 1 });
+      expect(info.bitsPerSample).toBe(16);
+      expect(info.dataOffset).toBe(44);
+      expect(info.dataLength).toBe(8);
+    });
+
+    it('should skip unknown chunks before the data', () => {
+      const wav = buildWav({
+        audioFormat: 1,
+        channels: 2,
+        sampleRate: 16000,
+        bitsPerSample: 16,
+        data: pcm16([5, 6]),
+        extraChunks: [{ id: 'LIST', body: Buffer.from('INFOsoftware') }],
+      });
+
+      const info = parseWavHeader(wav);
+      expect(info.format).toEqual({ sampleRate: 16000, channels: 2 });
+      expect(wav.subarray(info.dataOffset, info.dataOffset + info.dataLength)).toEqual(
+        pcm16([5, 6]),
+      );
+    });
+
+    it('should use the remaining bytes when the data size is unknown', () => {
+      const wav = encodeWav(pcm16([1, 2, 3]), { sampleRate: 22050, channels: 1 });
+      wav.writeUInt32LE(0xffffffff, 40);
+
+      expect(parseWavHeader(wav).dataLength).toBe(6);
+    });
+
+    it('should reject files that are not WAV', () => {
+      expect(() => parseWavHeader(Buffer.from('ID3 not a wav file'))).toThrow('Not a RIFF/WAVE');
+    });
+  });
+
+  describe('decodeWav', () => {
+    it('should strip the header from 16-bit PCM', () => {
+      const samples = pcm16([100, -100, 32767, -32768]);
+      const decoded = decodeWav(encodeWav(samples, { sampleRate: 22050, channels: 1 }));
+
+      expect(decoded.pcm).toEqual(samples);
+      expect(decoded.format).toEqual({ sampleRate: 22050, channels: 1 });
+    });
+
+    it('should convert 8-bit unsigned samples', () => {
+      const decoded = decodeWav(
+        buildWav({
+          audioFormat: 1,
+          channels: 1,
+          sampleRate: 8000,
+          bitsPerSample: 8,
+          data: Buffer.from([128, 255, 0]),
+        }),
+      );
+
+      const [silence, high, low] = readSamples(decoded.pcm);
+      expect(silence).toBe(0);
+      expect(high).toBeGreaterThan(32000);
+      expect(low).toBe(-32767);
+    });
+
+    it('should convert 32-bit float samples', () => {
+      const data = Buffer.alloc(12);
+      data.writeFloatLE(0.5, 0);
+      data.writeFloatLE(-1, 4);
+      data.writeFloatLE(2, 8);
+
+      const decoded = decodeWav(
+        buildWav({ audioFormat: 3, channels: 1, sampleRate: 24000, bitsPerSample: 32, data }),
+      );
+
+      // Out-of-range floats are clipped
+      expect(readSamples(decoded.pcm)).toEqual([16384, -32767, 32767]);
+    });
+
+    it('should reject unsupported encodings', () => {
+      const wav = buildWav({
+        audioFormat: 6, // A-law
+        channels: 1,
+        sampleRate: 8000,
+        bitsPerSample: 8,
+        data: Buffer.from([1, 2]),
+      });
+
+      expect(() => decodeWav(wav)).toThrow('Unsupported WAV encoding');
+    });
+  });
+
+  describe('decodeAudio', () => {
+    it('should decode WAV even when MP3 was requested', async () => {
+      const wav = encodeWav(pcm16([1, 2]), { sampleRate: 22050, channels: 1 });
+      const decoded = await decodeAudio(wav, 'mp3');
+
+      expect(decoded.format.sampleRate).toBe(22050);
+      expect(readSamples(decoded.pcm)).toEqual([1, 2]);
+    });
+
+    it('should reject WAV output without a RIFF header', async () => {
+      await expect(decodeAudio(pcm16([1, 2, 3]), 'wav')).rejects.toThrow('not a valid wav file');
+    });
+  });
+
+  describe('PcmConverter', () => {
+    it('should pass through audio that is already in the output format', () => {
+      const samples = pcm16([1, 2, 3]);
+      expect(
+        convertPcm(samples, { sampleRate: 24000, channels: 1 }, { sampleRate: 24000, channels: 1 }),
+      ).toEqual(samples);
+    });
+
+    it('should downmix stereo by averaging channels', () => {
+      const stereo = pcm16([1000, 3000, -2000, 2000]);
+      const mono = convertPcm(
+        stereo,
+        { sampleRate: 24000, channels: 2 },
+        { sampleRate: 24000, channels: 1 },
+      );
+
+      expect(readSamples(mono)).toEqual([2000, 0]);
+    });
+
+    it('should upmix mono to every output channel', () => {
+      const stereo = convertPcm(
+        pcm16([100, 200]),
+        { sampleRate: 24000, channels: 1 },
+        { sampleRate: 24000, channels: 2 },
+      );
+
+      expect(readSamples(stereo)).toEqual([100, 100, 200, 200]);
+    });
+
+    it('should resample 22.05kHz Piper audio to 24kHz without changing its duration', () => {
+      const input = sine(22050, 1000);
+      const output = convertPcm(
+        input,
+        { sampleRate: 22050, channels: 1 },
+        { sampleRate: 24000, channels: 1 },
+      );
+
+      expect(Math.abs(output.length / 2 - 24000)).toBeLessThanOrEqual(2);
+    });
+
+    it('should preserve pitch when resampling', () => {
+      const output = readSamples(
+        convertPcm(
+          sine(22050, 1000),
+          { sampleRate: 22050, channels: 1 },
+          { sampleRate: 24000, channels: 1 },
+        ),
+      );
+
+      // A 440Hz tone crosses zero upwards 440 times a second
+      let crossings = 0;
+      for (let i = 1; i < output.length; i++) {
+        if (output[i - 1]! < 0 && output[i]! >= 0) crossings++;
+      }
+      expect(Math.abs(crossings - 440)).toBeLessThanOrEqual(1);
+    });
+
+    it('should give the same result for chunked and one-shot input', () => {
+      const input = sine(22050, 200);
+      const from = { sampleRate: 22050, channels: 1 };
+      const to = { sampleRate: 24000, channels: 1 };
+
+      const converter = new PcmConverter(from, to);
+      const chunks: Buffer[] = [];
+      // Odd chunk sizes split samples across chunk boundaries
+      for (let offset = 0; offset < input.length; offset += 333) {
+        chunks.push(converter.push(input.subarray(offset, offset + 333)));
+      }
+
+      expect(Buffer.concat(chunks)).toEqual(convertPcm(input, from, to));
+    });
+  });
+
+  describe('fadeOut', () => {
+    it('should fade the start of the buffer to silence', () => {
+      const faded = fadeOut(
+        pcm16([1000, 1000, 1000, 1000, 1000, 1000]),
+        { sampleRate: 1000, channels: 1 },
+        4,
+      );
+
+      expect(readSamples(faded)).toEqual([750, 500, 250, 0]);
+    });
+
+    it('should apply the same gain to every channel of a frame', () => {
+      const faded = fadeOut(
+        pcm16([1000, -1000, 1000, -1000]),
+        { sampleRate: 1000, channels: 2 },
+        10,
+      );
+
+      expect(readSamples(faded)).toEqual([500, -500, 0, 0]);
+    });
+  });
+});
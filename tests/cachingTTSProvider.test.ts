@@ -0,0 +1,127 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { CachingTTSProvider } from '../src/services/providers/CachingTTSProvider';
+import { TTSCache } from '../src/services/providers/TTSCache';
+import { TTSProvider } from '../src/services/providers/types';
+
+const FORMAT = { sampleRate: 24000, channels: 1 };
+const VOICE = { provider: 'openai', voice: 'alloy', model: 'tts-1' };
+
+/**
+ * TTS that answers every phrase with 100ms of 24kHz audio, in two chunks when streamed
+ */
+const createTTS = () => {
+  const audio = Buffer.alloc(4800, 1);
+  const tts = {
+    synthesize: jest.fn(async () => ({ audio, format: FORMAT })),
+    synthesizeStream: jest.fn(async () => ({
+      format: FORMAT,
+      chunks: (async function* () {
+        yield audio.subarray(0, 2400);
+        yield audio.subarray(2400);
+      })(),
+    })),
+    close: jest.fn(async () => undefined),
+  };
+  return { tts: tts as TTSProvider & typeof tts, audio };
+};
+
+const readAll = async (chunks: AsyncIterable<Buffer>): Promise<Buffer> => {
+  const parts: Buffer[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  return Buffer.concat(parts);
+};
+
+describe('CachingTTSProvider', () => {
+  let dir: string;
+
+  const createCache = (maxBytes = 1024 * 1024) => new TTSCache({ dir, maxBytes, format: FORMAT });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'tts-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should synthesize a phrase once and then serve it from disk', async () => {
+    const { tts, audio } = createTTS();
+    const provider = new CachingTTSProvider(tts, createCache(), VOICE);
+
+    await provider.synthesize('Hello!');
+    const cached = await provider.synthesize('Hello!');
+
+    expect(tts.synthesize).toHaveBeenCalledTimes(1);
+    expect(cached.audio).toEqual(audio);
+    expect(cached.metadata).toEqual(expect.objectContaining({ cached: true }));
+  });
+
+  it('should keep entries across restarts', async () => {
+    const { tts } = createTTS();
+    await new CachingTTSProvider(tts, createCache(), VOICE).synthesize('Hello!');
+
+    const restarted = new CachingTTSProvider(tts, createCache(), VOICE);
+    await restarted.synthesize('Hello!');
+
+    expect(tts.synthesize).toHaveBeenCalledTimes(1);
+  });
+
+  it('should key entries by voice as well as text', async () => {
+    const { tts } = createTTS();
+    const cache = createCache();
+
+    await new CachingTTSProvider(tts, cache, VOICE).synthesize('Hello!');
+    await new CachingTTSProvider(tts, cache, { ...VOICE, voice: 'nova' }).synthesize('Hello!');
+
+    expect(tts.synthesize).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cache a stream only once it was read to the end', async () => {
+    const { tts, audio } = createTTS();
+    const provider = new CachingTTSProvider(tts, createCache(), VOICE);
+
+    // Abandoned after the first chunk, like a barge-in
+    for await (const chunk of (await provider.synthesizeStream('Hello!')).chunks) {
+      expect(chunk.length).toBe(2400);
+      break;
+    }
+    expect(await readAll((await provider.synthesizeStream('Hello!')).chunks)).toEqual(audio);
+    const cached = await provider.synthesizeStream('Hello!');
+
+    expect(tts.synthesizeStream).toHaveBeenCalledTimes(2);
+    expect(cached.format).toEqual(FORMAT);
+    expect(await readAll(cached.chunks)).toEqual(audio);
+  });
+
+  it('should evict the least recently used phrase past the size limit', async () => {
+    const { tts } = createTTS();
+    const provider = new CachingTTSProvider(tts, createCache(10_000), VOICE);
+
+    await provider.synthesize('one');
+    await provider.synthesize('two');
+    await provider.synthesize('one');
+    await provider.synthesize('three');
+    expect(await readdir(dir)).toHaveLength(2);
+
+    tts.synthesize.mockClear();
+    await provider.synthesize('one');
+    await provider.synthesize('two');
+
+    expect(tts.synthesize).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pre-render only the phrases that are missing', async () => {
+    const { tts } = createTTS();
+    const provider = new CachingTTSProvider(tts, createCache(), VOICE);
+    await provider.synthesize('Hello!');
+    tts.synthesize.mockClear();
+
+    await provider.warmUp(['Hello!', 'Goodbye!', 'Goodbye!']);
+
+    expect(tts.synthesize).toHaveBeenCalledTimes(1);
+    expect(tts.synthesize).toHaveBeenCalledWith('Goodbye!');
+  });
+});
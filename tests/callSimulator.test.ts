@@ -0,0 +1,139 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { CallSimulator } from '../src/agents/CallSimulator';
+import { ConversationState } from '../src/domain/conversation/state';
+import { decodeWav, encodeWav } from '../src/services/audio/audioFormat';
+import { EnergyVoiceActivityDetector } from '../src/services/audio/VoiceActivityDetector';
+import { LLMMessage, LLMProvider, STTProvider, TTSProvider } from '../src/services/providers/types';
+
+jest.mock('../src/services/tools/ToolExecutor', () => ({
+  toolDefinitions: [],
+  ToolExecutor: jest.fn(() => ({ execute: jest.fn() })),
+}));
+jest.mock('../src/domain/issue/IssueClassifier', () => ({
+  IssueClassifier: jest.fn(() => ({ classify: jest.fn() })),
+}));
+jest.mock('../src/data/repositories/ConversationLogRepository', () => ({
+  ConversationLogRepository: jest.fn(() => ({ createLog: jest.fn() })),
+}));
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * 16kHz mono WAV with a loud tone for each "word" and silence around it
+ */
+const recording = (...parts: Array<['tone' | 'silence', number]>): Buffer => {
+  const samples: number[] = [];
+  for (const [kind, ms] of parts) {
+    for (let i = 0; i < (SAMPLE_RATE * ms) / 1000; i++) {
+      samples.push(kind === 'tone' ? Math.round(8000 * Math.sin(i / 5)) : 0);
+    }
+  }
+  const pcm = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => pcm.writeInt16LE(sample, i * 2));
+  return encodeWav(pcm, { sampleRate: SAMPLE_RATE, channels: 1 });
+};
+
+const createProviders = (transcripts: string[]) => {
+  const stt: STTProvider = {
+    transcribe: jest.fn(async () => ({ text: transcripts.shift() ?? '', confidence: 0.9 })),
+    close: jest.fn(),
+  };
+  const llm: LLMProvider = {
+    complete: jest.fn(async (messages: LLMMessage[]) => ({
+      content: `You said: ${messages[messages.length - 1]?.content}`,
+      finishReason: 'stop' as const,
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    })),
+    close: jest.fn(),
+  };
+  // 100ms of 22.05kHz audio per reply, to check the output is resampled
+  const tts: TTSProvider = {
+    synthesize: jest.fn(),
+    synthesizeStream: jest.fn(async () => ({
+      format: { sampleRate: 22050, channels: 1 },
+      chunks: (async function* () {
+        yield Buffer.alloc(2205 * 2);
+      })(),
+    })),
+    close: jest.fn(),
+  };
+  return { stt, llm, tts };
+};
+
+describe('CallSimulator', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(path.join(tmpdir(), 'call-simulator-'));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should answer typed turns and write each reply as a WAV file', async () => {
+    const providers = createProviders([]);
+    const simulator = new CallSimulator({
+      providers,
+      vad: new EnergyVoiceActivityDetector(),
+      outputDir,
+    });
+
+    const { transcript, context } = await simulator.run([{ type: 'text', text: 'John Smith' }]);
+
+    expect(transcript.map((entry) => [entry.speaker, entry.text])).toEqual([
+      ['bot', expect.stringContaining('May I have your name')],
+      ['caller', 'John Smith'],
+      ['bot', 'You said: John Smith'],
+    ]);
+    expect(context).toMatchObject({ name: 'John Smith', state: ConversationState.ENDED });
+
+    const reply = decodeWav(await readFile(path.join(outputDir, '02-bot.wav')));
+    expect(reply.format).toEqual({ sampleRate: 24000, channels: 1 });
+    // 100ms at 24kHz
+    expect(reply.pcm.length / 2).toBeCloseTo(2400, -1);
+  });
+
+  it('should split a recording into utterances with the VAD', async () => {
+    const providers = createProviders(['John Smith', 'john at example dot com']);
+    const file = path.join(outputDir, 'caller.wav');
+    await writeFile(
+      file,
+      recording(['silence', 300], ['tone', 600], ['silence', 800], ['tone', 500], ['silence', 800]),
+    );
+    const simulator = new CallSimulator({
+      providers,
+      vad: new EnergyVoiceActivityDetector(),
+      outputDir,
+    });
+
+    const { transcript } = await simulator.run([{ type: 'audio', file }]);
+
+    expect(providers.stt.transcribe).toHaveBeenCalledTimes(2);
+    expect(transcript.filter((entry) => entry.speaker === 'caller')).toEqual([
+      { speaker: 'caller', text: 'John Smith', sourceFile: file, confidence: 0.9 },
+      { speaker: 'caller', text: 'john at example dot com', sourceFile: file, confidence: 0.9 },
+    ]);
+    expect(transcript.filter((entry) => entry.audioFile)).toHaveLength(3);
+  });
+
+  it('should ignore utterances STT could not make out', async () => {
+    const providers = createProviders(['']);
+    const file = path.join(outputDir, 'mumble.wav');
+    await writeFile(file, recording(['silence', 300], ['tone', 500], ['silence', 800]));
+    const simulator = new CallSimulator({
+      providers,
+      vad: new EnergyVoiceActivityDetector(),
+      outputDir,
+    });
+
+    const { transcript } = await simulator.run([{ type: 'audio', file }]);
+
+    expect(providers.stt.transcribe).toHaveBeenCalledTimes(1);
+    expect(providers.llm.complete).not.toHaveBeenCalled();
+    expect(transcript).toHaveLength(1);
+  });
+});
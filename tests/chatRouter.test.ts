@@ -0,0 +1,191 @@
+import { AddressInfo } from 'node:net';
+
+import express from 'express';
+import request from 'supertest';
+import { WebSocket } from 'ws';
+
+import {
+  attachChatWebSocket,
+  CHAT_WEBSOCKET_PATH,
+  createChatRouter,
+} from '../src/agents/chatRouter';
+import { ChatEngine, ChatSessions } from '../src/agents/ChatSessions';
+import { ConversationState } from '../src/domain/conversation/state';
+import { AgentEvent } from '../src/shared/agentEvents';
+import { LocaleSelection } from '../src/utils/locale';
+
+jest.mock('../src/agents/ConversationEngine', () => ({ ConversationEngine: jest.fn() }));
+jest.mock('../src/services/providers/ProviderFactory', () => ({ ProviderFactory: {} }));
+
+let nextId = 0;
+
+/**
+ * Engine that takes the first message as the name and then asks for the email
+ */
+const createFakeEngine = (onEvent: (event: AgentEvent) => void, { locale }: LocaleSelection) => {
+  const context: { sessionId: string; state: ConversationState; name?: string } = {
+    sessionId: `chat-${++nextId}`,
+    state: ConversationState.GREETING,
+  };
+  const engine = {
+    getSessionId: () => context.sessionId,
+    getContext: () => context,
+    getGreeting: () =>
+      locale === 'es' ? '¡Hola! ¿Me podría dar su nombre?' : 'Hello! May I have your name please?',
+    reportProgress: jest.fn(),
+    end: jest.fn(),
+    log: jest.fn(async () => undefined),
+    respond: jest.fn(async (text: string) => {
+      context.name = text;
+      context.state = ConversationState.COLLECTING_EMAIL;
+      onEvent({
+        type: 'state_changed',
+        state: context.state,
+        previousState: ConversationState.GREETING,
+        collected: ['name'],
+      });
+      return {
+        cancelled: false,
+        content: `Thanks ${text}, what is your email?`,
+        usedFallback: false,
+        streamed: false,
+        toolCalls: [],
+        tokens: 12,
+      };
+    }),
+  };
+  return { engine: engine as unknown as ChatEngine, close: jest.fn(async () => undefined) };
+};
+
+const createApp = (maxSessions = 5) => {
+  const sessions = new ChatSessions({
+    maxSessions,
+    idleTimeoutMs: 60_000,
+    createEngine: createFakeEngine,
+  });
+  const app = express();
+  app.use(express.json());
+  app.use(createChatRouter(sessions));
+  return { app, sessions };
+};
+
+describe('Chat API', () => {
+  it('should start a session with the greeting', async () => {
+    const { app, sessions } = createApp();
+
+    const res = await request(app).post('/chat/sessions');
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      reply: 'Hello! May I have your name please?',
+      state: ConversationState.GREETING,
+      collected: [],
+    });
+    expect(sessions.size()).toBe(1);
+    await sessions.shutdown();
+  });
+
+  it('should greet in the language the client asks for', async () => {
+    const { app, sessions } = createApp();
+
+    const res = await request(app).post('/chat/sessions').send({ language: 'es-MX' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.reply).toBe('¡Hola! ¿Me podría dar su nombre?');
+    await sessions.shutdown();
+  });
+
+  it('should answer a message with the reply and progress', async () => {
+    const { app, sessions } = createApp();
+    const { body } = await request(app).post('/chat/sessions');
+
+    const res = await request(app)
+      .post(`/chat/sessions/${body.sessionId}/messages`)
+      .send({ text: ' John Smith ' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      reply: 'Thanks John Smith, what is your email?',
+      state: ConversationState.COLLECTING_EMAIL,
+      collected: ['name'],
+    });
+    expect(res.body.events.map((event: AgentEvent) => event.type)).toEqual([
+      'state_changed',
+      'bot_response',
+    ]);
+    await sessions.shutdown();
+  });
+
+  it('should reject a message without text', async () => {
+    const { app, sessions } = createApp();
+    const { body } = await request(app).post('/chat/sessions');
+
+    const res = await request(app).post(`/chat/sessions/${body.sessionId}/messages`).send({});
+
+    expect(res.status).toBe(400);
+    await sessions.shutdown();
+  });
+
+  it('should return 404 for an unknown session', async () => {
+    const { app } = createApp();
+
+    const res = await request(app).post('/chat/sessions/nope/messages').send({ text: 'hi' });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should end a session', async () => {
+    const { app, sessions } = createApp();
+    const { body } = await request(app).post('/chat/sessions');
+
+    const res = await request(app).delete(`/chat/sessions/${body.sessionId}`);
+
+    expect(res.status).toBe(204);
+    expect(sessions.size()).toBe(0);
+    expect((await request(app).delete(`/chat/sessions/${body.sessionId}`)).status).toBe(404);
+  });
+
+  it('should refuse new sessions at capacity', async () => {
+    const { app, sessions } = createApp(1);
+    await request(app).post('/chat/sessions');
+
+    const res = await request(app).post('/chat/sessions');
+
+    expect(res.status).toBe(503);
+    await sessions.shutdown();
+  });
+
+  it('should chat over a WebSocket', async () => {
+    const { app, sessions } = createApp();
+    const server = app.listen(0);
+    const wss = attachChatWebSocket(server, sessions);
+    const { port } = server.address() as AddressInfo;
+
+    const socket = new WebSocket(`ws://localhost:${port}${CHAT_WEBSOCKET_PATH}`);
+    const messages: Array<AgentEvent & { seq: number }> = [];
+    const received = new Promise<void>((resolve) => {
+      socket.on('message', (data: Buffer) => {
+        messages.push(JSON.parse(data.toString('utf8')));
+        if (messages.length === 1) {
+          socket.send(JSON.stringify({ type: 'message', text: 'John Smith' }));
+        }
+        if (messages.length === 4) resolve();
+      });
+    });
+
+    await received;
+    socket.close();
+    wss.close();
+    server.close();
+    await sessions.shutdown();
+
+    expect(messages.map((message) => message.type)).toEqual([
+      'bot_response',
+      'user_transcript',
+      'state_changed',
+      'bot_response',
+    ]);
+    expect(messages.map((message) => message.seq)).toEqual([1, 2, 3, 4]);
+    expect(messages[3]).toMatchObject({ text: 'Thanks John Smith, what is your email?' });
+  });
+});
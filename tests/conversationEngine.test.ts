@@ -0,0 +1,424 @@
+import { ConversationEngine, ConversationEngineOptions } from '../src/agents/ConversationEngine';
+import { ConversationState } from '../src/domain/conversation/state';
+import { TurnTimer } from '../src/services/metrics/TurnTimer';
+import { FALLBACK_RESPONSES } from '../src/services/providers/LLMErrorHandler';
+import { LLMMessage, LLMProvider, LLMResult } from '../src/services/providers/types';
+import { AgentEvent } from '../src/shared/agentEvents';
+
+const mockExecute = jest.fn();
+const mockCreateLog = jest.fn(async () => ({}));
+
+jest.mock('../src/services/tools/ToolExecutor', () => ({
+  toolDefinitions: [],
+  ToolExecutor: jest.fn(() => ({ execute: mockExecute })),
+}));
+jest.mock('../src/domain/issue/IssueClassifier', () => ({
+  IssueClassifier: jest.fn(() => ({
+    classify: jest.fn(async () => ({ issueType: 'wifi', price: 20, confidence: 'high' })),
+  })),
+}));
+jest.mock('../src/data/repositories/ConversationLogRepository', () => ({
+  ConversationLogRepository: jest.fn(() => ({ createLog: mockCreateLog })),
+}));
+
+const result = (content: string, toolCalls?: LLMResult['toolCalls']): LLMResult => ({
+  content,
+  toolCalls,
+  finishReason: toolCalls ? 'tool_calls' : 'stop',
+  usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+});
+
+const createEngine = (
+  complete: LLMProvider['complete'],
+  options: Partial<ConversationEngineOptions> = {},
+) => {
+  const events: AgentEvent[] = [];
+  const llm = { complete: jest.fn(complete), close: jest.fn() } as unknown as LLMProvider;
+  const engine = new ConversationEngine({
+    llm,
+    onEvent: (event) => events.push(event),
+    ...options,
+  });
+  return { engine, events, llm };
+};
+
+describe('ConversationEngine', () => {
+  beforeEach(() => {
+    mockExecute.mockReset();
+    mockCreateLog.mockClear();
+  });
+
+  it('should collect the name and move on to the email', async () => {
+    const { engine, events } = createEngine(async () => result('Thanks John, what is your email?'));
+
+    const turn = await engine.respond('John Smith');
+
+    expect(turn).toMatchObject({
+      cancelled: false,
+      content: 'Thanks John, what is your email?',
+      usedFallback: false,
+      tokens: 15,
+    });
+    expect(engine.getContext().name).toBe('John Smith');
+    expect(engine.getState()).toBe(ConversationState.COLLECTING_EMAIL);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'state_changed', collected: ['name'] }),
+    );
+  });
+
+  it('should understand a spoken email and phone number', async () => {
+    const { engine } = createEngine(async () => result('Got it.'));
+
+    await engine.respond('John Smith');
+    await engine.respond('Sure, it is john dot smith at gmail dot com.');
+    await engine.respond('Five one zero, five five five, double one two three.');
+
+    expect(engine.getContext()).toMatchObject({
+      email: 'john.smith@gmail.com',
+      phone: '(510) 555-1123',
+    });
+    expect(engine.getState()).toBe(ConversationState.COLLECTING_ADDRESS);
+  });
+
+  it('should ask for a spelling after the email is missed twice', async () => {
+    const { engine, llm } = createEngine(async () => result('Could you repeat that?'));
+
+    await engine.respond('John Smith');
+    await engine.respond('It is john at, uh, sorry');
+    const turn = await engine.respond('john at the, hmm');
+
+    expect(turn).toMatchObject({ tokens: 0, streamed: false });
+    expect(turn.content).toContain('spell it for me');
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+    expect(engine.getContext().spelling).toEqual({ field: 'email', attempts: 0 });
+  });
+
+  it('should read a spelled email back and store it once confirmed', async () => {
+    const { engine, llm } = createEngine(async () => result('Got it.'));
+
+    await engine.respond('John Smith');
+    await engine.respond('Can I spell it?');
+    const readBack = await engine.respond('J as in Juliet, O, H, N, at gmail dot com');
+    const confirmed = await engine.respond('Yes, that is right');
+
+    expect(readBack.content).toBe('I have J, O, H, N at gmail dot com. Is that right?');
+    expect(confirmed.content).toBe('Got it.');
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+    expect(engine.getContext()).toMatchObject({ email: 'john@gmail.com', spelling: undefined });
+    expect(engine.getState()).toBe(ConversationState.COLLECTING_PHONE);
+  });
+
+  it('should take a corrected spelling after the read-back is rejected', async () => {
+    const { engine } = createEngine(async () => result('Thanks Jon.'));
+
+    await engine.respond('Let me spell my name');
+    await engine.respond('J, O, H, N');
+    const readBack = await engine.respond("No, it's J, O, N");
+    await engine.respond('Yes');
+
+    expect(readBack.content).toBe('I have J, O, N. Is that right?');
+    expect(engine.getContext().name).toBe('Jon');
+    expect(engine.getState()).toBe(ConversationState.COLLECTING_EMAIL);
+  });
+
+  it('should hand the field back to the LLM after three unclear spellings', async () => {
+    const { engine, llm } = createEngine(async () => result('No problem, say it once more.'));
+
+    await engine.respond('Let me spell my name');
+    const retry = await engine.respond('hmm');
+    await engine.respond('one moment');
+    const turn = await engine.respond('hold on');
+
+    expect(retry.content).toBe(
+      'Sorry about that. Please spell your name again, one letter at a time.',
+    );
+    expect(turn.content).toBe('No problem, say it once more.');
+    expect(llm.complete).toHaveBeenCalledTimes(1);
+    expect(engine.getContext().spelling).toBeUndefined();
+  });
+
+  it('should read back an email heard with low confidence before storing it', async () => {
+    const { engine, llm } = createEngine(async () => result('Got it.'), {
+      confidenceThresholds: { email: 0.85 },
+    });
+
+    await engine.respond('John Smith', { confidence: 0.6 });
+    const readBack = await engine.respond('john at gmail dot com', { confidence: 0.6 });
+
+    expect(readBack).toMatchObject({
+      content:
+        'Just to make sure I heard you right, your email address is J, O, H, N at gmail dot com. Is that correct?',
+      tokens: 0,
+    });
+    expect(engine.getContext().email).toBeUndefined();
+    expect(engine.getState()).toBe(ConversationState.COLLECTING_EMAIL);
+
+    await engine.respond('Yes', { confidence: 0.9 });
+
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+    expect(engine.getContext().email).toBe('john@gmail.com');
+    expect(engine.getContext().fieldConfidence).toEqual({ name: 0.6 });
+    expect(engine.getState()).toBe(ConversationState.COLLECTING_PHONE);
+  });
+
+  it('should take a correction to a read-back as a new answer', async () => {
+    const { engine } = createEngine(async () => result('Got it.'), {
+      confidenceThresholds: { name: 0.75 },
+    });
+
+    await engine.respond('Jon Smith', { confidence: 0.5 });
+    await engine.respond("No, it's John Smith", { confidence: 0.95 });
+
+    expect(engine.getContext()).toMatchObject({
+      name: 'John Smith',
+      fieldConfidence: { name: 0.95 },
+    });
+    expect(engine.getState()).toBe(ConversationState.COLLECTING_EMAIL);
+  });
+
+  it('should not point out details the caller confirmed in the final read-back', async () => {
+    let messages: LLMMessage[] = [];
+    const { engine } = createEngine(
+      async (sent) => {
+        messages = sent;
+        return result('Got it.');
+      },
+      { confidenceThresholds: { phone: 0.85 } },
+    );
+
+    await engine.respond('John Smith');
+    await engine.respond('john@example.com');
+    await engine.respond('555-123-4567', { confidence: 0.7 });
+    await engine.respond('Yes');
+    await engine.respond('123 Main Street, Springfield');
+    await engine.respond('My wifi keeps dropping every few minutes');
+
+    expect(engine.getState()).toBe(ConversationState.CONFIRMING_DETAILS);
+    const notes = messages.filter((message) => message.content?.startsWith('UNCERTAIN DETAILS'));
+    expect(notes).toHaveLength(0);
+    expect(engine.getContext().phone).toBe('(555) 123-4567');
+  });
+
+  it('should answer with a fallback when the LLM fails', async () => {
+    const { engine } = createEngine(async () => {
+      throw new Error('rate limited');
+    });
+
+    const turn = await engine.respond('John Smith');
+
+    expect(turn.usedFallback).toBe(true);
+    expect(turn.content).not.toBe('');
+  });
+
+  it('should drop a cancelled turn from the history', async () => {
+    const controller = new AbortController();
+    const { engine, llm } = createEngine(async () => {
+      controller.abort();
+      return result('Too late');
+    });
+
+    const turn = await engine.respond('John', { signal: controller.signal });
+    expect(turn.cancelled).toBe(true);
+
+    (llm.complete as jest.Mock).mockImplementation(async () => result('Hello again'));
+    await engine.respond('John Smith');
+
+    const history = (llm.complete as jest.Mock).mock.calls[1][0] as LLMMessage[];
+    expect(history.filter((message) => message.role === 'user')).toHaveLength(1);
+  });
+
+  it('should create the ticket once the details are confirmed', async () => {
+    mockExecute.mockResolvedValue(
+      JSON.stringify({ success: true, ticketId: 't-1', ticketNumber: 'TKT-001' }),
+    );
+    const { engine, events, llm } = createEngine(async () => result('Got it.'));
+
+    for (const answer of [
+      'John Smith',
+      'john@example.com',
+      '555-123-4567',
+      '123 Main Street, Springfield',
+      'My wifi keeps dropping every few minutes',
+    ]) {
+      await engine.respond(answer);
+    }
+    expect(engine.getState()).toBe(ConversationState.CONFIRMING_DETAILS);
+
+    (llm.complete as jest.Mock)
+      .mockImplementationOnce(async () =>
+        result('', [
+          { id: 'call_1', type: 'function', function: { name: 'create_ticket', arguments: '{}' } },
+        ]),
+      )
+      .mockImplementationOnce(async () => result('Your ticket is TKT-001.'));
+    const turn = await engine.respond('Yes, that is correct');
+
+    expect(turn.content).toBe('Your ticket is TKT-001.');
+
+    expect(engine.getState()).toBe(ConversationState.CONFIRMATION);
+    expect(events).toContainEqual({
+      type: 'ticket_created',
+      ticketId: 't-1',
+      ticketNumber: 'TKT-001',
+      issueType: 'wifi',
+      price: 20,
+    });
+  });
+
+  it('should send tool results back to the LLM until it answers', async () => {
+    mockExecute.mockResolvedValue(JSON.stringify({ isValid: false, error: 'Invalid email' }));
+    const { engine, llm } = createEngine(async () =>
+      result('That email looks invalid, could you repeat it?'),
+    );
+    (llm.complete as jest.Mock).mockImplementationOnce(async () =>
+      result('Let me check.', [
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'validate_email', arguments: '{"email":"john@"}' },
+        },
+      ]),
+    );
+
+    const turn = await engine.respond('John Smith');
+
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+    const history = (llm.complete as jest.Mock).mock.calls[1][0] as LLMMessage[];
+    expect(history.filter((message) => message.toolCalls || message.role === 'tool')).toEqual([
+      {
+        role: 'assistant',
+        content: 'Let me check.',
+        toolCalls: [expect.objectContaining({ id: 'call_1' })],
+      },
+      {
+        role: 'tool',
+        content: JSON.stringify({ isValid: false, error: 'Invalid email' }),
+        toolCallId: 'call_1',
+      },
+    ]);
+    expect(turn).toMatchObject({
+      content: 'Let me check. That email looks invalid, could you repeat it?',
+      toolCalls: [expect.objectContaining({ id: 'call_1' })],
+      tokens: 30,
+    });
+  });
+
+  it('should stop calling tools after the round limit', async () => {
+    mockExecute.mockResolvedValue(JSON.stringify({ isValid: true, email: 'john@example.com' }));
+    const { engine, llm } = createEngine(async () =>
+      result('', [
+        { id: 'call_1', type: 'function', function: { name: 'validate_email', arguments: '{}' } },
+      ]),
+    );
+
+    const turn = await engine.respond('John Smith');
+
+    expect(llm.complete).toHaveBeenCalledTimes(4);
+    expect(mockExecute).toHaveBeenCalledTimes(3);
+    expect(turn.usedFallback).toBe(true);
+    expect(turn.content).not.toBe('');
+  });
+
+  it('should not take a Spanish rejection of the read-back as a confirmation', async () => {
+    const { engine } = createEngine(async () => result('Entendido.'), { locale: 'es' });
+
+    for (const answer of [
+      'Ana Ruiz',
+      'ana@example.com',
+      '555-123-4567',
+      'Calle Mayor 12, Madrid',
+      'Mi wifi se desconecta cada pocos minutos',
+    ]) {
+      await engine.respond(answer);
+    }
+    expect(engine.getState()).toBe(ConversationState.CONFIRMING_DETAILS);
+
+    await engine.respond('No, no es correcto');
+    await engine.respond('Incorrecto, el teléfono está mal');
+    expect(engine.getState()).toBe(ConversationState.CONFIRMING_DETAILS);
+
+    await engine.respond('Sí, es correcto');
+    expect(engine.getState()).not.toBe(ConversationState.CONFIRMING_DETAILS);
+  });
+
+  it('should time the LLM call and each tool', async () => {
+    mockExecute.mockResolvedValue(JSON.stringify({ isValid: true, email: 'john@example.com' }));
+    const { engine, llm } = createEngine(async () => result('Thanks!'));
+    (llm.complete as jest.Mock).mockImplementationOnce(async () =>
+      result('', [
+        { id: 'call_1', type: 'function', function: { name: 'validate_email', arguments: '{}' } },
+      ]),
+    );
+    const timer = new TurnTimer();
+
+    await engine.respond('John Smith', { timer });
+
+    const timings = timer.getTimings();
+    expect(Object.keys(timings.marks)).toEqual([
+      'speech_end',
+      'llm_start',
+      'llm_first_token',
+      'llm_done',
+    ]);
+    expect(timings.tools).toEqual([expect.objectContaining({ name: 'validate_email' })]);
+  });
+
+  it('should report tool calls as they start and end, even when they fail', async () => {
+    mockExecute.mockRejectedValue(new Error('database down'));
+    const { engine } = createEngine(async () =>
+      result('One moment.', [
+        { id: 'call_1', type: 'function', function: { name: 'create_ticket', arguments: '{}' } },
+      ]),
+    );
+    const onToolStart = jest.fn();
+    const onToolEnd = jest.fn();
+
+    await expect(engine.respond('yes that is right', { onToolStart, onToolEnd })).rejects.toThrow(
+      'database down',
+    );
+
+    expect(onToolStart).toHaveBeenCalledWith('create_ticket');
+    expect(onToolEnd).toHaveBeenCalledWith('create_ticket');
+  });
+
+  it('should switch to the language the caller speaks', async () => {
+    let systemPrompt = '';
+    const { engine } = createEngine(
+      async (messages) => {
+        systemPrompt = messages[0]?.content ?? '';
+        throw new Error('rate limited');
+      },
+      { detectLocale: true },
+    );
+    expect(engine.getGreeting()).toMatch(/^Hello!/);
+
+    const turn = await engine.respond('Hola, me llamo Ana Ruiz');
+
+    expect(engine.getLocale()).toBe('es');
+    expect(engine.isDetectingLocale()).toBe(false);
+    expect(systemPrompt).toContain('The caller speaks Spanish');
+    expect(Object.values(FALLBACK_RESPONSES.es)).toContain(turn.content);
+  });
+
+  it('should keep a chosen language', async () => {
+    const { engine } = createEngine(async () => result('Thanks John.'), { locale: 'es' });
+
+    expect(engine.getGreeting()).toMatch(/^¡Hola!/);
+    await engine.respond('Hi, my name is John Smith and I need help');
+
+    expect(engine.getLocale()).toBe('es');
+  });
+
+  it('should not open the history with an assistant message', async () => {
+    let roles: string[] = [];
+    const { engine } = createEngine(async (messages) => {
+      roles = messages.map((message) => message.role);
+      return result('Thanks!');
+    });
+
+    engine.recordBotMessage('Are you still there?');
+    await engine.respond('John Smith');
+
+    expect(roles).toEqual(['system', 'user']);
+  });
+});
@@ -0,0 +1,33 @@
+import { loadEnv } from '../src/config/env';
+import { ConversationState } from '../src/domain/conversation/state';
+
+describe('loadEnv', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      DATABASE_URL: 'postgresql://localhost:5432/voicebot',
+      LIVEKIT_URL: 'wss://livekit.example.com',
+      LIVEKIT_API_KEY: 'key',
+      LIVEKIT_API_SECRET: 'secret',
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should read per-state inactivity timeouts', () => {
+    process.env.INACTIVITY_STATE_TIMEOUTS = '{"COLLECTING_ISSUE":{"repromptAfterMs":20000}}';
+
+    expect(loadEnv().INACTIVITY_STATE_TIMEOUTS).toEqual({
+      [ConversationState.COLLECTING_ISSUE]: { repromptAfterMs: 20000 },
+    });
+  });
+
+  it('should reject inactivity timeouts for a state that does not exist', () => {
+    process.env.INACTIVITY_STATE_TIMEOUTS = '{"COLLECTING_ISUE":{"repromptAfterMs":20000}}';
+
+    expect(() => loadEnv()).toThrow(/INACTIVITY_STATE_TIMEOUTS.*COLLECTING_ISUE/);
+  });
+});
@@ -0,0 +1,95 @@
+import { FillerScheduler } from '../src/domain/conversation/FillerScheduler';
+import { ConversationState } from '../src/domain/conversation/state';
+import {
+  DEFAULT_FILLERS,
+  getAllFillerPrompts,
+  getFillerPrompt,
+} from '../src/services/prompts/fillerPrompts';
+
+const createScheduler = (delayMs = 1500) => {
+  const onFiller = jest.fn();
+  const scheduler = new FillerScheduler({ delayMs, onFiller });
+  return { scheduler, onFiller };
+};
+
+describe('FillerScheduler', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('should play one filler once the turn is slow', () => {
+    const { scheduler, onFiller } = createScheduler();
+
+    scheduler.start();
+    jest.advanceTimersByTime(1499);
+    expect(onFiller).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onFiller).toHaveBeenCalledWith(null);
+
+    scheduler.start();
+    jest.advanceTimersByTime(10_000);
+    expect(onFiller).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the tool that is running', () => {
+    const { scheduler, onFiller } = createScheduler();
+
+    scheduler.start();
+    scheduler.toolStarted('validate_email');
+    scheduler.toolFinished();
+    scheduler.toolStarted('create_ticket');
+    jest.advanceTimersByTime(1500);
+
+    expect(onFiller).toHaveBeenCalledWith('create_ticket');
+  });
+
+  it('should not play a filler once the response is ready', () => {
+    const { scheduler, onFiller } = createScheduler();
+
+    scheduler.start();
+    jest.advanceTimersByTime(1000);
+    scheduler.responseReady();
+    scheduler.start();
+    jest.advanceTimersByTime(10_000);
+
+    expect(onFiller).not.toHaveBeenCalled();
+  });
+
+  it('should never play a filler when disabled', () => {
+    const { scheduler, onFiller } = createScheduler(0);
+
+    scheduler.start();
+    jest.advanceTimersByTime(60_000);
+
+    expect(onFiller).not.toHaveBeenCalled();
+  });
+});
+
+describe('getFillerPrompt', () => {
+  it('should prefer the running tool over the state', () => {
+    expect(getFillerPrompt(ConversationState.COLLECTING_ISSUE, 'create_ticket')).toBe(
+      'One moment while I create that ticket.',
+    );
+    expect(getFillerPrompt(ConversationState.COLLECTING_ISSUE, null)).toBe(
+      'Let me look into that for you.',
+    );
+  });
+
+  it('should fall back to the default filler', () => {
+    expect(getFillerPrompt(ConversationState.COLLECTING_NAME, 'unknown_tool')).toBe(
+      DEFAULT_FILLERS.en,
+    );
+  });
+
+  it("should speak the caller's language", () => {
+    expect(getFillerPrompt(ConversationState.TICKET_CREATION, null, 'es')).toBe(
+      'Un momento mientras creo el ticket.',
+    );
+  });
+
+  it('should list every filler once', () => {
+    const prompts = getAllFillerPrompts('en');
+    expect(new Set(prompts).size).toBe(prompts.length);
+    expect(prompts).toContain(DEFAULT_FILLERS.en);
+  });
+});
@@ -0,0 +1,62 @@
+import { createServer, IncomingHttpHeaders, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockRequest {
+  path?: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export type MockHandler = (request: MockRequest, res: ServerResponse) => void;
+
+/**
+ * Local HTTP server standing in for a provider API
+ * Records every request and answers it with the handler the test last set
+ */
+export interface MockServer {
+  // http://localhost:<port>, without a trailing slash
+  url: string;
+  requests: MockRequest[];
+  handle(handler: MockHandler): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export const startMockServer = async (): Promise<MockServer> => {
+  const requests: MockRequest[] = [];
+  let handler: MockHandler = (_request, res) => {
+    res.writeHead(500);
+    res.end();
+  };
+
+  const server = createServer((req, res) => {
+    const parts: Buffer[] = [];
+    req.on('data', (part: Buffer) => parts.push(part));
+    req.on('end', () => {
+      const request = { path: req.url, headers: req.headers, body: Buffer.concat(parts) };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+
+  return {
+    url: `http://localhost:${(server.address() as AddressInfo).port}`,
+    requests,
+    handle: (next) => {
+      handler = next;
+    },
+    reset: () => {
+      requests.length = 0;
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+};
+
+export const readJson = (request: MockRequest | undefined): Record<string, unknown> =>
+  JSON.parse(request?.body.toString('utf8') ?? '{}') as Record<string, unknown>;
+
+export const readForm = (request: MockRequest): Promise<FormData> =>
+  new Response(request.body, {
+    headers: { 'Content-Type': request.headers['content-type'] ?? '' },
+  }).formData();
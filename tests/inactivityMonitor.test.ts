@@ -0,0 +1,113 @@
+import { InactivityMonitor } from '../src/domain/conversation/InactivityMonitor';
+import { ConversationState } from '../src/domain/conversation/state';
+
+const createMonitor = (overrides = {}) => {
+  const onReprompt = jest.fn();
+  const onTimeout = jest.fn();
+  const monitor = new InactivityMonitor({
+    defaults: { repromptAfterMs: 10_000, hangupAfterMs: 30_000 },
+    overrides,
+    onReprompt,
+    onTimeout,
+  });
+  return { monitor, onReprompt, onTimeout };
+};
+
+describe('InactivityMonitor', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('should reprompt and then time out a silent caller', () => {
+    const { monitor, onReprompt, onTimeout } = createMonitor();
+
+    monitor.start(ConversationState.COLLECTING_EMAIL);
+
+    jest.advanceTimersByTime(10_000);
+    expect(onReprompt).toHaveBeenCalledWith(ConversationState.COLLECTING_EMAIL);
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(20_000);
+    expect(onTimeout).toHaveBeenCalledWith(ConversationState.COLLECTING_EMAIL);
+    expect(monitor.isRunning()).toBe(false);
+  });
+
+  it('should do nothing once the caller speaks', () => {
+    const { monitor, onReprompt, onTimeout } = createMonitor();
+
+    monitor.start(ConversationState.COLLECTING_NAME);
+    jest.advanceTimersByTime(9_000);
+    monitor.stop();
+    jest.advanceTimersByTime(60_000);
+
+    expect(onReprompt).not.toHaveBeenCalled();
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should restart the clock on every start', () => {
+    const { monitor, onReprompt } = createMonitor();
+
+    monitor.start(ConversationState.COLLECTING_NAME);
+    jest.advanceTimersByTime(9_000);
+    monitor.start(ConversationState.COLLECTING_EMAIL);
+    jest.advanceTimersByTime(9_000);
+    expect(onReprompt).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1_000);
+    expect(onReprompt).toHaveBeenCalledTimes(1);
+    expect(onReprompt).toHaveBeenCalledWith(ConversationState.COLLECTING_EMAIL);
+  });
+
+  it('should apply per-state overrides', () => {
+    const { monitor, onReprompt, onTimeout } = createMonitor({
+      [ConversationState.COLLECTING_ISSUE]: { repromptAfterMs: 20_000 },
+    });
+
+    expect(monitor.getTimeouts(ConversationState.COLLECTING_ISSUE)).toEqual({
+      repromptAfterMs: 20_000,
+      hangupAfterMs: 30_000,
+    });
+
+    monitor.start(ConversationState.COLLECTING_ISSUE);
+    jest.advanceTimersByTime(10_000);
+    expect(onReprompt).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(20_000);
+    expect(onReprompt).toHaveBeenCalledTimes(1);
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip the reprompt when it would not come before the hang-up', () => {
+    const { monitor, onReprompt, onTimeout } = createMonitor({
+      [ConversationState.CONFIRMATION]: { repromptAfterMs: 30_000 },
+    });
+
+    monitor.start(ConversationState.CONFIRMATION);
+    jest.advanceTimersByTime(30_000);
+
+    expect(onReprompt).not.toHaveBeenCalled();
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never hang up when disabled', () => {
+    const { monitor, onReprompt, onTimeout } = createMonitor({
+      [ConversationState.COLLECTING_ADDRESS]: { hangupAfterMs: 0 },
+    });
+
+    monitor.start(ConversationState.COLLECTING_ADDRESS);
+    jest.advanceTimersByTime(120_000);
+
+    expect(onReprompt).toHaveBeenCalledTimes(1);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should not time out while the ticket is being created or after the call ended', () => {
+    const { monitor, onTimeout } = createMonitor();
+
+    expect(monitor.getTimeouts(ConversationState.TICKET_CREATION)).toBeNull();
+    monitor.start(ConversationState.ENDED);
+    jest.advanceTimersByTime(120_000);
+
+    expect(monitor.isRunning()).toBe(false);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,29 @@
+import { IssueClassifier } from '../src/domain/issue/IssueClassifier';
+
+jest.mock('../src/data/repositories/ServiceCatalogRepository', () => ({
+  ServiceCatalogRepository: jest.fn(),
+}));
+
+describe('IssueClassifier', () => {
+  const classifier = new IssueClassifier();
+
+  describe('extractDirectSelection', () => {
+    it.each([
+      ['option 3', 'slow_laptop_performance'],
+      ['la opción dos', 'email_login_issues'],
+      ['no tengo conexión', 'wifi_not_working'],
+      ['olvidé mi contraseña', 'email_login_issues'],
+      ['mi laptop está muy lenta', 'slow_laptop_performance'],
+      ['la impresora no imprime', 'printer_problems'],
+    ])('should select the issue in "%s"', (text, issueType) => {
+      expect(classifier.extractDirectSelection(text)).toBe(issueType);
+    });
+
+    it.each([['my laptop fan is silent'], ['the new setup is impressive']])(
+      'should not find a Spanish word inside "%s"',
+      (text) => {
+        expect(classifier.extractDirectSelection(text)).toBeNull();
+      },
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { APIUserAbortError } from '@anthropic-ai/sdk';
+
+import { CircuitBreaker, LLMError, LLMErrorType } from '../src/services/providers/LLMErrorHandler';
+
+describe('LLMError.fromError', () => {
+  it('should classify an aborted request as cancelled', () => {
+    const abort = new Error('This operation was aborted');
+    abort.name = 'AbortError';
+
+    expect(LLMError.fromError(abort).type).toBe(LLMErrorType.CANCELLED);
+    expect(LLMError.fromError(new APIUserAbortError()).type).toBe(LLMErrorType.CANCELLED);
+  });
+
+  it('should classify any error as cancelled once the caller has aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = LLMError.fromError(new Error('socket hang up'), controller.signal);
+
+    expect(error.type).toBe(LLMErrorType.CANCELLED);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should retry a connection dropped by the server', () => {
+    const error = LLMError.fromError(new Error('aborted'), new AbortController().signal);
+
+    expect(error.type).not.toBe(LLMErrorType.CANCELLED);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should count a dropped connection toward the circuit breaker', async () => {
+    const breaker = new CircuitBreaker(1);
+    const dropped = () => Promise.reject(LLMError.fromError(new Error('aborted')));
+
+    await expect(breaker.execute(dropped)).rejects.toThrow('aborted');
+    await expect(breaker.execute(dropped)).rejects.toThrow('Circuit breaker is open');
+  });
+});
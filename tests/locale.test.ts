@@ -0,0 +1,48 @@
+import { detectLocale, parseLocale, resolveLocale } from '../src/utils/locale';
+
+describe('locale', () => {
+  describe('parseLocale', () => {
+    it.each([
+      ['es', 'es'],
+      ['es-MX', 'es'],
+      [' EN_us ', 'en'],
+      ['fr', null],
+      [undefined, null],
+      [42, null],
+    ])('should read %p as %p', (value, locale) => {
+      expect(parseLocale(value)).toBe(locale);
+    });
+  });
+
+  describe('detectLocale', () => {
+    it.each([
+      ['Hola, me llamo Ana Ruiz', 'es'],
+      ['Necesito ayuda con la impresora, por favor', 'es'],
+      ['Hi, my name is John Smith', 'en'],
+      ['My wifi is not working', 'en'],
+    ])('should detect the language of "%s"', (text, locale) => {
+      expect(detectLocale(text)).toBe(locale);
+    });
+
+    it.each(['John Smith', 'okay', 'Ana Ruiz, 555 1234', ''])(
+      'should not guess from "%s"',
+      (text) => {
+        expect(detectLocale(text)).toBeNull();
+      },
+    );
+  });
+
+  describe('resolveLocale', () => {
+    it("should prefer the client's choice", () => {
+      expect(resolveLocale('es', 'auto')).toEqual({ locale: 'es', detectLocale: false });
+    });
+
+    it('should fall back to the configured language', () => {
+      expect(resolveLocale('fr', 'es')).toEqual({ locale: 'es', detectLocale: false });
+    });
+
+    it('should start in English and detect with auto', () => {
+      expect(resolveLocale(undefined, 'auto')).toEqual({ locale: 'en', detectLocale: true });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { OllamaLLMProvider } from '../src/services/providers/OllamaLLMProvider';
+import { LLMMessage, LLMStreamEvent } from '../src/services/providers/types';
+
+import { MockServer, readJson, startMockServer } from './helpers/mockServer';
+
+const toolConversation: LLMMessage[] = [
+  { role: 'system', content: 'You are an IT helpdesk assistant.' },
+  { role: 'user', content: 'My email is john@example' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [
+      {
+        id: 'ollama-tool-0',
+        type: 'function',
+        function: { name: 'validate_email', arguments: '{"email":"john@example"}' },
+      },
+    ],
+  },
+  { role: 'tool', toolCallId: 'ollama-tool-0', content: '{"success":true,"isValid":false}' },
+];
+
+describe('OllamaLLMProvider', () => {
+  let server: MockServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startMockServer();
+    baseUrl = `${server.url}/`;
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => server.reset());
+
+  it('should send tool arguments as objects and name the tool of each result', async () => {
+    server.handle((_request, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          message: { role: 'assistant', content: 'That email looks incomplete.' },
+          prompt_eval_count: 40,
+          eval_count: 9,
+          done: true,
+          done_reason: 'stop',
+        }),
+      );
+    });
+
+    const result = await new OllamaLLMProvider(baseUrl, 'llama3.1').complete(toolConversation);
+
+    expect(server.requests[0]?.path).toBe('/api/chat');
+    expect(readJson(server.requests[0]).messages).toEqual([
+      { role: 'system', content: 'You are an IT helpdesk assistant.' },
+      { role: 'user', content: 'My email is john@example' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'ollama-tool-0',
+            function: { name: 'validate_email', arguments: { email: 'john@example' } },
+          },
+        ],
+      },
+      {
+        role: 'tool',
+        content: '{"success":true,"isValid":false}',
+        tool_name: 'validate_email',
+      },
+    ]);
+    expect(result).toMatchObject({
+      content: 'That email looks incomplete.',
+      finishReason: 'stop',
+      usage: { promptTokens: 40, completionTokens: 9, totalTokens: 49 },
+    });
+  });
+
+  it('should stream text and tool calls', async () => {
+    server.handle((_request, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write(`${JSON.stringify({ message: { content: 'Let me ' } })}\n`);
+      res.write(`${JSON.stringify({ message: { content: 'check.' } })}\n`);
+      res.write(
+        `${JSON.stringify({
+          message: {
+            content: '',
+            tool_calls: [
+              { function: { name: 'validate_email', arguments: { email: 'john@example.com' } } },
+            ],
+          },
+        })}\n`,
+      );
+      res.end(`${JSON.stringify({ done: true, prompt_eval_count: 30, eval_count: 12 })}\n`);
+    });
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of new OllamaLLMProvider(baseUrl, 'llama3.1').stream([
+      { role: 'user', content: 'hi' },
+    ])) {
+      events.push(event);
+    }
+
+    expect(readJson(server.requests[0]).stream).toBe(true);
+    expect(events.at(-1)).toMatchObject({
+      type: 'done',
+      result: {
+        content: 'Let me check.',
+        toolCalls: [
+          {
+            id: 'ollama-tool-0',
+            function: { name: 'validate_email', arguments: '{"email":"john@example.com"}' },
+          },
+        ],
+        finishReason: 'tool_calls',
+        usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+      },
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { ServerResponse } from 'http';
+
+import { LLMErrorType } from '../src/services/providers/LLMErrorHandler';
+import { OpenAILLMProvider } from '../src/services/providers/OpenAILLMProvider';
+import { LLMMessage, LLMStreamEvent, ToolDefinition } from '../src/services/providers/types';
+
+import { MockServer, readJson, startMockServer } from './helpers/mockServer';
+
+const tools: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'validate_email',
+      description: 'Validate an email address',
+      parameters: { type: 'object', properties: { email: { type: 'string' } } },
+    },
+  },
+];
+
+const completion = (message: Record<string, unknown>, finishReason: string) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'local-model',
+  choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: finishReason }],
+  usage: { prompt_tokens: 42, completion_tokens: 8, total_tokens: 50 },
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendEvents = (res: ServerResponse, chunks: unknown[]) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const chunk of chunks) {
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end('data: [DONE]\n\n');
+};
+
+const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 0,
+  model: 'local-model',
+  choices: [{ index: 0, delta, finish_reason: finishReason }],
+});
+
+describe('OpenAILLMProvider', () => {
+  let server: MockServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startMockServer();
+    baseUrl = `${server.url}/v1`;
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => server.reset());
+
+  const createProvider = () =>
+    new OpenAILLMProvider('', 'local-model', {
+      baseUrl,
+      retryConfig: { maxRetries: 1, baseDelay: 1 },
+    });
+
+  it('should send tools and the tool conversation, and return tool calls with usage', async () => {
+    server.handle((_request, res) =>
+      sendJson(
+        res,
+        200,
+        completion(
+          {
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_2',
+                type: 'function',
+                function: { name: 'validate_email', arguments: '{"email":"john@example.com"}' },
+              },
+            ],
+          },
+          'tool_calls',
+        ),
+      ),
+    );
+    const messages: LLMMessage[] = [
+      { role: 'system', content: 'You are an IT helpdesk assistant.' },
+      { role: 'user', content: 'My email is john@example' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'validate_email', arguments: '{"email":"john@example"}' },
+          },
+        ],
+      },
+      { role: 'tool', toolCallId: 'call_1', content: '{"success":true,"isValid":false}' },
+    ];
+
+    const result = await createProvider().complete(messages, { tools, toolChoice: 'auto' });
+
+    expect(server.requests[0]?.path).toBe('/v1/chat/completions');
+    expect(readJson(server.requests[0])).toMatchObject({
+      model: 'local-model',
+      tools,
+      tool_choice: 'auto',
+      messages: [
+        { role: 'system', content: 'You are an IT helpdesk assistant.' },
+        { role: 'user', content: 'My email is john@example' },
+        { role: 'assistant', content: null, tool_calls: messages[2]?.toolCalls },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"success":true,"isValid":false}' },
+      ],
+    });
+    expect(result).toMatchObject({
+      content: '',
+      toolCalls: [
+        {
+          id: 'call_2',
+          type: 'function',
+          function: { name: 'validate_email', arguments: '{"email":"john@example.com"}' },
+        },
+      ],
+      finishReason: 'tool_calls',
+      usage: { promptTokens: 42, completionTokens: 8, totalTokens: 50 },
+    });
+  });
+
+  it('should report a response cut off by the token limit as length', async () => {
+    server.handle((_request, res) =>
+      sendJson(res, 200, completion({ content: 'Your ticket has been' }, 'length')),
+    );
+
+    const result = await createProvider().complete([{ role: 'user', content: 'thanks' }]);
+
+    expect(result.content).toBe('Your ticket has been');
+    expect(result.finishReason).toBe('length');
+    expect(readJson(server.requests[0])).not.toHaveProperty('tool_choice');
+  });
+
+  it('should retry a server error', async () => {
+    let calls = 0;
+    server.handle((_request, res) => {
+      calls++;
+      if (calls === 1) {
+        sendJson(res, 503, { error: { message: 'overloaded' } });
+      } else {
+        sendJson(res, 200, completion({ content: 'Hello!' }, 'stop'));
+      }
+    });
+
+    const result = await createProvider().complete([{ role: 'user', content: 'hi' }]);
+
+    expect(result.content).toBe('Hello!');
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should stream text and assemble tool call arguments', async () => {
+    server.handle((_request, res) =>
+      sendEvents(res, [
+        chunk({ role: 'assistant', content: 'Let me ' }),
+        chunk({ content: 'check.' }),
+        chunk({
+          tool_calls: [
+            {
+              index: 0,
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'validate_email', arguments: '{"email":' },
+            },
+          ],
+        }),
+        chunk({ tool_calls: [{ index: 0, function: { arguments: '"john@example.com"}' } }] }),
+        chunk({}, 'tool_calls'),
+        { ...chunk({}), choices: [], usage: { prompt_tokens: 30, completion_tokens: 12 } },
+      ]),
+    );
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of createProvider().stream([{ role: 'user', content: 'hi' }], {
+      tools,
+    })) {
+      events.push(event);
+    }
+
+    expect(readJson(server.requests[0])).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(events.filter((event) => event.type === 'text')).toEqual([
+      { type: 'text', delta: 'Let me ' },
+      { type: 'text', delta: 'check.' },
+    ]);
+    expect(events.at(-1)).toMatchObject({
+      type: 'done',
+      result: {
+        content: 'Let me check.',
+        toolCalls: [
+          {
+            id: 'call_1',
+            function: { name: 'validate_email', arguments: '{"email":"john@example.com"}' },
+          },
+        ],
+        finishReason: 'tool_calls',
+        usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+      },
+    });
+  });
+
+  it('should abort a stream that stalls mid-response', async () => {
+    let closed = false;
+    server.handle((_request, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify(chunk({ role: 'assistant', content: 'Let me ' }))}\n\n`);
+      // The connection stays open but nothing more arrives
+      res.on('close', () => (closed = true));
+    });
+    const provider = new OpenAILLMProvider('', 'local-model', {
+      baseUrl,
+      retryConfig: { maxRetries: 0 },
+      timeoutMs: 100,
+    });
+
+    const events: LLMStreamEvent[] = [];
+    const consume = async () => {
+      for await (const event of provider.stream([{ role: 'user', content: 'hi' }])) {
+        events.push(event);
+      }
+    };
+
+    await expect(consume()).rejects.toMatchObject({ type: LLMErrorType.TIMEOUT });
+    expect(events).toEqual([{ type: 'text', delta: 'Let me ' }]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(closed).toBe(true);
+  });
+});
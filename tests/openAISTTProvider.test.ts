@@ -0,0 +1,151 @@
+import { ConversationEngine, ConversationEngineOptions } from '../src/agents/ConversationEngine';
+import { decodeWav } from '../src/services/audio/audioFormat';
+import { OpenAISTTProvider } from '../src/services/providers/OpenAISTTProvider';
+import { LLMProvider } from '../src/services/providers/types';
+
+import { MockServer, readForm, startMockServer } from './helpers/mockServer';
+
+jest.mock('../src/services/tools/ToolExecutor', () => ({
+  toolDefinitions: [],
+  ToolExecutor: jest.fn(() => ({ execute: jest.fn() })),
+}));
+jest.mock('../src/domain/issue/IssueClassifier', () => ({
+  IssueClassifier: jest.fn(() => ({ classify: jest.fn() })),
+}));
+jest.mock('../src/data/repositories/ConversationLogRepository', () => ({
+  ConversationLogRepository: jest.fn(() => ({ createLog: jest.fn(async () => ({})) })),
+}));
+
+const verboseTranscription = {
+  task: 'transcribe',
+  language: 'english',
+  duration: 1.2,
+  text: ' My name is John Smith. ',
+  words: [
+    { word: 'My', start: 0, end: 0.2 },
+    { word: 'name', start: 0.2, end: 0.4 },
+    { word: 'is', start: 0.4, end: 0.5 },
+    { word: 'John', start: 0.5, end: 0.8 },
+    { word: 'Smith', start: 0.8, end: 1.1 },
+  ],
+  segments: [{ id: 0, start: 0, end: 1.2, text: ' My name is John Smith.', avg_logprob: -0.1 }],
+};
+
+// The defaults of CONFIDENCE_THRESHOLDS
+const DEFAULT_CONFIDENCE_THRESHOLDS = { name: 0.75, email: 0.85, phone: 0.85, address: 0.75 };
+
+const createEngine = (confidenceThresholds: ConversationEngineOptions['confidenceThresholds']) => {
+  const llm = {
+    complete: jest.fn(async () => ({
+      content: 'Thanks John, what is your email?',
+      finishReason: 'stop',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    })),
+    close: jest.fn(),
+  } as unknown as LLMProvider;
+  return { engine: new ConversationEngine({ llm, confidenceThresholds }) };
+};
+
+describe('OpenAISTTProvider', () => {
+  let server: MockServer;
+  let baseUrl: string;
+  let reply: unknown;
+
+  beforeAll(async () => {
+    server = await startMockServer();
+    server.handle((_request, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply));
+    });
+    baseUrl = `${server.url}/v1`;
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    server.reset();
+    reply = verboseTranscription;
+  });
+
+  const lastUpload = () => readForm(server.requests.at(-1)!);
+
+  const pcm = Buffer.alloc(3200); // 100ms of 16 kHz mono silence
+
+  it('should upload the audio as WAV with the model, language and prompt', async () => {
+    const provider = new OpenAISTTProvider('', 'whisper-1', {
+      baseUrl,
+      language: 'en',
+      prompt: 'VPN, Outlook',
+    });
+
+    await provider.transcribe(pcm);
+
+    const upload = await lastUpload();
+    expect(server.requests[0]?.path).toBe('/v1/audio/transcriptions');
+    expect(upload.get('model')).toBe('whisper-1');
+    expect(upload.get('language')).toBe('en');
+    expect(upload.get('prompt')).toBe('VPN, Outlook');
+    expect(upload.get('response_format')).toBe('verbose_json');
+    expect(upload.getAll('timestamp_granularities[]')).toEqual(['word']);
+
+    const file = upload.get('file') as File;
+    expect(file.name).toBe('audio.wav');
+    const { pcm: sent, format } = decodeWav(Buffer.from(await file.arrayBuffer()));
+    expect(format).toMatchObject({ sampleRate: 16000, channels: 1 });
+    expect(sent).toEqual(pcm);
+  });
+
+  it('should prefer the language hint of the conversation', async () => {
+    const provider = new OpenAISTTProvider('', 'whisper-1', { baseUrl, language: 'en' });
+
+    await provider.transcribe(pcm, { language: 'es' });
+
+    expect((await lastUpload()).get('language')).toBe('es');
+  });
+
+  it('should return the text with word timings', async () => {
+    const provider = new OpenAISTTProvider('', 'whisper-1', { baseUrl });
+
+    const result = await provider.transcribe(pcm);
+
+    expect((await lastUpload()).has('language')).toBe(false);
+    expect(result.text).toBe('My name is John Smith.');
+    expect(result.metadata).toMatchObject({
+      provider: 'openai',
+      model: 'whisper-1',
+      language: 'english',
+      audioDuration: 1.2,
+      words: verboseTranscription.words,
+    });
+  });
+
+  it('should not have clean speech read back under the default confidence thresholds', async () => {
+    // Typical log probability of a clean utterance, exp(-0.3) ≈ 0.74
+    reply = {
+      ...verboseTranscription,
+      text: ' John Smith ',
+      segments: [{ ...verboseTranscription.segments[0], avg_logprob: -0.3 }],
+    };
+    const provider = new OpenAISTTProvider('', 'whisper-1', { baseUrl });
+    const { engine } = createEngine(DEFAULT_CONFIDENCE_THRESHOLDS);
+
+    const result = await provider.transcribe(pcm);
+    await engine.respond(result.text, { confidence: result.confidence });
+
+    expect(result.confidence).toBeUndefined();
+    expect(engine.getContext().pendingConfirmation).toBeUndefined();
+    expect(engine.getContext().name).toBe('John Smith');
+  });
+
+  it('should ask the gpt-4o models for plain json', async () => {
+    reply = { text: 'My name is John Smith.' };
+    const provider = new OpenAISTTProvider('', 'gpt-4o-mini-transcribe', { baseUrl });
+
+    const result = await provider.transcribe(pcm);
+
+    expect((await lastUpload()).get('response_format')).toBe('json');
+    expect(result.text).toBe('My name is John Smith.');
+    expect(result.confidence).toBeUndefined();
+    expect(result.metadata).not.toHaveProperty('words');
+  });
+});
@@ -0,0 +1,79 @@
+import { AgentWorker } from '../src/agents/AgentWorker';
+import { RoomPoller } from '../src/agents/RoomPoller';
+
+jest.mock('../src/agents/VoiceAgent', () => ({ VoiceAgent: jest.fn() }));
+
+type FakeRoom = { name: string; numParticipants: number; identities: string[] };
+
+const createRoomService = (rooms: FakeRoom[]) => ({
+  listRooms: jest.fn(async () =>
+    rooms.map(({ name, numParticipants }) => ({ name, numParticipants })),
+  ),
+  listParticipants: jest.fn(
+    async (roomName: string) =>
+      rooms.find((room) => room.name === roomName)?.identities.map((identity) => ({ identity })) ??
+      [],
+  ),
+});
+
+const createWorker = () =>
+  ({
+    hasSession: jest.fn(() => false),
+    startSession: jest.fn(async () => undefined),
+    stopSession: jest.fn(async () => true),
+    getSessions: jest.fn(() => []),
+  }) as unknown as jest.Mocked<AgentWorker>;
+
+const options = { intervalMs: 1000, roomPrefix: '', agentIdentity: 'voice_agent_bot' };
+
+describe('RoomPoller', () => {
+  it('should dispatch agents to rooms with a caller', async () => {
+    const worker = createWorker();
+    const roomService = createRoomService([
+      { name: 'helpdesk_room_1', numParticipants: 1, identities: ['helpdesk_user_1'] },
+      { name: 'helpdesk_room_2', numParticipants: 0, identities: [] },
+    ]);
+
+    await new RoomPoller(worker, roomService as never, options).poll();
+
+    expect(worker.startSession).toHaveBeenCalledTimes(1);
+    expect(worker.startSession).toHaveBeenCalledWith('helpdesk_room_1');
+  });
+
+  it('should not rejoin a room where only the leaving agent is left', async () => {
+    const worker = createWorker();
+    const roomService = createRoomService([
+      { name: 'helpdesk_room_1', numParticipants: 1, identities: ['voice_agent_bot'] },
+    ]);
+
+    await new RoomPoller(worker, roomService as never, options).poll();
+
+    expect(worker.startSession).not.toHaveBeenCalled();
+  });
+
+  it('should only handle rooms matching the prefix', async () => {
+    const worker = createWorker();
+    const roomService = createRoomService([
+      { name: 'helpdesk_room_1', numParticipants: 1, identities: ['helpdesk_user_1'] },
+      { name: 'standup', numParticipants: 3, identities: ['alice', 'bob', 'carol'] },
+    ]);
+
+    await new RoomPoller(worker, roomService as never, {
+      ...options,
+      roomPrefix: 'helpdesk_room_',
+    }).poll();
+
+    expect(worker.startSession).toHaveBeenCalledTimes(1);
+    expect(worker.startSession).toHaveBeenCalledWith('helpdesk_room_1');
+  });
+
+  it('should stop agents whose room is gone', async () => {
+    const worker = createWorker();
+    worker.hasSession.mockReturnValue(true);
+    worker.getSessions.mockReturnValue([{ roomName: 'helpdesk_room_1', phase: 'active' } as never]);
+
+    await new RoomPoller(worker, createRoomService([]) as never, options).poll();
+
+    expect(worker.stopSession).toHaveBeenCalledWith('helpdesk_room_1');
+  });
+});
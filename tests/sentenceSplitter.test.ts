@@ -0,0 +1,91 @@
+import { SentenceSplitter } from '../src/utils/sentenceSplitter';
+
+/**
+ * Feed text through the splitter in small chunks, like a token stream
+ */
+const splitStreamed = (text: string, chunkSize = 3, minLength?: number): string[] => {
+  const splitter = new SentenceSplitter(minLength);
+  const sentences: string[] = [];
+
+  for (let i = 0; i < text.length; i += chunkSize) {
+    sentences.push(...splitter.push(text.slice(i, i + chunkSize)));
+  }
+
+  const rest = splitter.flush();
+  if (rest) sentences.push(rest);
+  return sentences;
+};
+
+describe('SentenceSplitter', () => {
+  it('should emit sentences as soon as they are complete', () => {
+    const splitter = new SentenceSplitter();
+
+    expect(splitter.push('Thanks, I have your email address. ')).toEqual([
+      'Thanks, I have your email address.',
+    ]);
+    expect(splitter.push('What is the best phone')).toEqual([]);
+    expect(splitter.push(' number to reach you?')).toEqual([]);
+    expect(splitter.flush()).toBe('What is the best phone number to reach you?');
+  });
+
+  it('should split streamed text into sentences', () => {
+    expect(
+      splitStreamed(
+        'Got it, your name is Sarah Chen. What is your email address? I will validate it now!',
+      ),
+    ).toEqual([
+      'Got it, your name is Sarah Chen.',
+      'What is your email address?',
+      'I will validate it now!',
+    ]);
+  });
+
+  it('should merge short sentences with the next one', () => {
+    expect(splitStreamed('Great! What is the best phone number to reach you?')).toEqual([
+      'Great! What is the best phone number to reach you?',
+    ]);
+  });
+
+  it('should not split on abbreviations', () => {
+    expect(
+      splitStreamed('Your address is 123 Oak St. in San Francisco. Is that right?', 4, 5),
+    ).toEqual(['Your address is 123 Oak St. in San Francisco.', 'Is that right?']);
+  });
+
+  it('should only take "No." for an abbreviation before a number', () => {
+    expect(splitStreamed('No. I meant the office on Oak Street. Is that right?', 2, 3)).toEqual([
+      'No.',
+      'I meant the office on Oak Street.',
+      'Is that right?',
+    ]);
+    expect(splitStreamed('Your ticket is No. 4521 in the queue. Anything else?', 2, 3)).toEqual([
+      'Your ticket is No. 4521 in the queue.',
+      'Anything else?',
+    ]);
+  });
+
+  it('should not split emails, prices or decimals', () => {
+    expect(
+      splitStreamed('I have sarah.chen@company.com on file. The fee is $2.50 for this service.', 5),
+    ).toEqual(['I have sarah.chen@company.com on file.', 'The fee is $2.50 for this service.']);
+  });
+
+  it('should split on line breaks in lists', () => {
+    expect(
+      splitStreamed(
+        'Is this about:\n1. Wi-Fi problems ($20)\n2. Printer problems ($10)\nPlease choose one.',
+      ),
+    ).toEqual([
+      'Is this about:',
+      '1. Wi-Fi problems ($20)',
+      '2. Printer problems ($10)',
+      'Please choose one.',
+    ]);
+  });
+
+  it('should return null when nothing is left to flush', () => {
+    const splitter = new SentenceSplitter();
+    splitter.push('This sentence is long enough to be emitted. ');
+    expect(splitter.flush()).toBeNull();
+  });
+});
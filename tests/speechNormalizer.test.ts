@@ -0,0 +1,117 @@
+import {
+  normalizeForSpeech,
+  speakEmails,
+  speakPhoneNumbers,
+  speakPrices,
+  speakTicketNumbers,
+} from '../src/services/speech/speechNormalizer';
+
+describe('speech normalization', () => {
+  describe('speakEmails', () => {
+    it('should spell out the symbols of an email address', () => {
+      expect(speakEmails('Is it sarah@company.com?')).toBe('Is it sarah at company dot com?');
+    });
+
+    it('should name separators and read digits one by one', () => {
+      expect(speakEmails('john.smith_99+it@mail.co.uk')).toBe(
+        'john dot smith underscore 9 9 plus it at mail dot co dot uk',
+      );
+    });
+
+    it('should lowercase the address', () => {
+      expect(speakEmails('Sarah@Company.COM')).toBe('sarah at company dot com');
+    });
+  });
+
+  describe('speakPhoneNumbers', () => {
+    it.each([
+      ['(510) 555-1234'],
+      ['510-555-1234'],
+      ['510.555.1234'],
+      ['510 555 1234'],
+      ['5105551234'],
+    ])('should group the digits of %s', (phone) => {
+      expect(speakPhoneNumbers(`Call ${phone}.`)).toBe('Call 5 1 0, 5 5 5, 1 2 3 4.');
+    });
+
+    it('should read the country code', () => {
+      expect(speakPhoneNumbers('+1 510 555 1234')).toBe('plus 1, 5 1 0, 5 5 5, 1 2 3 4');
+      expect(speakPhoneNumbers('+15105551234')).toBe('plus 1, 5 1 0, 5 5 5, 1 2 3 4');
+    });
+
+    it('should pause with SSML breaks when asked to', () => {
+      expect(speakPhoneNumbers('510-555-1234', { ssml: true })).toBe(
+        '5 1 0 <break time="300ms"/> 5 5 5 <break time="300ms"/> 1 2 3 4',
+      );
+    });
+
+    it('should leave longer digit runs alone', () => {
+      expect(speakPhoneNumbers('Order 123456789012')).toBe('Order 123456789012');
+    });
+  });
+
+  describe('speakPrices', () => {
+    it.each([
+      ['$25', '25 dollars'],
+      ['$1', '1 dollar'],
+      ['$9.50', '9 dollars and 50 cents'],
+      ['$25.00', '25 dollars'],
+      ['$0.99', '99 cents'],
+      ['$0.01', '1 cent'],
+      ['$1,200', '1200 dollars'],
+    ])('should say %s as "%s"', (price, spoken) => {
+      expect(speakPrices(price)).toBe(spoken);
+    });
+
+    it('should leave the end of a sentence alone', () => {
+      expect(speakPrices('That will be $20.')).toBe('That will be 20 dollars.');
+    });
+  });
+
+  describe('speakTicketNumbers', () => {
+    it('should read a cuid in groups of four characters', () => {
+      expect(speakTicketNumbers('Your ticket is clx3k9a2b0000qz8h1y2z3abc.')).toBe(
+        'Your ticket is C L X 3, K 9 A 2, B 0 0 0, 0 Q Z 8, H 1 Y 2, Z 3 A B, C.',
+      );
+    });
+
+    it('should pause with SSML breaks when asked to', () => {
+      expect(speakTicketNumbers('clx3k9a2b0000qz8', { ssml: true })).toBe(
+        'C L X 3 <break time="300ms"/> K 9 A 2 <break time="300ms"/> B 0 0 0 <break time="300ms"/> 0 Q Z 8',
+      );
+    });
+
+    it('should leave long words and numbers alone', () => {
+      expect(speakTicketNumbers('internationalization 12345678901234567')).toBe(
+        'internationalization 12345678901234567',
+      );
+    });
+  });
+
+  describe('normalizeForSpeech', () => {
+    it('should apply every rule', () => {
+      expect(
+        normalizeForSpeech(
+          'Ticket clx3k9a2b0000qz8h1y2z3abc for sarah@company.com, (510) 555-1234: $25.',
+        ),
+      ).toBe(
+        'Ticket C L X 3, K 9 A 2, B 0 0 0, 0 Q Z 8, H 1 Y 2, Z 3 A B, C for sarah at company dot com, 5 1 0, 5 5 5, 1 2 3 4: 25 dollars.',
+      );
+    });
+
+    it('should leave plain text untouched', () => {
+      const text = "Thanks John! What's the best email address to reach you?";
+      expect(normalizeForSpeech(text)).toBe(text);
+    });
+
+    it('should speak symbols and prices in the given language', () => {
+      expect(
+        normalizeForSpeech('Su correo es ana_ruiz@empresa.mx, +1 510 555 1234, $9.50.', {
+          locale: 'es',
+        }),
+      ).toBe(
+        'Su correo es ana guion bajo ruiz arroba empresa punto mx, más 1, 5 1 0, 5 5 5, 1 2 3 4, 9 dólares y 50 centavos.',
+      );
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { parseSpelling, spellOut } from '../src/utils/spelling';
+
+describe('spelling', () => {
+  describe('parseSpelling', () => {
+    it.each([
+      ['S, M, I, T, H', 'Smith'],
+      ['S as in Sierra, M, I, T, H', 'Smith'],
+      ['s for sierra m i t h', 'Smith'],
+      ['Sierra Mike India Tango Hotel', 'Smith'],
+      ['It is J. O. H. N.', 'John'],
+      ['capital J, lowercase o, h, n', 'John'],
+      ['capital M, C, capital D, O, N, A, L, D', 'McDonald'],
+      ['jay oh aitch en', 'John'],
+      ['B, I, double L', 'Bill'],
+      ['double u, I, L, L', 'Will'],
+      ['J, O, H, N, space, S, M, I, T, H', 'John Smith'],
+      ['O, apostrophe, B, R, I, E, N', "O'Brien"],
+      ['M-A-R-Y hyphen J-A-N-E', 'Mary-Jane'],
+      ['X-ray, A, V, I, E, R', 'Xavier'],
+      ['um, so, N as in November, G, U, Y, E, N', 'Nguyen'],
+      ['S de Sierra, M, I, T, H', 'Smith'],
+      ['jota u a ene', 'Juan'],
+      ['eme u eñe o zeta', 'Muñoz'],
+      ['a de a', 'Ada'],
+      ['uve doble, i griega, ele, de, e', 'Wylde'],
+      ['pe e doble ele o', 'Pello'],
+    ])('should read the name "%s" as %s', (spoken, name) => {
+      expect(parseSpelling(spoken, 'name')).toBe(name);
+    });
+
+    it.each([
+      ['J, O, H, N, dot, D, O, E, at gmail dot com', 'john.doe@gmail.com'],
+      ['j o h n underscore nine nine at company dot co dot uk', 'john_99@company.co.uk'],
+      ['K as in kilo, L, E, E, at outlook dot com', 'klee@outlook.com'],
+      ['capital A, N, N, A, at, G, M, A, I, L, dot, C, O, M', 'anna@gmail.com'],
+      ['T, dash, R, E, X, at example dot com', 't-rex@example.com'],
+      ['J U A N arroba gmail punto com', 'juan@gmail.com'],
+      [
+        'jota, u, a, ene, guion bajo, pe, e, erre, e, zeta arroba correo punto es',
+        'juan_perez@correo.es',
+      ],
+      ['a ene a guion ele arroba empresa punto com', 'ana-l@empresa.com'],
+    ])('should read the email "%s" as %s', (spoken, email) => {
+      expect(parseSpelling(spoken, 'email')).toBe(email);
+    });
+
+    it('should find nothing in a sentence without letters', () => {
+      expect(parseSpelling('hold on one second', 'name')).toBeNull();
+      expect(parseSpelling('one two three', 'name')).toBeNull();
+    });
+  });
+
+  describe('spellOut', () => {
+    it('should read a name letter by letter', () => {
+      expect(spellOut("John O'Neil", 'name')).toBe('J, O, H, N, space, O, apostrophe, N, E, I, L');
+    });
+
+    it('should spell the local part of an email and say the domain', () => {
+      expect(spellOut('john.doe_9@gmail.com', 'email')).toBe(
+        'J, O, H, N, dot, D, O, E, underscore, 9 at gmail dot com',
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { normalizeSpokenEmail, normalizeSpokenPhone } from '../src/utils/spokenForms';
+import { extractEmail, extractPhone } from '../src/utils/validation';
+
+/**
+ * Transcripts as STT returns them (Deepgram, Whisper), with the address the caller meant
+ */
+const EMAIL_CORPUS: Array<[string, string]> = [
+  ['john dot doe at gmail dot com', 'john.doe@gmail.com'],
+  ['John dot Doe at Gmail dot com.', 'john.doe@gmail.com'],
+  ['My email is john dot doe at gmail dot com.', 'john.doe@gmail.com'],
+  ["It's sarah at company dot com", 'sarah@company.com'],
+  ['Sure, it is sarah underscore jones at company dot com.', 'sarah_jones@company.com'],
+  ['my email address is mike dash smith at outlook dot com', 'mike-smith@outlook.com'],
+  ['Yeah, it is mike hyphen smith at yahoo dot co dot uk.', 'mike-smith@yahoo.co.uk'],
+  ['j o h n at gmail dot com', 'john@gmail.com'],
+  ['J-O-H-N at gmail dot com.', 'john@gmail.com'],
+  ['my email is j smith at gmail dot com', 'jsmith@gmail.com'],
+  ['It is john doe at gmail dot com.', 'johndoe@gmail.com'],
+  ['john one two three at gmail dot com', 'john123@gmail.com'],
+  ['john twenty three at hotmail dot com', 'john23@hotmail.com'],
+  ['john double five at gmail dot com', 'john55@gmail.com'],
+  ['bi double l at company dot org', 'bill@company.org'],
+  ['john at g mail dot com', 'john@gmail.com'],
+  ['Email is anna at hot mail dot com.', 'anna@hotmail.com'],
+  ['its priya at the rate gmail dot com', 'priya@gmail.com'],
+  ['priya at the rate of gmail dot com', 'priya@gmail.com'],
+  ['john period doe at gmail period com', 'john.doe@gmail.com'],
+  ['john plus it at gmail dot com', 'john+it@gmail.com'],
+  ['Uh, so my email is, um, john dot doe at gmail dot com.', 'john.doe@gmail.com'],
+  ['Okay. John dot doe at acme dash corp dot com.', 'john.doe@acme-corp.com'],
+  ['john dot doe at gmail.com', 'john.doe@gmail.com'],
+  ['john.doe at gmail dot com', 'john.doe@gmail.com'],
+  ['john.doe@gmail.com', 'john.doe@gmail.com'],
+  ['Sure, it is JOHN.DOE@GMAIL.COM.', 'john.doe@gmail.com'],
+  ["I'm at home, but my email is john at gmail dot com", 'john@gmail.com'],
+  ['my email is john at gmail dot com and i am at home', 'john@gmail.com'],
+  ['Try t dot nguyen at university dot edu.', 't.nguyen@university.edu'],
+  ['it is info at my dash shop dot io', 'info@my-shop.io'],
+  ['d a v e at icloud dot com', 'dave@icloud.com'],
+  ['Yes. Dave at i cloud dot com.', 'dave@icloud.com'],
+  ['carlos dot m seven at gmail dot com', 'carlos.m7@gmail.com'],
+  ['The email is support at help desk dot net.', 'support@helpdesk.net'],
+  ['Mi correo es juan punto perez arroba gmail punto com.', 'juan.perez@gmail.com'],
+  ['Sí, es maria guion bajo lopez arroba empresa punto mx', 'maria_lopez@empresa.mx'],
+  ['correo electrónico ana guion ruiz arroba hotmail punto es', 'ana-ruiz@hotmail.es'],
+];
+
+const NOT_EMAILS = [
+  "I'm at home right now",
+  'I can be reached at work',
+  "it's john at gmail",
+  'My name is John Doe.',
+];
+
+const PHONE_CORPUS: Array<[string, string]> = [
+  ['five one zero five five five one two three four', '5105551234'],
+  ['Five one zero, five five five, one two three four.', '5105551234'],
+  ['My number is five one zero five five five one two three four.', '5105551234'],
+  ['five one oh five five five one two three four', '5105551234'],
+  ['five one o, five five five, one two three o', '5105551230'],
+  ['five one zero double five five one two three four', '5105551234'],
+  ['five one zero triple five one two three four', '5105551234'],
+  ['five one zero five five five twelve thirty four', '5105551234'],
+  ['four one five, eight six seven, fifty three oh nine', '4158675309'],
+  ['It is four one five eight six seven five three oh nine', '4158675309'],
+  ['one eight hundred five five five one two one two', '18005551212'],
+  ['plus one five one zero five five five one two three four', '+15105551234'],
+  ['Five-one-zero, five-five-five, one-two-three-four.', '5105551234'],
+  ['five one zero, uh, five five five, um, one two three four', '5105551234'],
+  ['five one zero five five five one two three four and that is my cell', '5105551234'],
+  ['Yeah, sure. 510 555 1234.', '5105551234'],
+  ['510-555-1234', '5105551234'],
+  ['(510) 555-1234', '(510) 5551234'],
+  ['510.555.1234', '510.555.1234'],
+  ['My cell is 5105551234', '5105551234'],
+  ['five one zero 555 one two three four', '5105551234'],
+  ['Oh, it is five one zero five five five one two three four.', '5105551234'],
+  ['area code five one zero, then five five five, one two three four', '5105551234'],
+  ['double oh seven five five five one two three four', '0075551234'],
+  ['Nine one seven, two oh two, double one double four.', '9172021144'],
+  ['six five zero, two five three, zero zero zero zero', '6502530000'],
+  ['It is seven oh three, four eight two, sixty sixty.', '7034826060'],
+  ['cinco uno cero, cinco cinco cinco, uno dos tres cuatro', '5105551234'],
+  ['Mi número es cinco uno cero doble cinco cinco, eh, uno dos tres cuatro.', '5105551234'],
+  ['más uno cinco uno cero cinco cinco cinco uno dos tres cuatro', '+15105551234'],
+];
+
+const NOT_PHONES = ['five five five', 'Oh, I do not have a phone', 'one two three four five six'];
+
+describe('spoken forms', () => {
+  describe('extractEmail', () => {
+    it.each(EMAIL_CORPUS)('should read "%s" as %s', (transcript, email) => {
+      expect(extractEmail(transcript)).toBe(email);
+    });
+
+    it.each(NOT_EMAILS)('should find no email in "%s"', (transcript) => {
+      expect(extractEmail(transcript)).toBeNull();
+    });
+  });
+
+  describe('extractPhone', () => {
+    it.each(PHONE_CORPUS)('should read "%s" as %s', (transcript, phone) => {
+      expect(extractPhone(transcript)).toBe(phone);
+    });
+
+    it.each(NOT_PHONES)('should find no phone number in "%s"', (transcript) => {
+      expect(extractPhone(transcript)).toBeNull();
+    });
+  });
+
+  describe('normalizeSpokenEmail', () => {
+    it('should leave text without a spoken address unchanged', () => {
+      expect(normalizeSpokenEmail("I'm at home, Sorry.")).toBe("I'm at home, Sorry.");
+    });
+
+    it('should keep the words around the address', () => {
+      expect(normalizeSpokenEmail('it is john at gmail dot com thanks')).toBe(
+        'it is john@gmail.com thanks',
+      );
+    });
+  });
+
+  describe('normalizeSpokenPhone', () => {
+    it('should keep "oh" as a word away from digits', () => {
+      expect(normalizeSpokenPhone('Oh, it is five one zero')).toBe('oh it is 510');
+    });
+
+    it('should keep fillers that are not between digits', () => {
+      expect(normalizeSpokenPhone('um it is five five five')).toBe('um it is 555');
+    });
+  });
+});
@@ -24,6 +24,13 @@ describe('Conversation State Machine', () => {
       );
     });
 
+    it('should allow ending the call from any active state', () => {
+      for (const state of Object.values(ConversationState)) {
+        if (state === ConversationState.ENDED) continue;
+        expect(isValidTransition(state, ConversationState.ENDED)).toBe(true);
+      }
+    });
+
     it('should not allow transitions from ended state', () => {
       expect(isValidTransition(ConversationState.ENDED, ConversationState.GREETING)).toBe(false);
     });
@@ -0,0 +1,169 @@
+import { Turn, TurnQueue, TurnQueueEvent } from '../src/domain/conversation/TurnQueue';
+
+/**
+ * Handler that records turns and keeps each one in flight until released
+ */
+const createHandler = () => {
+  const turns: Turn[] = [];
+  const releases: Array<() => void> = [];
+
+  const handler = (turn: Turn): Promise<void> => {
+    turns.push(turn);
+    return new Promise<void>((resolve) => {
+      releases.push(resolve);
+      turn.signal.addEventListener('abort', () => resolve());
+    });
+  };
+
+  const release = async (): Promise<void> => {
+    releases.shift()?.();
+    // Let the queue start the next turn
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  return { handler, turns, release };
+};
+
+describe('TurnQueue', () => {
+  it('should start a turn right away when idle', () => {
+    const { handler, turns } = createHandler();
+    const queue = new TurnQueue(handler, { policy: 'merge', maxPending: 3 });
+
+    queue.enqueue('my name is Sarah Chen');
+
+    expect(turns).toHaveLength(1);
+    expect(turns[0]!.text).toBe('my name is Sarah Chen');
+    expect(queue.isBusy()).toBe(true);
+  });
+
+  describe('merge policy', () => {
+    it('should hold utterances until the current turn finishes', async () => {
+      const { handler, turns, release } = createHandler();
+      const queue = new TurnQueue(handler, { policy: 'merge', maxPending: 3 });
+
+      queue.enqueue('my email is sarah at company dot com');
+      queue.enqueue('and my phone is 555 123 4567');
+
+      expect(turns).toHaveLength(1);
+
+      await release();
+
+      expect(turns).toHaveLength(2);
+      expect(turns[1]!.text).toBe('and my phone is 555 123 4567');
+      expect(turns[0]!.signal.aborted).toBe(false);
+    });
+
+    it('should merge everything said during a turn into the next one', async () => {
+      const { handler, turns, release } = createHandler();
+      const events: TurnQueueEvent[] = [];
+      const queue = new TurnQueue(handler, {
+        policy: 'merge',
+        maxPending: 3,
+        onEvent: (event) => events.push(event),
+      });
+
+      queue.enqueue('my phone is');
+      queue.enqueue('555 123');
+      queue.enqueue('4567');
+      await release();
+
+      expect(turns[1]!.text).toBe('555 123 4567');
+      expect(turns[1]!.utterances).toEqual(['555 123', '4567']);
+      expect(events).toEqual([
+        { type: 'merged', text: '555 123 4567', utterances: ['555 123', '4567'] },
+      ]);
+    });
+
+    it('should drop and report the oldest utterance when the queue is full', () => {
+      const { handler } = createHandler();
+      const events: TurnQueueEvent[] = [];
+      const queue = new TurnQueue(handler, {
+        policy: 'merge',
+        maxPending: 2,
+        onEvent: (event) => events.push(event),
+      });
+
+      queue.enqueue('first');
+      queue.enqueue('second');
+      queue.enqueue('third');
+      queue.enqueue('fourth');
+
+      expect(events).toEqual([{ type: 'dropped', utterance: 'second', reason: 'queue_full' }]);
+    });
+  });
+
+  describe('restart policy', () => {
+    it('should cancel the in-flight turn and restart with the combined text', async () => {
+      const { handler, turns, release } = createHandler();
+      const events: TurnQueueEvent[] = [];
+      const queue = new TurnQueue(handler, {
+        policy: 'restart',
+        maxPending: 3,
+        onEvent: (event) => events.push(event),
+      });
+
+      queue.enqueue('my email is sarah');
+      queue.enqueue('at company dot com');
+      // The cancelled turn settles, then the combined one starts
+      await release();
+
+      expect(turns[0]!.signal.aborted).toBe(true);
+      expect(turns[1]!.text).toBe('my email is sarah at company dot com');
+      expect(events).toEqual([
+        { type: 'restarted', cancelledText: 'my email is sarah', utterance: 'at company dot com' },
+        {
+          type: 'merged',
+          text: 'my email is sarah at company dot com',
+          utterances: ['my email is sarah', 'at company dot com'],
+        },
+      ]);
+    });
+
+    it('should not cancel a turn that has been committed', async () => {
+      const { handler, turns, release } = createHandler();
+      const queue = new TurnQueue(handler, { policy: 'restart', maxPending: 3 });
+
+      queue.enqueue('yes, please create the ticket');
+      turns[0]!.commit();
+      queue.enqueue('thanks');
+
+      expect(turns[0]!.signal.aborted).toBe(false);
+
+      await release();
+
+      expect(turns[1]!.text).toBe('thanks');
+    });
+  });
+
+  it('should keep going after a handler error', async () => {
+    const turns: string[] = [];
+    const queue = new TurnQueue(
+      (turn) => {
+        turns.push(turn.text);
+        return turn.text === 'boom' ? Promise.reject(new Error('boom')) : Promise.resolve();
+      },
+      { policy: 'merge', maxPending: 3 },
+    );
+
+    queue.enqueue('boom');
+    queue.enqueue('hello');
+    await queue.drain();
+
+    expect(turns).toEqual(['boom', 'hello']);
+    expect(queue.isBusy()).toBe(false);
+  });
+
+  it('should report idle only once nothing is queued', async () => {
+    const { handler, release } = createHandler();
+    const onIdle = jest.fn();
+    const queue = new TurnQueue(handler, { policy: 'merge', maxPending: 3, onIdle });
+
+    queue.enqueue('hello');
+    queue.enqueue('are you there');
+    await release();
+    expect(onIdle).not.toHaveBeenCalled();
+
+    await release();
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { metricsRegistry, observeTurnTimings } from '../src/services/metrics/metrics';
+import { TurnTimer } from '../src/services/metrics/TurnTimer';
+
+/**
+ * Timer on a fake clock that starts at the end of speech
+ */
+const createTimer = () => {
+  let now = 10_000;
+  const timer = new TurnTimer(now, () => now);
+  return {
+    timer,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+describe('TurnTimer', () => {
+  it('should derive stage durations from the marks', () => {
+    const { timer, advance } = createTimer();
+
+    advance(300);
+    timer.mark('stt_done');
+    timer.mark('llm_start');
+    advance(400);
+    timer.mark('llm_first_token');
+    advance(600);
+    timer.mark('llm_done');
+    timer.mark('tts_start');
+    advance(150);
+    timer.mark('tts_first_byte');
+    advance(50);
+    timer.mark('first_frame');
+    advance(2000);
+    timer.mark('turn_done');
+
+    expect(timer.getTimings().stages).toEqual({
+      stt: 300,
+      llm_first_token: 400,
+      llm: 1000,
+      tts_first_byte: 150,
+      response: 1500,
+      turn: 3500,
+    });
+  });
+
+  it('should keep the first occurrence of a mark', () => {
+    const { timer, advance } = createTimer();
+
+    timer.mark('tts_start');
+    advance(100);
+    timer.mark('tts_first_byte');
+    advance(900);
+    timer.mark('tts_start');
+    timer.mark('tts_first_byte');
+
+    expect(timer.getTimings().marks).toEqual({ speech_end: 0, tts_start: 0, tts_first_byte: 100 });
+  });
+
+  it('should leave out stages that never happened', () => {
+    const { timer, advance } = createTimer();
+
+    timer.mark('llm_start');
+    advance(200);
+    timer.mark('llm_done');
+
+    expect(timer.getTimings().stages).toEqual({ llm: 200 });
+  });
+
+  it('should time tool calls, including failed ones', async () => {
+    const { timer, advance } = createTimer();
+
+    await timer.timeTool('validate_email', async () => {
+      advance(20);
+      return 'ok';
+    });
+    await expect(
+      timer.timeTool('create_ticket', async () => {
+        advance(80);
+        throw new Error('database down');
+      }),
+    ).rejects.toThrow('database down');
+
+    expect(timer.getTimings().tools).toEqual([
+      { name: 'validate_email', startMs: 0, durationMs: 20 },
+      { name: 'create_ticket', startMs: 20, durationMs: 80 },
+    ]);
+  });
+});
+
+describe('turn metrics', () => {
+  it('should export stage and tool histograms', async () => {
+    observeTurnTimings(
+      {
+        marks: {},
+        tools: [{ name: 'create_ticket', startMs: 0, durationMs: 120 }],
+        stages: { stt: 300, response: 1500 },
+      },
+      'voice',
+    );
+
+    const metrics = await metricsRegistry.metrics();
+
+    expect(metrics).toContain(
+      'voicebot_turn_stage_duration_seconds_count{stage="stt",channel="voice"} 1',
+    );
+    expect(metrics).toContain(
+      'voicebot_turn_stage_duration_seconds_sum{stage="response",channel="voice"} 1.5',
+    );
+    expect(metrics).toContain('voicebot_tool_duration_seconds_count{tool="create_ticket"} 1');
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  AdaptiveVoiceActivityDetector,
+  calculateRMS,
+  detectSpeechSegments,
+  EnergyVoiceActivityDetector,
+} from '../src/services/audio/VoiceActivityDetector';
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * Build a 16-bit mono PCM "recording" from sections of noise and tone
+ * Noise is deterministic so results are stable across runs
+ */
+const buildRecording = (sections: Array<{ ms: number; noise: number; tone?: number }>): Buffer => {
+  const totalSamples = sections.reduce((sum, s) => sum + (s.ms * SAMPLE_RATE) / 1000, 0);
+  const pcm = Buffer.alloc(totalSamples * 2);
+  let seed = 42;
+  let index = 0;
+
+  for (const section of sections) {
+    const samples = (section.ms * SAMPLE_RATE) / 1000;
+    for (let i = 0; i < samples; i++) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      const noise = ((seed / 2147483648) * 2 - 1) * section.noise;
+      const tone = section.tone
+        ? Math.sin((2 * Math.PI * 220 * index) / SAMPLE_RATE) * section.tone
+        : 0;
+      const sample = Math.max(-32768, Math.min(32767, Math.round(noise + tone)));
+      pcm.writeInt16LE(sample, index * 2);
+      index++;
+    }
+  }
+
+  return pcm;
+};
+
+describe('Voice Activity Detection', () => {
+  describe('calculateRMS', () => {
+    it('should return 0 for silence and empty frames', () => {
+      expect(calculateRMS(new Int16Array(320))).toBe(0);
+      expect(calculateRMS(new Int16Array(0))).toBe(0);
+    });
+
+    it('should compute RMS of a constant signal', () => {
+      expect(calculateRMS(new Int16Array([100, -100, 100, -100]))).toBe(100);
+    });
+  });
+
+  describe('EnergyVoiceActivityDetector', () => {
+    it('should detect a single utterance in a quiet room', () => {
+      const pcm = buildRecording([
+        { ms: 500, noise: 10 },
+        { ms: 800, noise: 10, tone: 2000 },
+        { ms: 800, noise: 10 },
+      ]);
+
+      const segments = detectSpeechSegments(new EnergyVoiceActivityDetector(50), pcm, SAMPLE_RATE);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0]!.startMs).toBeGreaterThanOrEqual(500);
+      expect(segments[0]!.startMs).toBeLessThan(600);
+      expect(segments[0]!.endMs).toBeGreaterThanOrEqual(1300);
+    });
+
+    it('should never end speech in a noisy office', () => {
+      const pcm = buildRecording([
+        { ms: 500, noise: 400 },
+        { ms: 800, noise: 400, tone: 3000 },
+        { ms: 800, noise: 400 },
+      ]);
+
+      const segments = detectSpeechSegments(new EnergyVoiceActivityDetector(50), pcm, SAMPLE_RATE);
+
+      // The fixed threshold treats background noise as speech from the very start
+      expect(segments).toHaveLength(1);
+      expect(segments[0]!.startMs).toBeLessThan(100);
+    });
+  });
+
+  describe('AdaptiveVoiceActivityDetector', () => {
+    it('should calibrate the noise floor from the first second', () => {
+      const detector = new AdaptiveVoiceActivityDetector({ calibrationMs: 1000 });
+      detectSpeechSegments(detector, buildRecording([{ ms: 1200, noise: 400 }]), SAMPLE_RATE);
+
+      const floor = detector.getNoiseFloor();
+      expect(floor).not.toBeNull();
+      // Uniform noise in [-400, 400] has an RMS of ~231
+      expect(floor!).toBeGreaterThan(180);
+      expect(floor!).toBeLessThan(280);
+    });
+
+    it('should isolate speech from a noisy office background', () => {
+      const pcm = buildRecording([
+        { ms: 1200, noise: 400 },
+        { ms: 800, noise: 400, tone: 3000 },
+        { ms: 1000, noise: 400 },
+      ]);
+
+      const segments = detectSpeechSegments(new AdaptiveVoiceActivityDetector(), pcm, SAMPLE_RATE);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0]!.startMs).toBeGreaterThanOrEqual(1200);
+      expect(segments[0]!.startMs).toBeLessThan(1300);
+      expect(segments[0]!.endMs).toBeLessThan(2600);
+    });
+
+    it('should pick up a quiet speaker that the fixed threshold misses', () => {
+      const pcm = buildRecording([
+        { ms: 1200, noise: 5 },
+        { ms: 800, noise: 5, tone: 60 },
+        { ms: 1000, noise: 5 },
+      ]);
+
+      const fixed = detectSpeechSegments(new EnergyVoiceActivityDetector(50), pcm, SAMPLE_RATE);
+      const adaptive = detectSpeechSegments(
+        new AdaptiveVoiceActivityDetector({ minEnergy: 15 }),
+        pcm,
+        SAMPLE_RATE,
+      );
+
+      expect(fixed).toHaveLength(0);
+      expect(adaptive).toHaveLength(1);
+    });
+
+    it('should bridge short pauses with hangover', () => {
+      const pcm = buildRecording([
+        { ms: 1200, noise: 20 },
+        { ms: 400, noise: 20, tone: 2000 },
+        { ms: 200, noise: 20 },
+        { ms: 400, noise: 20, tone: 2000 },
+        { ms: 1000, noise: 20 },
+      ]);
+
+      const segments = detectSpeechSegments(
+        new AdaptiveVoiceActivityDetector({ hangoverMs: 400 }),
+        pcm,
+        SAMPLE_RATE,
+      );
+
+      expect(segments).toHaveLength(1);
+    });
+
+    it('should split utterances separated by a long pause', () => {
+      const pcm = buildRecording([
+        { ms: 1200, noise: 20 },
+        { ms: 400, noise: 20, tone: 2000 },
+        { ms: 800, noise: 20 },
+        { ms: 400, noise: 20, tone: 2000 },
+        { ms: 1000, noise: 20 },
+      ]);
+
+      const segments = detectSpeechSegments(
+        new AdaptiveVoiceActivityDetector({ hangoverMs: 400 }),
+        pcm,
+        SAMPLE_RATE,
+      );
+
+      expect(segments).toHaveLength(2);
+    });
+
+    it('should ignore clicks shorter than the minimum speech duration', () => {
+      const pcm = buildRecording([
+        { ms: 1200, noise: 20 },
+        { ms: 20, noise: 20, tone: 5000 },
+        { ms: 1000, noise: 20 },
+      ]);
+
+      const segments = detectSpeechSegments(
+        new AdaptiveVoiceActivityDetector({ minSpeechMs: 60 }),
+        pcm,
+        SAMPLE_RATE,
+      );
+
+      expect(segments).toHaveLength(0);
+    });
+
+    it('should recalibrate after reset', () => {
+      const detector = new AdaptiveVoiceActivityDetector({ calibrationMs: 500 });
+      detectSpeechSegments(detector, buildRecording([{ ms: 600, noise: 400 }]), SAMPLE_RATE);
+      expect(detector.getNoiseFloor()).not.toBeNull();
+
+      detector.reset();
+      expect(detector.getNoiseFloor()).toBeNull();
+    });
+  });
+});
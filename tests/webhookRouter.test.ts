@@ -0,0 +1,146 @@
+import { createHash } from 'node:crypto';
+
+import express from 'express';
+import { AccessToken, WebhookReceiver } from 'livekit-server-sdk';
+import request from 'supertest';
+
+import { AgentWorkerError } from '../src/agents/AgentWorker';
+import { createWebhookRouter } from '../src/agents/webhookRouter';
+
+jest.mock('../src/agents/VoiceAgent', () => ({ VoiceAgent: jest.fn() }));
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+/**
+ * Signs a payload the way LiveKit does: a JWT whose sha256 claim is the body hash
+ */
+const sign = async (body: string, secret = API_SECRET) => {
+  const token = new AccessToken(API_KEY, secret);
+  token.sha256 = createHash('sha256').update(body).digest('base64');
+  return token.toJwt();
+};
+
+const samplePayload = (event: string, identity?: string, roomName = 'helpdesk_room_1') =>
+  JSON.stringify({
+    event,
+    id: `EV_${event}`,
+    createdAt: '1700000000',
+    room: { sid: 'RM_test', name: roomName },
+    ...(identity && { participant: { sid: 'PA_test', identity } }),
+  });
+
+const createApp = (roomPrefix = '') => {
+  const worker = {
+    startSession: jest.fn(async () => ({}) as never),
+    stopSession: jest.fn(async () => true),
+  };
+  const app = express();
+  app.use(
+    createWebhookRouter({
+      receiver: new WebhookReceiver(API_KEY, API_SECRET),
+      worker,
+      agentIdentity: 'voice_agent_bot',
+      roomPrefix,
+    }),
+  );
+  return { app, worker };
+};
+
+const post = async (app: express.Express, body: string, authorization?: string) => {
+  const req = request(app).post('/webhook/livekit').set('Content-Type', 'application/webhook+json');
+  if (authorization) req.set('Authorization', authorization);
+  return req.send(body);
+};
+
+describe('LiveKit webhook', () => {
+  it('should dispatch an agent when a caller joins', async () => {
+    const { app, worker } = createApp();
+    const body = samplePayload('participant_joined', 'helpdesk_user_42');
+
+    const res = await post(app, body, await sign(body));
+
+    expect(res.status).toBe(200);
+    expect(worker.startSession).toHaveBeenCalledWith('helpdesk_room_1');
+  });
+
+  it('should not dispatch when the agent itself joins', async () => {
+    const { app, worker } = createApp();
+    const body = samplePayload('participant_joined', 'voice_agent_bot');
+
+    await post(app, body, await sign(body));
+
+    expect(worker.startSession).not.toHaveBeenCalled();
+  });
+
+  it('should stop the session when the caller leaves or the room finishes', async () => {
+    const { app, worker } = createApp();
+    const left = samplePayload('participant_left', 'helpdesk_user_42');
+    const finished = samplePayload('room_finished');
+
+    await post(app, left, await sign(left));
+    await post(app, finished, await sign(finished));
+
+    expect(worker.stopSession).toHaveBeenCalledTimes(2);
+    expect(worker.stopSession).toHaveBeenCalledWith('helpdesk_room_1');
+  });
+
+  it('should wait for a caller on room_started', async () => {
+    const { app, worker } = createApp();
+    const body = samplePayload('room_started');
+
+    const res = await post(app, body, await sign(body));
+
+    expect(res.status).toBe(200);
+    expect(worker.startSession).not.toHaveBeenCalled();
+  });
+
+  it('should ignore rooms outside the prefix', async () => {
+    const { app, worker } = createApp('helpdesk_room_');
+    const body = samplePayload('participant_joined', 'alice', 'standup');
+
+    await post(app, body, await sign(body));
+
+    expect(worker.startSession).not.toHaveBeenCalled();
+  });
+
+  it('should acknowledge events the worker has no capacity for', async () => {
+    const { app, worker } = createApp();
+    worker.startSession.mockRejectedValueOnce(new AgentWorkerError('full', 'at_capacity'));
+    const body = samplePayload('participant_joined', 'helpdesk_user_42');
+
+    const res = await post(app, body, await sign(body));
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should reject unsigned requests', async () => {
+    const { app, worker } = createApp();
+
+    const res = await post(app, samplePayload('participant_joined', 'helpdesk_user_42'));
+
+    expect(res.status).toBe(401);
+    expect(worker.startSession).not.toHaveBeenCalled();
+  });
+
+  it('should reject a signature from another secret', async () => {
+    const { app, worker } = createApp();
+    const body = samplePayload('participant_joined', 'helpdesk_user_42');
+
+    const res = await post(app, body, await sign(body, 'some-other-secret-that-is-long-enough'));
+
+    expect(res.status).toBe(401);
+    expect(worker.startSession).not.toHaveBeenCalled();
+  });
+
+  it('should reject a body that does not match the signed hash', async () => {
+    const { app, worker } = createApp();
+    const signed = samplePayload('participant_joined', 'helpdesk_user_42');
+    const tampered = samplePayload('participant_joined', 'helpdesk_user_42', 'other_room');
+
+    const res = await post(app, tampered, await sign(signed));
+
+    expect(res.status).toBe(401);
+    expect(worker.startSession).not.toHaveBeenCalled();
+  });
+});